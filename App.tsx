@@ -8,7 +8,8 @@ import { ChatBot } from './components/ChatBot';
 import { ProfileView } from './components/ProfileView';
 import { CompareView } from './components/CompareView';
 import { storageService } from './services/storageService';
-import { User, Contract } from './types';
+import { clearClauseLink, readClauseLink } from './services/deepLink';
+import { User, Contract, SavedComparison } from './types';
 
 // Simple router state
 type View = 'auth' | 'dashboard' | 'upload' | 'analysis' | 'profile' | 'compare';
@@ -17,7 +18,9 @@ const App: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
   const [view, setView] = useState<View>('auth');
   const [selectedContract, setSelectedContract] = useState<Contract | null>(null);
+  const [focusClauseId, setFocusClauseId] = useState<string | undefined>(undefined);
   const [compareContracts, setCompareContracts] = useState<Contract[] | null>(null);
+  const [savedComparison, setSavedComparison] = useState<SavedComparison | undefined>(undefined);
 
   // Check auth on load
   useEffect(() => {
@@ -25,9 +28,26 @@ const App: React.FC = () => {
     if (currentUser) {
       setUser(currentUser);
       setView('dashboard');
+      openClauseLink(currentUser);
     }
   }, []);
 
+  // Calendar entries link back to ?contract=<id>&clause=<clauseId>
+  const openClauseLink = (currentUser: User) => {
+    const link = readClauseLink();
+    if (!link) return;
+    clearClauseLink();
+
+    const contract = storageService.getContracts(currentUser.id).find(c => c.id === link.contractId);
+    if (contract) handleSelectContract(contract, link.clauseId);
+  };
+
+  const handleSelectContract = (contract: Contract, clauseId?: string) => {
+    setSelectedContract(contract);
+    setFocusClauseId(clauseId);
+    setView('analysis');
+  };
+
   const handleLogin = (email: string, name: string = 'User') => {
     // In a real app, verify credentials. Here, we mock it.
     const newUser: User = { id: email, email, name };
@@ -35,6 +55,7 @@ const App: React.FC = () => {
     storageService.saveUser(newUser); // Ensure user exists in 'DB'
     setUser(newUser);
     setView('dashboard');
+    openClauseLink(newUser);
   };
 
   const handleLogout = () => {
@@ -43,11 +64,11 @@ const App: React.FC = () => {
     setView('auth');
     setSelectedContract(null);
     setCompareContracts(null);
+    setSavedComparison(undefined);
   };
 
   const handleUploadComplete = (contract: Contract) => {
-    setSelectedContract(contract);
-    setView('analysis');
+    handleSelectContract(contract);
   };
 
   const handleContractUpdate = async (updatedContract: Contract) => {
@@ -67,8 +88,9 @@ const App: React.FC = () => {
       setUser(updatedUser);
   };
 
-  const handleCompare = (contracts: Contract[]) => {
+  const handleCompare = (contracts: Contract[], comparison?: SavedComparison) => {
       setCompareContracts(contracts);
+      setSavedComparison(comparison);
       setView('compare');
   };
 
@@ -81,10 +103,7 @@ const App: React.FC = () => {
           <Dashboard 
             user={user} 
             onNewUpload={() => setView('upload')} 
-            onSelectContract={(c) => {
-              setSelectedContract(c);
-              setView('analysis');
-            }}
+            onSelectContract={handleSelectContract}
             onCompare={handleCompare}
           />
         );
@@ -116,6 +135,7 @@ const App: React.FC = () => {
             contract={selectedContract} 
             onBack={() => setView('dashboard')} 
             onContractUpdate={handleContractUpdate}
+            focusClauseId={focusClauseId}
           />
         ) : (
           <div>Error: No contract selected</div>
@@ -132,6 +152,7 @@ const App: React.FC = () => {
         return compareContracts ? (
             <CompareView 
                 contracts={compareContracts}
+                savedComparison={savedComparison}
                 onBack={() => setView('dashboard')}
             />
         ) : (
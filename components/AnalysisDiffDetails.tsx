@@ -0,0 +1,103 @@
+import React from 'react';
+import { ArrowRight, Plus, Minus } from 'lucide-react';
+import { Clause } from '../types';
+import { AnalysisDiff } from '../services/analysisVersions';
+import { RiskBadge } from './RiskBadge';
+
+interface AnalysisDiffDetailsProps {
+  diff: AnalysisDiff;
+}
+
+const ClauseLine: React.FC<{ clause: Clause }> = ({ clause }) => (
+  <div className="text-sm">
+    <div className="text-slate-200">{clause.explanation || clause.text}</div>
+    <div className="text-xs text-slate-500 italic mt-0.5 line-clamp-2">"{clause.text}"</div>
+  </div>
+);
+
+// Score, overall risk and clause-level changes between two analyses
+export const AnalysisDiffDetails: React.FC<AnalysisDiffDetailsProps> = ({ diff }) => {
+  const scoreDelta = diff.scoreAfter - diff.scoreBefore;
+
+  return (
+    <>
+      <div className="grid sm:grid-cols-3 gap-3">
+        <div className="bg-slate-800/50 p-3 rounded-xl border border-slate-800">
+          <div className="text-xs font-semibold text-slate-400 uppercase tracking-wide mb-1">Risk Score</div>
+          <div className="text-sm text-slate-200">
+            {diff.scoreBefore} → {diff.scoreAfter}
+            <span className={`ml-2 font-bold ${scoreDelta > 0 ? 'text-red-400' : scoreDelta < 0 ? 'text-emerald-400' : 'text-slate-500'}`}>
+              {scoreDelta > 0 ? `+${scoreDelta}` : scoreDelta}
+            </span>
+          </div>
+        </div>
+        <div className="bg-slate-800/50 p-3 rounded-xl border border-slate-800">
+          <div className="text-xs font-semibold text-slate-400 uppercase tracking-wide mb-1">Overall Risk</div>
+          <div className="flex items-center gap-2">
+            <RiskBadge level={diff.overallRiskBefore} size="sm" />
+            <ArrowRight className="w-3 h-3 text-slate-500" />
+            <RiskBadge level={diff.overallRiskAfter} size="sm" />
+          </div>
+        </div>
+        <div className="bg-slate-800/50 p-3 rounded-xl border border-slate-800">
+          <div className="text-xs font-semibold text-slate-400 uppercase tracking-wide mb-1">Clauses</div>
+          <div className="text-sm text-slate-200">
+            <span className="text-emerald-400">+{diff.added.length}</span>{' '}
+            <span className="text-red-400">−{diff.removed.length}</span>{' '}
+            <span className="text-amber-400">{diff.riskChanged.length} re-rated</span>{' '}
+            <span className="text-slate-500">{diff.unchangedCount} unchanged</span>
+          </div>
+        </div>
+      </div>
+
+      {diff.riskChanged.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-slate-300 mb-2">Risk level changed</h4>
+          <div className="space-y-2">
+            {diff.riskChanged.map(({ before, after }) => (
+              <div key={after.id} className="bg-amber-950/10 p-3 rounded-lg border border-amber-900/30">
+                <div className="flex items-center gap-2 mb-1">
+                  <RiskBadge level={before.riskLevel} size="sm" />
+                  <ArrowRight className="w-3 h-3 text-slate-500" />
+                  <RiskBadge level={after.riskLevel} size="sm" />
+                </div>
+                <ClauseLine clause={after} />
+                {after.reason && <p className="text-xs text-slate-400 mt-1">{after.reason}</p>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {diff.added.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-slate-300 mb-2">Added clauses</h4>
+          <div className="space-y-2">
+            {diff.added.map(clause => (
+              <div key={clause.id} className="flex items-start gap-3 bg-emerald-950/10 p-3 rounded-lg border border-emerald-900/30">
+                <Plus className="w-4 h-4 mt-0.5 text-emerald-400 shrink-0" />
+                <div className="flex-1"><ClauseLine clause={clause} /></div>
+                <RiskBadge level={clause.riskLevel} size="sm" />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {diff.removed.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-slate-300 mb-2">Removed clauses</h4>
+          <div className="space-y-2">
+            {diff.removed.map(clause => (
+              <div key={clause.id} className="flex items-start gap-3 bg-red-950/10 p-3 rounded-lg border border-red-900/30">
+                <Minus className="w-4 h-4 mt-0.5 text-red-400 shrink-0" />
+                <div className="flex-1"><ClauseLine clause={clause} /></div>
+                <RiskBadge level={clause.riskLevel} size="sm" />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import { History, ArrowRight, ChevronDown, ChevronUp } from 'lucide-react';
+import { Contract } from '../types';
+import { VersionEntry, diffAnalyses, listAnalysisVersions } from '../services/analysisVersions';
+import { AnalysisDiffDetails } from './AnalysisDiffDetails';
+import { RedlineDiff } from './RedlineDiff';
+
+interface AnalysisVersionsPanelProps {
+  contract: Contract;
+  style?: React.CSSProperties;
+}
+
+const describeVersion = (entry: VersionEntry, archivedAt?: number): string => {
+  const date = entry.analysis.analyzedAt || archivedAt;
+  return [
+    entry.isCurrent ? 'Current' : null,
+    date ? new Date(date).toLocaleString() : 'Unknown date',
+    entry.analysis.model || 'unknown model',
+    entry.analysis.promptVersion || 'unknown prompt',
+  ].filter(Boolean).join(' · ');
+};
+
+const SELECT_CLASSES = "w-full px-3 py-2 bg-slate-800 text-slate-100 text-sm border border-slate-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all";
+
+export const AnalysisVersionsPanel: React.FC<AnalysisVersionsPanelProps> = ({ contract, style }) => {
+  const versions = useMemo(() => listAnalysisVersions(contract), [contract]);
+  const archivedAt = useMemo(
+    () => new Map((contract.analysisHistory || []).map(version => [version.id, version.archivedAt])),
+    [contract.analysisHistory]
+  );
+  const [isOpen, setIsOpen] = useState(false);
+  const [olderId, setOlderId] = useState<string | undefined>(undefined);
+  const [newerId, setNewerId] = useState<string | undefined>(undefined);
+
+  // Defaults to the previous version against the current one
+  const older = versions.find(entry => entry.id === olderId) || versions[1];
+  const newer = versions.find(entry => entry.id === newerId) || versions[0];
+  const diff = useMemo(
+    () => older && newer && older !== newer ? diffAnalyses(older.analysis, newer.analysis) : null,
+    [older, newer]
+  );
+
+  if (versions.length < 2) return null;
+
+  return (
+    <div
+      className="bg-slate-900/80 backdrop-blur rounded-2xl shadow-sm border border-slate-800 p-6 animate-slide-up"
+      style={style}
+    >
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-slate-200 flex items-center">
+          <History className="w-5 h-5 mr-2 text-indigo-500" />
+          Analysis Versions
+        </h3>
+        <span className="flex items-center text-xs text-slate-500">
+          {versions.length} versions
+          {isOpen ? <ChevronUp className="w-4 h-4 ml-1" /> : <ChevronDown className="w-4 h-4 ml-1" />}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-5 animate-fade-in">
+          <div className="grid md:grid-cols-[1fr_auto_1fr] gap-3 items-center">
+            <select value={older?.id} onChange={(e) => setOlderId(e.target.value)} className={SELECT_CLASSES}>
+              {versions.map(entry => (
+                <option key={entry.id} value={entry.id}>{describeVersion(entry, archivedAt.get(entry.id))}</option>
+              ))}
+            </select>
+            <ArrowRight className="w-4 h-4 text-slate-500 mx-auto hidden md:block" />
+            <select value={newer?.id} onChange={(e) => setNewerId(e.target.value)} className={SELECT_CLASSES}>
+              {versions.map(entry => (
+                <option key={entry.id} value={entry.id}>{describeVersion(entry, archivedAt.get(entry.id))}</option>
+              ))}
+            </select>
+          </div>
+
+          {!diff ? (
+            <p className="text-sm text-slate-500 italic">Pick two different versions to compare.</p>
+          ) : (
+            <>
+              <AnalysisDiffDetails diff={diff} />
+
+              <div>
+                <h4 className="text-sm font-semibold text-slate-300 mb-2">Summary changes</h4>
+                <RedlineDiff parts={diff.summaryDiff} className="text-sm text-slate-300 bg-slate-800/50 p-3 rounded-lg border border-slate-800" />
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,24 +1,128 @@
-import React, { useState, useEffect } from 'react';
-import { Contract, Clause } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Contract, Clause, RiskLevel } from '../types';
 import { ClauseCard } from './ClauseCard';
+import { KeyTermsPanel } from './KeyTermsPanel';
+import { ObligationsPanel } from './ObligationsPanel';
+import { MissingProtectionsPanel } from './MissingProtectionsPanel';
+import { PlaybookViolationsPanel } from './PlaybookViolationsPanel';
+import { RiskScoreBreakdownPanel } from './RiskScoreBreakdownPanel';
+import { AnalysisVersionsPanel } from './AnalysisVersionsPanel';
+import { RevisionRedlinePanel } from './RevisionRedlinePanel';
 import { RiskBadge } from './RiskBadge';
-import { FileText, ArrowLeft, PieChart, AlertOctagon, Download, Eye, ShieldAlert, FileDown } from 'lucide-react';
+import { FileText, ArrowLeft, PieChart, AlertOctagon, Download, Eye, ShieldAlert, FileDown, RefreshCw, Database, AlertCircle, ScanSearch, ShieldCheck, Tag, Languages } from 'lucide-react';
 import { PieChart as RePieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
 import { jsPDF } from 'jspdf';
+import { analyzeContractCached } from '../services/analysisCache';
+import { classifyAIError } from '../services/aiErrors';
+import { AnalysisProgress } from '../services/geminiService';
+import { anchorClauses } from '../services/clauseAnchoring';
+import { crossCheckAnalysis, scanForRisks } from '../services/riskScanner';
+import { describeKeyTerms } from '../services/keyTerms';
+import { evaluateProtections, getContractTypeLabel } from '../services/contractTemplates';
+import { getLanguageName } from '../services/languages';
+import { embedPdfFonts } from '../services/pdfFonts';
+import { createPdfTextWriter } from '../services/pdfReport';
+import { SCORE_BANDS, applyRiskScore, computeRiskScore } from '../services/riskScore';
+import { replaceAnalysis } from '../services/analysisVersions';
+
+// Highlight styles for clauses in the Document Text tab
+const ANCHOR_STYLES: Record<RiskLevel, string> = {
+  [RiskLevel.HIGH]: 'bg-red-500/20 text-red-100 border-b-2 border-red-500/60 hover:bg-red-500/30',
+  [RiskLevel.MEDIUM]: 'bg-amber-500/20 text-amber-100 border-b-2 border-amber-500/60 hover:bg-amber-500/30',
+  [RiskLevel.LOW]: 'bg-emerald-500/15 text-emerald-100 border-b-2 border-emerald-500/50 hover:bg-emerald-500/25',
+};
+
+interface TextSegment {
+  text: string;
+  clause?: Clause; // Set for highlighted clause text
+}
+
+// Splits fullText around the clause anchors. When anchors overlap, the clause
+// that starts first keeps the highlight.
+const buildTextSegments = (fullText: string, clauses: Clause[]): TextSegment[] => {
+  const anchored = clauses
+    .filter(clause => clause.anchor && clause.anchor.end <= fullText.length)
+    .sort((a, b) => a.anchor!.start - b.anchor!.start);
+
+  const segments: TextSegment[] = [];
+  let cursor = 0;
+  anchored.forEach(clause => {
+    const { start, end } = clause.anchor!;
+    if (start < cursor) return;
+    if (start > cursor) segments.push({ text: fullText.slice(cursor, start) });
+    segments.push({ text: fullText.slice(start, end), clause });
+    cursor = end;
+  });
+  if (cursor < fullText.length) segments.push({ text: fullText.slice(cursor) });
+
+  return segments;
+};
 
 interface AnalysisViewProps {
   contract: Contract;
   onBack: () => void;
   onContractUpdate?: (contract: Contract) => void;
+  focusClauseId?: string; // Clause to scroll to on open, e.g. from a deadline
 }
 
-export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, onContractUpdate }) => {
+export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, onContractUpdate, focusClauseId }) => {
   const [activeTab, setActiveTab] = useState<'analysis' | 'text'>('analysis');
   const [displayedScore, setDisplayedScore] = useState(0);
+  const [isReanalyzing, setIsReanalyzing] = useState(false);
+  const [reanalyzeProgress, setReanalyzeProgress] = useState<AnalysisProgress | undefined>(undefined);
+  const [reanalyzeError, setReanalyzeError] = useState<string | null>(null);
+  // Clause to scroll to once the target tab has rendered
+  const [pendingScroll, setPendingScroll] = useState<{ target: 'text' | 'card'; clauseId: string } | null>(null);
+  const [focusedClauseId, setFocusedClauseId] = useState<string | null>(null);
+
+  // Analyses saved before clauses were anchored and verified are anchored on the fly, and
+  // older model-provided scores and overall risks are replaced with the computed ones
+  const analysis = useMemo(() => {
+    if (!contract.analysis) return undefined;
+    const anchored = contract.analysis.clauses.every(clause => clause.verification) ? contract.analysis : anchorClauses(contract.analysis);
+    return applyRiskScore(anchored);
+  }, [contract.analysis]);
+  const scoreBreakdown = useMemo(() => analysis ? computeRiskScore(analysis.clauses) : null, [analysis]);
+
+  const textSegments = useMemo(
+    () => analysis?.fullText ? buildTextSegments(analysis.fullText, analysis.clauses) : [],
+    [analysis]
+  );
+  // Local rule-based findings, used as a safety net for the model's ratings
+  const scannerFindings = useMemo(() => scanForRisks(analysis?.fullText || ''), [analysis]);
+  const discrepancies = useMemo(() => analysis ? crossCheckAnalysis(analysis) : [], [analysis]);
+  const protectionReport = useMemo(() => analysis ? evaluateProtections(analysis) : null, [analysis]);
+
+  const highlightedClauseIds = useMemo(
+    () => new Set(textSegments.flatMap(segment => segment.clause ? [segment.clause.id] : [])),
+    [textSegments]
+  );
 
   useEffect(() => {
-    if (contract.analysis?.riskScore !== undefined) {
-      const target = contract.analysis.riskScore;
+    if (focusClauseId) setPendingScroll({ target: 'card', clauseId: focusClauseId });
+  }, [focusClauseId]);
+
+  useEffect(() => {
+    if (!pendingScroll || activeTab !== (pendingScroll.target === 'text' ? 'text' : 'analysis')) return;
+
+    const elementId = pendingScroll.target === 'text'
+      ? `clause-anchor-${pendingScroll.clauseId}`
+      : `clause-card-${pendingScroll.clauseId}`;
+    document.getElementById(elementId)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setFocusedClauseId(pendingScroll.clauseId);
+    setPendingScroll(null);
+  }, [activeTab, pendingScroll]);
+
+  // The focus ring fades after a moment
+  useEffect(() => {
+    if (!focusedClauseId) return;
+    const timer = setTimeout(() => setFocusedClauseId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [focusedClauseId]);
+
+  useEffect(() => {
+    if (analysis?.riskScore !== undefined) {
+      const target = analysis.riskScore;
       const duration = 1500;
       const steps = 60;
       const increment = target / steps;
@@ -35,11 +139,21 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
       }, duration / steps);
       return () => clearInterval(timer);
     }
-  }, [contract.analysis?.riskScore]);
+  }, [analysis?.riskScore]);
 
-  if (!contract.analysis) return <div>No analysis available.</div>;
+  if (!analysis) return <div>No analysis available.</div>;
 
-  const { summary, overallRisk, riskScore, clauses, fullText } = contract.analysis;
+  const { summary, overallRisk, riskScore, clauses, fullText, keyTerms, obligations, playbookViolations } = analysis;
+
+  const showClauseInText = (clauseId: string) => {
+    setActiveTab('text');
+    setPendingScroll({ target: 'text', clauseId });
+  };
+
+  const showClauseCard = (clauseId: string) => {
+    setActiveTab('analysis');
+    setPendingScroll({ target: 'card', clauseId });
+  };
   
   // Calculate stats for chart
   const riskCounts = {
@@ -55,14 +169,14 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
   ].filter(d => d.value > 0);
 
   const getScoreColor = (score: number) => {
-    if (score >= 70) return 'text-red-500';
-    if (score >= 40) return 'text-amber-500';
+    if (score >= SCORE_BANDS[RiskLevel.HIGH].min) return 'text-red-500';
+    if (score >= SCORE_BANDS[RiskLevel.MEDIUM].min) return 'text-amber-500';
     return 'text-emerald-500';
   };
 
   const getScoreBg = (score: number) => {
-      if (score >= 70) return 'bg-red-600';
-      if (score >= 40) return 'bg-amber-500';
+      if (score >= SCORE_BANDS[RiskLevel.HIGH].min) return 'bg-red-600';
+      if (score >= SCORE_BANDS[RiskLevel.MEDIUM].min) return 'bg-amber-500';
       return 'bg-emerald-600';
   };
 
@@ -77,121 +191,182 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
     document.body.removeChild(link);
   };
 
-  const handleDownloadReport = () => {
-    if (!contract.analysis) return;
-
-    const { summary, overallRisk, riskScore, clauses, fullText } = contract.analysis;
+  const handleDownloadReport = async () => {
+    const { summary, overallRisk, riskScore, modelRiskScore, clauses, fullText, keyTerms, playbookViolations } = analysis;
     const doc = new jsPDF();
+    const fonts = await embedPdfFonts(doc, `${contract.fileName} ${JSON.stringify(contract.analysis)}`);
     
-    // PDF Config
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const pageHeight = doc.internal.pageSize.getHeight();
-    const margin = 20;
-    const maxLineWidth = pageWidth - (margin * 2);
-    let y = 20;
-    
-    // Helper to add text with auto-paging
-    const addText = (text: string, fontSize: number, isBold: boolean = false, color: [number, number, number] = [60, 60, 60]) => {
-        doc.setFontSize(fontSize);
-        doc.setFont("helvetica", isBold ? "bold" : "normal");
-        doc.setTextColor(color[0], color[1], color[2]);
-        
-        // Clean text to avoid PDF errors
-        const cleanText = text.replace(/[^\x00-\x7F]/g, ""); // Basic ASCII check/strip for this demo
-        
-        const lines = doc.splitTextToSize(cleanText, maxLineWidth);
-        const lineHeight = fontSize * 0.45; // mm approx
-        
-        lines.forEach((line: string) => {
-            if (y + lineHeight > pageHeight - margin) {
-                doc.addPage();
-                y = margin;
-            }
-            doc.text(line, margin, y);
-            y += lineHeight + 1.5; // line spacing
-        });
-        y += 2; // Paragraph spacing
-    };
+    const pdf = createPdfTextWriter(doc, fonts);
+    const { addText } = pdf;
 
     // --- PDF Content Generation ---
 
     // Title & Meta
     addText("LegalLens Analysis Report", 22, true, [79, 70, 229]); // Indigo
-    y += 5;
+    pdf.y += 5;
     addText(`File Name: ${contract.fileName}`, 10, false, [100, 116, 139]);
+    if (analysis.contractType) {
+        addText(`Contract Type: ${getContractTypeLabel(analysis.contractType)}`, 10, false, [100, 116, 139]);
+    }
+    if (analysis.documentLanguage) {
+        const explainedIn = analysis.outputLanguage && analysis.outputLanguage !== analysis.documentLanguage
+            ? ` (explained in ${getLanguageName(analysis.outputLanguage)})`
+            : '';
+        addText(`Language: ${getLanguageName(analysis.documentLanguage)}${explainedIn}`, 10, false, [100, 116, 139]);
+    }
     addText(`Analyzed on: ${new Date(contract.uploadDate).toLocaleDateString()}`, 10, false, [100, 116, 139]);
-    y += 10;
+    pdf.y += 10;
 
     // Executive Summary
     addText("Executive Summary", 14, true, [30, 41, 59]);
-    y += 2;
+    pdf.y += 2;
     addText(summary, 10);
-    y += 8;
+    pdf.y += 8;
+
+    // Key Terms
+    if (keyTerms) {
+        addText("Key Terms", 14, true, [30, 41, 59]);
+        pdf.y += 2;
+        describeKeyTerms(keyTerms).forEach(row => {
+            addText(`${row.label}: ${row.value || 'Not stated'}`, 10);
+        });
+        pdf.y += 8;
+    }
 
     // Risk Assessment
     addText("Risk Assessment", 14, true, [30, 41, 59]);
-    y += 2;
+    pdf.y += 2;
     addText(`Overall Risk: ${overallRisk}`, 11, true);
     addText(`Risk Score: ${riskScore}/100`, 11, true);
-    y += 8;
+    if (typeof modelRiskScore === 'number') {
+        addText(`AI estimate (for reference): ${modelRiskScore}/100`, 9, false, [100, 116, 139]);
+    }
+    if (scoreBreakdown && scoreBreakdown.contributions.length > 0) {
+        pdf.y += 2;
+        addText("Score breakdown (points = level x risk-type weight x count factor):", 9, true);
+        scoreBreakdown.contributions.forEach(item => {
+            const clauseIndex = clauses.findIndex(clause => clause.id === item.clauseId);
+            addText(`Clause ${clauseIndex + 1} - ${item.riskLevel}, ${item.category}: ${item.basePoints} x ${item.categoryWeight} x ${item.countFactor} = ${item.points}`, 9);
+        });
+    }
+    pdf.y += 8;
+
+    // Missing Protections
+    if (protectionReport && protectionReport.missing.length > 0) {
+        addText("Missing Protections", 14, true, [30, 41, 59]);
+        pdf.y += 2;
+        addText(`Expected protections (${getContractTypeLabel(analysis.contractType)} checklist) not found in this contract:`, 10);
+        protectionReport.missing.forEach(item => {
+            addText(item.label, 10, true, [220, 38, 38]);
+            addText(`Why it matters: ${item.whyItMatters}`, 9);
+        });
+        pdf.y += 8;
+    }
+
+    // Playbook Violations
+    if (playbookViolations && playbookViolations.length > 0) {
+        addText("Playbook Violations", 14, true, [30, 41, 59]);
+        pdf.y += 2;
+        playbookViolations.forEach(violation => {
+            const clauseIndex = clauses.findIndex(clause => clause.id === violation.clauseId);
+            const clauseRef = clauseIndex >= 0 ? ` - see clause ${clauseIndex + 1}` : '';
+            addText(`${violation.ruleName} (${violation.severity})${clauseRef}`, 10, true, [220, 38, 38]);
+            if (violation.explanation) addText(violation.explanation, 9);
+        });
+        pdf.y += 8;
+    }
 
     // Clauses
     addText("Detailed Clause Analysis", 14, true, [30, 41, 59]);
-    y += 4;
+    const unverifiedCount = clauses.filter(clause => clause.verification && clause.verification !== 'verbatim').length;
+    if (unverifiedCount > 0) {
+        addText(`${unverifiedCount} quoted clause${unverifiedCount === 1 ? '' : 's'} could not be matched word for word with the document text and ${unverifiedCount === 1 ? 'is' : 'are'} flagged below. Check them against the original.`, 9, false, [180, 83, 9]);
+    }
+    pdf.y += 4;
     
     clauses.forEach((clause, index) => {
         // Prevent orphaned headers at bottom of page
-        if (y > pageHeight - 40) {
-            doc.addPage();
-            y = margin;
-        }
+        pdf.ensureSpace(20);
 
         // Clause Header
         addText(`${index + 1}. ${clause.explanation} (${clause.riskLevel} Risk)`, 11, true, [30, 41, 59]);
         
         // Original Text (Italic)
-        doc.setFont("helvetica", "italic");
-        addText(`"${clause.text}"`, 9, false, [71, 85, 105]);
-        doc.setFont("helvetica", "normal");
+        addText(`"${clause.text}"`, 9, false, [71, 85, 105], { italic: true });
+
+        // Quote verification
+        if (clause.verification === 'approximate') {
+            addText("[!] Approximate quote: only loosely matches the document text. Check the original wording.", 8, true, [180, 83, 9]);
+        } else if (clause.verification === 'not-found') {
+            addText("[!] Not found in the document: the AI may have paraphrased or invented this text. Check the original.", 8, true, [220, 38, 38]);
+        }
         
         // Risk Reason (Red)
         addText(`Risk Reason: ${clause.reason}`, 9, false, [220, 38, 38]);
         
+        // Negotiation redline
+        if (clause.redline) {
+            pdf.y += 1;
+            addText("Suggested Fairer Wording:", 9, true, [5, 150, 105]);
+            addText(`"${clause.redline.suggestedText}"`, 9, false, [30, 41, 59]);
+            addText(`Why: ${clause.redline.rationale}`, 9, false, [71, 85, 105]);
+        }
+
         // Q&A History
         if (clause.conversationHistory && clause.conversationHistory.length > 0) {
-             y += 1;
+             pdf.y += 1;
              addText("Q&A Notes:", 9, true, [79, 70, 229]);
              clause.conversationHistory.forEach(qa => {
                  addText(`Q: ${qa.question}`, 8, false, [100, 100, 100]);
                  addText(`A: ${qa.answer}`, 8, false, [60, 60, 60]);
              });
         }
-        y += 6; // Spacing between clauses
+        pdf.y += 6; // Spacing between clauses
     });
 
     // Full Text
     if (fullText) {
-        doc.addPage();
-        y = margin;
+        pdf.newPage();
         addText("Full Document Text (OCR)", 14, true, [30, 41, 59]);
-        y += 4;
-        doc.setFont("courier", "normal");
-        addText(fullText, 9);
+        pdf.y += 4;
+        addText(fullText, 9, false, undefined, { family: 'courier' });
     }
 
     // Save
     doc.save(`${contract.fileName.replace(/\s+/g, '_')}_Analysis.pdf`);
   };
 
+  // Bypasses the analysis cache and replaces the cached entry with the new
+  // result. The current analysis is kept as a previous version.
+  const handleForceReanalyze = async () => {
+    if (!contract.fileData || !contract.mimeType || !onContractUpdate || isReanalyzing) return;
+    if (!confirm('Run a fresh AI analysis of this document? The current results, including clause Q&A notes, are kept as a previous version.')) return;
+
+    setIsReanalyzing(true);
+    setReanalyzeError(null);
+    try {
+      const { analysis, contentHash } = await analyzeContractCached(contract.fileData, contract.mimeType, {
+        force: true,
+        onProgress: setReanalyzeProgress,
+      });
+      onContractUpdate({ ...replaceAnalysis(contract, analysis), contentHash: contentHash || contract.contentHash });
+    } catch (err) {
+      setReanalyzeError(classifyAIError(err).message);
+    } finally {
+      setIsReanalyzing(false);
+      setReanalyzeProgress(undefined);
+    }
+  };
+
   const handleClauseUpdate = (updatedClause: Clause) => {
-    if (!onContractUpdate || !contract.analysis) return;
+    if (!onContractUpdate || !analysis) return;
 
-    // Create a new contract object with the updated clause
+    // Create a new contract object with the updated clause (anchors computed on the fly are saved along with it)
     const updatedContract: Contract = {
         ...contract,
         analysis: {
-            ...contract.analysis,
-            clauses: contract.analysis.clauses.map(c => 
+            ...analysis,
+            clauses: analysis.clauses.map(c => 
                 c.id === updatedClause.id ? updatedClause : c
             )
         }
@@ -252,6 +427,38 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
                     <FileText className="w-4 h-4" />
                     <span>Uploaded on {new Date(contract.uploadDate).toLocaleDateString()}</span>
                 </div>
+
+                {analysis.contractType && (
+                    <div className="flex items-center gap-1 text-xs font-medium text-slate-300 bg-slate-800 px-2 py-0.5 rounded-full border border-slate-700">
+                        <Tag className="w-3 h-3" />
+                        {getContractTypeLabel(analysis.contractType)}
+                    </div>
+                )}
+
+                {analysis.documentLanguage && (
+                    <div
+                        className="flex items-center gap-1 text-xs font-medium text-slate-300 bg-slate-800 px-2 py-0.5 rounded-full border border-slate-700"
+                        title={analysis.outputLanguage ? `Explanations in ${getLanguageName(analysis.outputLanguage)}` : undefined}
+                    >
+                        <Languages className="w-3 h-3" />
+                        {getLanguageName(analysis.documentLanguage)}
+                        {analysis.outputLanguage && analysis.outputLanguage !== analysis.documentLanguage && (
+                            <span className="text-slate-500">→ {getLanguageName(analysis.outputLanguage)}</span>
+                        )}
+                    </div>
+                )}
+
+                {contract.analysis.fromCache && (
+                    <div
+                        className="flex items-center gap-1 text-xs font-medium text-indigo-300 bg-indigo-900/30 px-2 py-0.5 rounded-full border border-indigo-500/30"
+                        title={contract.analysis.analyzedAt
+                            ? `An identical file was analyzed on ${new Date(contract.analysis.analyzedAt).toLocaleString()}. No new AI call was made.`
+                            : 'An identical file was analyzed before. No new AI call was made.'}
+                    >
+                        <Database className="w-3 h-3" />
+                        From cache
+                    </div>
+                )}
                 
                 <div className="flex items-center gap-3">
                     {contract.fileData && (
@@ -277,9 +484,34 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
                         <Download className="w-4 h-4" />
                         <span>Download Report (PDF)</span>
                     </button>
+
+                    {contract.fileData && onContractUpdate && (
+                        <button
+                            onClick={handleForceReanalyze}
+                            disabled={isReanalyzing}
+                            className="flex items-center gap-1 text-slate-400 hover:text-indigo-400 transition-colors font-medium text-sm disabled:opacity-60"
+                            title="Ignore the cache and analyze the document again"
+                        >
+                            <RefreshCw className={`w-4 h-4 ${isReanalyzing ? 'animate-spin' : ''}`} />
+                            <span>
+                                {!isReanalyzing
+                                    ? 'Re-analyze'
+                                    : reanalyzeProgress && reanalyzeProgress.total > 1
+                                        ? `Re-analyzing part ${Math.min(reanalyzeProgress.completed + 1, reanalyzeProgress.total)} of ${reanalyzeProgress.total}`
+                                        : 'Re-analyzing...'}
+                            </span>
+                        </button>
+                    )}
                 </div>
 
                 </div>
+
+                {reanalyzeError && (
+                    <div className="mt-3 text-xs text-red-400 bg-red-950/30 p-2 rounded border border-red-900/30 flex items-start">
+                        <AlertCircle className="w-3 h-3 mr-1.5 mt-0.5 shrink-0" />
+                        <span>Re-analysis failed: {reanalyzeError}</span>
+                    </div>
+                )}
             </div>
             
             <div className="flex flex-col items-end">
@@ -300,6 +532,11 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
                         {displayedScore}
                         </div>
                         <div className="text-[10px] text-slate-500 font-bold uppercase tracking-wide mt-1">Risk Score</div>
+                        {typeof analysis.modelRiskScore === 'number' && (
+                            <div className="text-[10px] text-slate-600 mt-0.5" title="The AI's own estimate, shown for reference. The risk score is computed from the clauses.">
+                                AI estimate: {analysis.modelRiskScore}
+                            </div>
+                        )}
                         
                         {/* Progress Bar under score */}
                         <div className="w-full h-1.5 bg-slate-800 rounded-full mt-1 overflow-hidden">
@@ -375,6 +612,100 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
             </div>
         </div>
 
+        <RevisionRedlinePanel contract={contract} style={{ animationDelay: '670ms' }} />
+
+        <AnalysisVersionsPanel contract={contract} style={{ animationDelay: '680ms' }} />
+
+        {scoreBreakdown && (
+            <RiskScoreBreakdownPanel
+                breakdown={scoreBreakdown}
+                clauses={clauses}
+                modelRiskScore={analysis.modelRiskScore}
+                onShowClause={showClauseCard}
+                style={{ animationDelay: '690ms' }}
+            />
+        )}
+
+        {keyTerms && <KeyTermsPanel keyTerms={keyTerms} style={{ animationDelay: '700ms' }} />}
+
+        {obligations && (
+            <ObligationsPanel
+                contract={contract}
+                obligations={obligations}
+                onShowClause={showClauseCard}
+                style={{ animationDelay: '725ms' }}
+            />
+        )}
+
+        {protectionReport && (
+            <MissingProtectionsPanel
+                report={protectionReport}
+                contractTypeLabel={getContractTypeLabel(analysis.contractType)}
+                onShowClause={showClauseCard}
+                style={{ animationDelay: '740ms' }}
+            />
+        )}
+
+        {playbookViolations && (
+            <PlaybookViolationsPanel
+                violations={playbookViolations}
+                onShowClause={showClauseCard}
+                style={{ animationDelay: '745ms' }}
+            />
+        )}
+
+        {/* Rule-based cross-check */}
+        <div 
+            className="bg-slate-900/80 backdrop-blur rounded-2xl shadow-sm border border-slate-800 p-6 animate-slide-up"
+            style={{ animationDelay: '750ms' }}
+        >
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4">
+                <h3 className="text-lg font-semibold text-slate-200 flex items-center">
+                    <ScanSearch className="w-5 h-5 mr-2 text-indigo-500" />
+                    Rule-Based Cross-Check
+                </h3>
+                <span className="text-xs text-slate-500">
+                    {scannerFindings.length} risk pattern{scannerFindings.length === 1 ? '' : 's'} found by the local scanner
+                </span>
+            </div>
+
+            {discrepancies.length === 0 ? (
+                <div className="flex items-center text-sm text-emerald-400 bg-emerald-950/20 p-3 rounded-lg border border-emerald-900/30">
+                    <ShieldCheck className="w-4 h-4 mr-2 shrink-0" />
+                    {fullText
+                        ? 'The AI ratings agree with the local pattern scan.'
+                        : 'No conflicts found in the analyzed clauses. Scanning the full document needs its extracted text.'}
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    <p className="text-sm text-amber-400">
+                        The local scanner disagrees with the AI on {discrepancies.length} point{discrepancies.length === 1 ? '' : 's'}. Review these manually.
+                    </p>
+                    {discrepancies.map((discrepancy, index) => (
+                        <div key={index} className="flex items-start gap-3 bg-amber-950/20 p-3 rounded-lg border border-amber-900/30">
+                            <AlertCircle className="w-4 h-4 mt-0.5 text-amber-500 shrink-0" />
+                            <div className="flex-1 min-w-0 text-sm">
+                                <div className="font-medium text-slate-200">
+                                    {discrepancy.kind === 'underrated'
+                                        ? `Rated Low by the AI, but contains: ${discrepancy.finding.description}`
+                                        : `Not covered by any analyzed clause: ${discrepancy.finding.description} (${discrepancy.finding.riskLevel} risk)`}
+                                </div>
+                                <p className="text-slate-400 italic mt-1 line-clamp-2">"{discrepancy.finding.sentence}"</p>
+                            </div>
+                            {discrepancy.clauseId && (
+                                <button
+                                    onClick={() => showClauseCard(discrepancy.clauseId!)}
+                                    className="text-xs font-medium text-indigo-400 hover:text-indigo-300 whitespace-nowrap"
+                                >
+                                    View clause
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+
         {/* Clauses Section */}
         <div>
             <div 
@@ -389,12 +720,17 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
             {clauses.map((clause, index) => (
                 <div 
                     key={clause.id} 
-                    className="animate-slide-up hover-lift"
+                    id={`clause-card-${clause.id}`}
+                    className={`animate-slide-up hover-lift rounded-xl transition-shadow duration-500 ${focusedClauseId === clause.id ? 'ring-2 ring-indigo-400' : ''}`}
                     style={{ animationDelay: `${900 + (index * 100)}ms` }}
                 >
                     <ClauseCard 
                         clause={clause} 
                         onUpdate={handleClauseUpdate} 
+                        onLocate={highlightedClauseIds.has(clause.id) ? () => showClauseInText(clause.id) : undefined}
+                        scannerWarning={discrepancies.find(d => d.clauseId === clause.id)?.finding.description}
+                        contractType={analysis.contractType}
+                        outputLanguage={analysis.outputLanguage}
                     />
                 </div>
             ))}
@@ -410,11 +746,29 @@ export const AnalysisView: React.FC<AnalysisViewProps> = ({ contract, onBack, on
                     AI extracted text
                 </div>
             </div>
+
+            {fullText && clauses.length > 0 && (
+                <p className="text-xs text-slate-500 mb-4">
+                    {highlightedClauseIds.size} of {clauses.length} analyzed clauses highlighted in their risk color. Click a highlight to open its analysis.
+                </p>
+            )}
             
             <div className="prose prose-invert prose-slate max-w-none">
                 {fullText ? (
                     <div className="whitespace-pre-wrap font-mono text-sm leading-relaxed text-slate-300 bg-slate-950 p-6 rounded-xl border border-slate-800 h-[70vh] overflow-y-auto">
-                        {fullText}
+                        {textSegments.map((segment, index) => segment.clause ? (
+                            <mark
+                                key={index}
+                                id={`clause-anchor-${segment.clause.id}`}
+                                onClick={() => showClauseCard(segment.clause!.id)}
+                                title={`${segment.clause.riskLevel} risk: ${segment.clause.explanation}`}
+                                className={`cursor-pointer rounded-sm transition-colors ${ANCHOR_STYLES[segment.clause.riskLevel]} ${focusedClauseId === segment.clause.id ? 'ring-2 ring-indigo-400' : ''}`}
+                            >
+                                {segment.text}
+                            </mark>
+                        ) : (
+                            <React.Fragment key={index}>{segment.text}</React.Fragment>
+                        ))}
                     </div>
                 ) : (
                     <div className="flex flex-col items-center justify-center py-20 text-slate-500">
@@ -1,7 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { MessageCircle, X, Send, Bot, User, Minimize2, Maximize2 } from 'lucide-react';
+import { MessageCircle, X, Send, Bot, User, Minimize2, Maximize2, Square, AlertCircle, RefreshCw } from 'lucide-react';
 import { ChatMessage, Contract } from '../types';
-import { sendChatMessage } from '../services/geminiService';
+import { streamChatMessage, toChatHistory } from '../services/geminiService';
+import { classifyAIError, getRetryAt, isUserRetryable } from '../services/aiErrors';
+import { useCountdown } from '../hooks/useCountdown';
 
 interface ChatBotProps {
   contract: Contract | null;
@@ -20,6 +22,16 @@ export const ChatBot: React.FC<ChatBotProps> = ({ contract }) => {
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Remembered so a failed reply can be retried with the same question and history
+  const lastRequestRef = useRef<{ text: string; history: ChatMessage[] } | null>(null);
+  const [retryAt, setRetryAt] = useState<number | undefined>(undefined);
+  const retryCountdown = useCountdown(retryAt);
+
+  // Cancel any in-flight stream when the chat unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
   // Auto-scroll to bottom
   useEffect(() => {
@@ -43,17 +55,19 @@ export const ChatBot: React.FC<ChatBotProps> = ({ contract }) => {
     }
   }, [contract?.id]);
 
-  const handleSend = async () => {
-    if (!input.trim() || isLoading) return;
+  // Streams a reply to `text` into a placeholder bubble
+  const streamReply = async (text: string, history: ChatMessage[]) => {
+    lastRequestRef.current = { text, history };
 
-    const userMsg: ChatMessage = {
-      role: 'user',
-      text: input,
-      timestamp: Date.now()
+    // Placeholder bubble that fills in as the reply streams
+    const replyTimestamp = Date.now() + 1;
+    const updateReply = (patch: Partial<ChatMessage>) => {
+      setMessages(prev => prev.map(msg =>
+        msg.role === 'model' && msg.timestamp === replyTimestamp ? { ...msg, ...patch } : msg
+      ));
     };
 
-    setMessages(prev => [...prev, userMsg]);
-    setInput('');
+    setMessages(prev => [...prev, { role: 'model', text: '', timestamp: replyTimestamp, status: 'streaming' }]);
     setIsLoading(true);
 
     // Prepare context
@@ -67,19 +81,61 @@ export const ChatBot: React.FC<ChatBotProps> = ({ contract }) => {
         `;
     }
 
-    // Filter history for API (last 10 messages to save tokens/context)
-    const historyForApi = messages.slice(-10);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let replyText = '';
 
-    const responseText = await sendChatMessage(historyForApi, userMsg.text, context);
+    try {
+      for await (const delta of streamChatMessage(history, text, context, controller.signal, contract?.analysis?.outputLanguage)) {
+        replyText += delta;
+        updateReply({ text: replyText });
+      }
 
-    const botMsg: ChatMessage = {
-      role: 'model',
-      text: responseText,
+      if (controller.signal.aborted) {
+        updateReply({ status: 'stopped' });
+      } else {
+        updateReply({ text: replyText || "I couldn't generate a response.", status: undefined });
+      }
+    } catch (e) {
+      // Keep whatever text already arrived and flag the bubble
+      const error = classifyAIError(e);
+      updateReply({ status: 'error', error: error.message, errorKind: error.kind });
+      setRetryAt(getRetryAt(error));
+    } finally {
+      abortControllerRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!input.trim() || isLoading || retryCountdown > 0) return;
+
+    const userMsg: ChatMessage = {
+      role: 'user',
+      text: input,
       timestamp: Date.now()
     };
 
-    setMessages(prev => [...prev, botMsg]);
-    setIsLoading(false);
+    // Filter history for API (last 10 messages to save tokens/context)
+    const historyForApi = toChatHistory(messages).slice(-10);
+
+    setMessages(prev => [...prev, userMsg]);
+    setInput('');
+
+    await streamReply(userMsg.text, historyForApi);
+  };
+
+  // Replaces a failed reply with a fresh attempt at the same question
+  const handleRetry = async (failedTimestamp: number) => {
+    const lastRequest = lastRequestRef.current;
+    if (!lastRequest || isLoading) return;
+
+    setMessages(prev => prev.filter(msg => msg.timestamp !== failedTimestamp));
+    await streamReply(lastRequest.text, lastRequest.history);
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
   };
 
   const toggleOpen = () => {
@@ -134,6 +190,13 @@ export const ChatBot: React.FC<ChatBotProps> = ({ contract }) => {
                 key={idx} 
                 className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
               >
+                {msg.status === 'streaming' && !msg.text ? (
+                  <div className="bg-slate-800 border border-slate-700 rounded-2xl rounded-tl-none px-4 py-3 shadow-sm flex space-x-1">
+                    <div className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce"></div>
+                    <div className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce" style={{animationDelay: '0.1s'}}></div>
+                    <div className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></div>
+                  </div>
+                ) : (
                 <div 
                   className={`max-w-[80%] rounded-2xl px-4 py-2.5 text-sm ${
                     msg.role === 'user' 
@@ -141,19 +204,38 @@ export const ChatBot: React.FC<ChatBotProps> = ({ contract }) => {
                       : 'bg-slate-800 border border-slate-700 text-slate-200 rounded-tl-none shadow-sm'
                   }`}
                 >
-                  {msg.text}
+                  <span className="whitespace-pre-wrap">{msg.text}</span>
+                  {msg.status === 'streaming' && (
+                    <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-indigo-400 animate-pulse"></span>
+                  )}
+                  {msg.status === 'stopped' && (
+                    <div className="mt-1.5 text-[11px] text-slate-500 italic">Response stopped.</div>
+                  )}
+                  {msg.status === 'error' && (
+                    <div className="mt-1.5 text-[11px] text-red-400 flex items-start">
+                      <AlertCircle className="w-3 h-3 mr-1 mt-0.5 shrink-0" />
+                      <div>
+                        <span>{msg.error || 'The response was interrupted.'}</span>
+                        {/* Only the latest failed reply can be retried */}
+                        {idx === messages.length - 1 && !isLoading && isUserRetryable(msg.errorKind) && (
+                          retryCountdown > 0 ? (
+                            <div className="text-amber-400 mt-1">You can retry in {retryCountdown}s.</div>
+                          ) : (
+                            <button
+                              onClick={() => handleRetry(msg.timestamp)}
+                              className="flex items-center mt-1 text-indigo-400 hover:text-indigo-300 font-medium"
+                            >
+                              <RefreshCw className="w-3 h-3 mr-1" /> Retry
+                            </button>
+                          )
+                        )}
+                      </div>
+                    </div>
+                  )}
                 </div>
+                )}
               </div>
             ))}
-            {isLoading && (
-               <div className="flex justify-start">
-                  <div className="bg-slate-800 border border-slate-700 rounded-2xl rounded-tl-none px-4 py-3 shadow-sm flex space-x-1">
-                    <div className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce"></div>
-                    <div className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce" style={{animationDelay: '0.1s'}}></div>
-                    <div className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></div>
-                  </div>
-               </div>
-            )}
             <div ref={messagesEndRef} />
           </div>
 
@@ -165,16 +247,26 @@ export const ChatBot: React.FC<ChatBotProps> = ({ contract }) => {
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
                 onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-                placeholder="Ask a legal question..."
+                placeholder={retryCountdown > 0 ? `Rate limited - try again in ${retryCountdown}s` : "Ask a legal question..."}
                 className="flex-1 px-4 py-2 bg-slate-950 text-slate-100 border border-slate-700 rounded-full text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent placeholder-slate-500"
               />
-              <button
-                onClick={handleSend}
-                disabled={!input.trim() || isLoading}
-                className="p-2 bg-indigo-600 text-white rounded-full hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-              >
-                <Send className="w-4 h-4" />
-              </button>
+              {isLoading ? (
+                <button
+                  onClick={handleStop}
+                  className="p-2 bg-slate-700 text-white rounded-full hover:bg-slate-600 transition-colors"
+                  title="Stop generating"
+                >
+                  <Square className="w-4 h-4" fill="currentColor" />
+                </button>
+              ) : (
+                <button
+                  onClick={handleSend}
+                  disabled={!input.trim() || retryCountdown > 0}
+                  className="p-2 bg-indigo-600 text-white rounded-full hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <Send className="w-4 h-4" />
+                </button>
+              )}
             </div>
           </div>
         </>
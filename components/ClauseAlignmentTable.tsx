@@ -0,0 +1,89 @@
+import React, { useMemo, useState } from 'react';
+import { Rows3 } from 'lucide-react';
+import { Contract } from '../types';
+import { alignClausesByTopic } from '../services/clauseTopics';
+import { RiskBadge } from './RiskBadge';
+
+interface ClauseAlignmentTableProps {
+  contracts: Contract[];
+}
+
+export const ClauseAlignmentTable: React.FC<ClauseAlignmentTableProps> = ({ contracts }) => {
+  const rows = useMemo(() => alignClausesByTopic(contracts), [contracts]);
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+
+  const visibleRows = differencesOnly ? rows.filter(row => row.differs) : rows;
+
+  return (
+    <div className="bg-slate-900 rounded-2xl p-8 border border-slate-800 shadow-sm">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6">
+        <h3 className="text-lg font-bold text-slate-200 flex items-center">
+          <Rows3 className="w-5 h-5 mr-2 text-indigo-500" />
+          Clause by Clause
+        </h3>
+        <label className="flex items-center text-sm text-slate-400 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={differencesOnly}
+            onChange={(e) => setDifferencesOnly(e.target.checked)}
+            className="mr-2 accent-indigo-500"
+          />
+          Only show differences
+        </label>
+      </div>
+
+      {visibleRows.length === 0 ? (
+        <p className="text-sm text-slate-500 italic">
+          {rows.length === 0 ? 'No clauses were identified in these contracts.' : 'These contracts cover the same topics with the same risk levels.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full border-separate border-spacing-2 -m-2">
+            <thead>
+              <tr>
+                <th className="w-40 min-w-[8rem]" />
+                {contracts.map(contract => (
+                  <th
+                    key={contract.id}
+                    className="text-left text-xs font-semibold text-slate-400 uppercase tracking-wide px-1 min-w-[14rem] truncate max-w-[18rem]"
+                    title={contract.fileName}
+                  >
+                    {contract.fileName}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRows.map(row => (
+                <tr key={row.topic.id}>
+                  <th className="text-left align-top pt-3 text-sm font-semibold text-slate-300">
+                    {row.topic.label}
+                    {row.differs && <div className="text-[10px] font-bold text-amber-400 uppercase tracking-wide mt-1">Differs</div>}
+                  </th>
+                  {row.cells.map((clauses, index) => (
+                    <td key={contracts[index].id} className="align-top">
+                      {clauses.length === 0 ? (
+                        <div className="h-full min-h-[4rem] flex items-center justify-center text-xs text-slate-600 italic rounded-xl border border-dashed border-slate-800 p-3">
+                          Not covered
+                        </div>
+                      ) : (
+                        <div className="space-y-2">
+                          {clauses.map(clause => (
+                            <div key={clause.id} className="bg-slate-800/50 p-3 rounded-xl border border-slate-800" title={clause.text}>
+                              <RiskBadge level={clause.riskLevel} size="sm" />
+                              <p className="text-sm text-slate-300 mt-2 leading-relaxed">{clause.explanation || clause.text}</p>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,18 +1,50 @@
-import React, { useState } from 'react';
-import { Clause, RiskLevel } from '../types';
+import React, { useMemo, useState } from 'react';
+import { Clause, ClauseVerification, ContractType, RiskLevel } from '../types';
 import { RiskBadge } from './RiskBadge';
-import { AlertTriangle, HelpCircle, MessageCircle, ChevronDown, ChevronUp, User, Scale } from 'lucide-react';
-import { askClauseQuestion } from '../services/geminiService';
+import { RedlineDiff } from './RedlineDiff';
+import { AlertTriangle, HelpCircle, MessageCircle, ChevronDown, ChevronUp, User, Scale, LocateFixed, WandSparkles, Copy, Check, RefreshCw, Loader2, SearchX } from 'lucide-react';
+import { askClauseQuestion, suggestClauseRedline } from '../services/geminiService';
+import { classifyAIError } from '../services/aiErrors';
+import { diffWords } from '../services/textDiff';
+
+// Shown on clauses whose quoted text couldn't be verified against the document
+const VERIFICATION_WARNINGS: Partial<Record<ClauseVerification, { label: string; detail: string; className: string }>> = {
+  approximate: {
+    label: 'Approximate quote',
+    detail: 'This text only loosely matches the document. The AI may have reworded it, so check the original wording before relying on it.',
+    className: 'text-amber-300 bg-amber-950/30 border-amber-900/40',
+  },
+  'not-found': {
+    label: 'Not found in document',
+    detail: 'This text could not be found in the document. The AI may have paraphrased or invented it, so check the original before relying on it.',
+    className: 'text-red-300 bg-red-950/30 border-red-900/40',
+  },
+};
 
 interface ClauseCardProps {
   clause: Clause;
   onUpdate?: (updatedClause: Clause) => void;
+  onLocate?: () => void; // Shows the clause in the document text
+  scannerWarning?: string; // High-risk pattern the local scanner found in a clause the AI rated Low
+  contractType?: ContractType;
+  outputLanguage?: string; // Language the analysis was written in; follow-ups answer in it too
 }
 
-export const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onUpdate }) => {
+export const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onUpdate, onLocate, scannerWarning, contractType, outputLanguage }) => {
   const [expanded, setExpanded] = useState(false);
   const [question, setQuestion] = useState('');
   const [loadingAnswer, setLoadingAnswer] = useState(false);
+  const [askError, setAskError] = useState<string | null>(null);
+  const [loadingRedline, setLoadingRedline] = useState(false);
+  const [redlineError, setRedlineError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const verificationWarning = clause.verification && VERIFICATION_WARNINGS[clause.verification];
+
+  const redlineParts = useMemo(
+    () => clause.redline ? diffWords(clause.text, clause.redline.suggestedText) : [],
+    [clause.text, clause.redline]
+  );
 
   // Helper to highlight keywords
   const getHighlightedText = (text: string, highlights: string[]) => {
@@ -44,9 +76,18 @@ export const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onUpdate }) => {
   const handleAsk = async () => {
     if (!question.trim()) return;
     setLoadingAnswer(true);
+    setAskError(null);
     
     const currentQuestion = question;
-    const result = await askClauseQuestion(clause.text, currentQuestion);
+    let result: string;
+    try {
+        result = await askClauseQuestion(clause.text, currentQuestion, outputLanguage);
+    } catch (err) {
+        // Keep the question in the input so it can be re-sent
+        setAskError(classifyAIError(err).message);
+        setLoadingAnswer(false);
+        return;
+    }
     
     setLoadingAnswer(false);
     setQuestion('');
@@ -67,6 +108,30 @@ export const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onUpdate }) => {
     }
   };
 
+  const handleSuggestRedline = async () => {
+    setLoadingRedline(true);
+    setRedlineError(null);
+    try {
+        const redline = await suggestClauseRedline(clause.text, clause.reason, contractType, outputLanguage);
+        onUpdate?.({ ...clause, redline });
+    } catch (err) {
+        setRedlineError(classifyAIError(err).message);
+    } finally {
+        setLoadingRedline(false);
+    }
+  };
+
+  const handleCopyRedline = async () => {
+    if (!clause.redline) return;
+    try {
+        await navigator.clipboard.writeText(clause.redline.suggestedText);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+        console.warn("Clipboard unavailable", err);
+    }
+  };
+
   return (
     <div className={`bg-slate-900 rounded-xl shadow-sm border transition-all duration-200 ${expanded ? 'ring-2 ring-indigo-500/20 border-indigo-500/30' : 'border-slate-800 hover:border-indigo-500/50'}`}>
       <div 
@@ -75,12 +140,40 @@ export const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onUpdate }) => {
       >
         <div className="flex-1">
           <div className="flex items-center justify-between mb-2">
-            <RiskBadge level={clause.riskLevel} size="sm" />
-            <div className="text-slate-500">
+            <div className="flex items-center gap-2">
+              <RiskBadge level={clause.riskLevel} size="sm" />
+              {verificationWarning && (
+                <span
+                  className={`inline-flex items-center text-xs px-2 py-0.5 rounded-full border ${verificationWarning.className}`}
+                  title={verificationWarning.detail}
+                >
+                  <SearchX className="w-3 h-3 mr-1" />
+                  {verificationWarning.label}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-3 text-slate-500">
+               {onLocate && (
+                 <button
+                   onClick={(e) => { e.stopPropagation(); onLocate(); }}
+                   className="flex items-center gap-1 text-xs font-medium hover:text-indigo-400 transition-colors"
+                   title={clause.anchor?.match === 'fuzzy' ? 'Show the closest match in the document text' : 'Show in the document text'}
+                 >
+                   <LocateFixed className="w-4 h-4" />
+                   <span className="hidden sm:inline">Show in text</span>
+                 </button>
+               )}
                {expanded ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
             </div>
           </div>
           <h4 className="font-semibold text-slate-100 mb-2">{clause.explanation}</h4>
+
+          {scannerWarning && (
+            <div className="flex items-center text-xs text-amber-400 bg-amber-950/30 border border-amber-900/30 rounded-md px-2 py-1 mb-2">
+              <AlertTriangle className="w-3 h-3 mr-1.5 shrink-0" />
+              Local scanner flagged a High-risk pattern: {scannerWarning}
+            </div>
+          )}
           
           {/* Preview Text */}
           <div className="text-slate-400 text-sm line-clamp-2 leading-relaxed">
@@ -99,6 +192,12 @@ export const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onUpdate }) => {
             <div className={`p-4 rounded-lg border text-sm leading-relaxed text-slate-300 italic ${getContainerStyles()}`}>
                "{getHighlightedText(clause.text, clause.riskyKeywords)}"
             </div>
+            {verificationWarning && (
+              <p className={`flex items-start text-xs mt-2 p-2 rounded-md border ${verificationWarning.className}`}>
+                <SearchX className="w-3 h-3 mr-1.5 mt-0.5 shrink-0" />
+                {verificationWarning.detail}
+              </p>
+            )}
           </div>
 
           <div className="mb-6">
@@ -114,6 +213,58 @@ export const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onUpdate }) => {
              </div>
           </div>
 
+          {/* Negotiation Redline */}
+          <div className="mb-6 bg-slate-900 p-4 rounded-lg border border-slate-800">
+            <div className="flex items-center justify-between mb-3">
+              <h5 className="text-sm font-semibold text-slate-200 flex items-center">
+                <WandSparkles className="w-4 h-4 mr-2 text-indigo-500" />
+                {clause.redline ? 'Suggested fairer version' : 'Negotiate this clause'}
+              </h5>
+              {clause.redline && !loadingRedline && (
+                <div className="flex items-center gap-3 text-xs font-medium">
+                  <button onClick={handleCopyRedline} className="flex items-center text-slate-400 hover:text-indigo-400 transition-colors">
+                    {copied ? <Check className="w-3.5 h-3.5 mr-1" /> : <Copy className="w-3.5 h-3.5 mr-1" />}
+                    {copied ? 'Copied' : 'Copy'}
+                  </button>
+                  <button onClick={handleSuggestRedline} className="flex items-center text-slate-400 hover:text-indigo-400 transition-colors">
+                    <RefreshCw className="w-3.5 h-3.5 mr-1" />
+                    Regenerate
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {loadingRedline ? (
+              <p className="text-sm text-slate-400 flex items-center">
+                <Loader2 className="w-4 h-4 mr-2 animate-spin text-indigo-400" />
+                Drafting fairer wording...
+              </p>
+            ) : clause.redline ? (
+              <>
+                <RedlineDiff parts={redlineParts} className="text-sm text-slate-300 bg-slate-950 p-3 rounded-lg border border-slate-800" />
+                <p className="text-sm text-slate-400 mt-3">
+                  <span className="font-medium text-slate-300">Why: </span>
+                  {clause.redline.rationale}
+                </p>
+              </>
+            ) : (
+              <button
+                onClick={handleSuggestRedline}
+                disabled={!onUpdate}
+                className="text-sm font-medium text-indigo-300 bg-indigo-900/30 hover:bg-indigo-900/50 border border-indigo-500/30 px-3 py-2 rounded-lg transition-colors disabled:opacity-50"
+              >
+                Suggest a fairer version
+              </button>
+            )}
+
+            {redlineError && !loadingRedline && (
+              <p className="text-xs text-red-400 mt-2 flex items-start">
+                 <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 shrink-0" />
+                 {redlineError}
+              </p>
+            )}
+          </div>
+
           {/* Q&A Section */}
           <div className="bg-slate-900 p-4 rounded-lg border border-slate-800">
             <h5 className="text-sm font-semibold text-slate-200 mb-3 flex items-center">
@@ -172,6 +323,13 @@ export const ClauseCard: React.FC<ClauseCardProps> = ({ clause, onUpdate }) => {
                  <span className="w-2 h-2 bg-indigo-500 rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></span>
               </p>
             )}
+
+            {askError && !loadingAnswer && (
+              <p className="text-xs text-red-400 mt-2 flex items-start">
+                 <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 shrink-0" />
+                 {askError}
+              </p>
+            )}
           </div>
 
           {/* Legal Suggestion Banner */}
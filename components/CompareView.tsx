@@ -1,34 +1,78 @@
-import React, { useEffect, useState, useRef } from 'react';
-import { Contract, ComparisonResult, ChatMessage } from '../types';
-import { compareContracts, queryComparisonDifference } from '../services/geminiService';
-import { ArrowLeft, Trophy, AlertTriangle, ShieldCheck, Scale, Sparkles, Loader2, MessageCircle, X, Send, Bot, User } from 'lucide-react';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import { Contract, ComparisonResult, ChatMessage, CriterionWeights, RiskLevel, SavedComparison } from '../types';
+import { compareContracts, streamComparisonDifference, toChatHistory } from '../services/geminiService';
+import { ArrowLeft, Trophy, AlertTriangle, ShieldCheck, Scale, Sparkles, Loader2, MessageCircle, X, Send, Bot, User, Square, AlertCircle, RefreshCw, Clock, ShieldOff, History, Download, FileSpreadsheet } from 'lucide-react';
 import { RiskBadge } from './RiskBadge';
+import { ClauseAlignmentTable } from './ClauseAlignmentTable';
+import { ComparisonMatrix } from './ComparisonMatrix';
+import { jsPDF } from 'jspdf';
+import { classifyAIError, getRetryAt, isUserRetryable, AIServiceError } from '../services/aiErrors';
+import { useCountdown } from '../hooks/useCountdown';
+import { COMPARISON_CRITERIA, getSavedCriterionWeights, rankContracts, saveCriterionWeights } from '../services/comparisonMatrix';
+import { createSavedComparison, settleChatMessages, updateSavedComparison } from '../services/comparisonHistory';
+import { storageService } from '../services/storageService';
+import { countClausesByRisk, downloadComparisonCsv } from '../services/comparisonExport';
+import { embedPdfFonts } from '../services/pdfFonts';
+import { createPdfTextWriter } from '../services/pdfReport';
 
 interface CompareViewProps {
   contracts: Contract[];
+  savedComparison?: SavedComparison; // Reopened from history: shown as saved, without a new AI call
   onBack: () => void;
 }
 
-export const CompareView: React.FC<CompareViewProps> = ({ contracts, onBack }) => {
-  const [comparison, setComparison] = useState<ComparisonResult | null>(null);
-  const [loading, setLoading] = useState(true);
+export const CompareView: React.FC<CompareViewProps> = ({ contracts, savedComparison, onBack }) => {
+  const [saved, setSaved] = useState<SavedComparison | null>(savedComparison || null);
+  const [comparison, setComparison] = useState<ComparisonResult | null>(savedComparison?.result || null);
+  const [loading, setLoading] = useState(!savedComparison);
   const [activeDifference, setActiveDifference] = useState<string | null>(null);
+  const [error, setError] = useState<AIServiceError | null>(null);
+  const [retryAt, setRetryAt] = useState<number | undefined>(undefined);
+  const [attempt, setAttempt] = useState(0);
+  const retryCountdown = useCountdown(retryAt);
+  const [weights, setWeights] = useState<CriterionWeights>(getSavedCriterionWeights);
+
+  // Re-ranked locally whenever a weight changes
+  const ranked = useMemo(
+    () => comparison ? rankContracts(contracts, comparison.criterionScores, weights) : [],
+    [comparison, contracts, weights]
+  );
+
+  const handleWeightsChange = (next: CriterionWeights) => {
+    setWeights(next);
+    saveCriterionWeights(next);
+  };
 
   useEffect(() => {
     const fetchComparison = async () => {
+      setLoading(true);
+      setError(null);
       try {
         const result = await compareContracts(contracts);
+        const entry = saved ? updateSavedComparison(saved, contracts, result) : createSavedComparison(contracts, result);
+        storageService.saveComparison(entry);
+        setSaved(entry);
         setComparison(result);
       } catch (e) {
         console.error("Comparison failed", e);
+        setError(classifyAIError(e));
+        setRetryAt(getRetryAt(e));
       } finally {
         setLoading(false);
       }
     };
-    if (contracts.length > 0) {
+    // A reopened comparison is only re-run when the user asks for it
+    if (contracts.length > 0 && !(savedComparison && attempt === 0)) {
         fetchComparison();
     }
-  }, [contracts]);
+  }, [contracts, attempt]);
+
+  const handleChatChange = (difference: string, messages: ChatMessage[]) => {
+    if (!saved) return;
+    const next = { ...saved, differenceChats: { ...saved.differenceChats, [difference]: messages } };
+    storageService.saveComparison(next);
+    setSaved(next);
+  };
 
   if (loading) {
       return (
@@ -45,18 +89,202 @@ export const CompareView: React.FC<CompareViewProps> = ({ contracts, onBack }) =
       );
   }
 
-  if (!comparison) return <div>Failed to load comparison.</div>;
+  if (!comparison) {
+      return (
+          <div className="flex flex-col items-center justify-center min-h-[60vh] animate-fade-in text-center">
+              <div className="bg-slate-900 p-6 rounded-2xl shadow-lg border border-red-900/30 mb-6">
+                  {error?.kind === 'safety-blocked'
+                      ? <ShieldOff className="w-12 h-12 text-red-500" />
+                      : <AlertCircle className="w-12 h-12 text-red-500" />}
+              </div>
+              <h2 className="text-2xl font-bold text-slate-200 mb-2">Comparison failed</h2>
+              <p className="text-slate-400 max-w-md">{error?.message || 'Failed to load comparison.'}</p>
+              {error?.kind === 'auth' && (
+                  <p className="text-slate-500 text-sm mt-2">Check the AI provider settings in My Profile.</p>
+              )}
+
+              <div className="flex items-center gap-3 mt-8">
+                  <button 
+                    onClick={onBack}
+                    className="flex items-center text-slate-400 hover:text-slate-200 px-4 py-2.5 rounded-xl font-medium transition-colors"
+                  >
+                    <ArrowLeft className="w-4 h-4 mr-1" /> Back to Dashboard
+                  </button>
+                  {retryCountdown > 0 ? (
+                      <div className="flex items-center text-amber-400 bg-amber-900/20 border border-amber-900/30 px-5 py-2.5 rounded-xl font-semibold">
+                          <Clock className="w-4 h-4 mr-2" /> Retry in {retryCountdown}s
+                      </div>
+                  ) : isUserRetryable(error?.kind) && (
+                      <button 
+                        onClick={() => setAttempt(prev => prev + 1)}
+                        className="flex items-center bg-indigo-600 text-white px-5 py-2.5 rounded-xl font-semibold hover:bg-indigo-700 transition-all shadow-lg shadow-indigo-900/30"
+                      >
+                        <RefreshCw className="w-4 h-4 mr-2" /> Try again
+                      </button>
+                  )}
+              </div>
+          </div>
+      );
+  }
+
+  // The weighted ranking decides, with the AI's own pick as fallback when nothing was scored
+  const aiPick = contracts.find(c => c.id === comparison.recommendedId) || contracts[0];
+  const topRanked = ranked[0]?.weightedScore !== null ? ranked[0] : undefined;
+  const winner = topRanked?.contract || aiPick;
+  // Contracts re-analyzed after a saved comparison was made may no longer match it
+  const isOutdated = !!saved && contracts.some(c => (c.analysis?.analyzedAt || 0) > saved.createdAt);
+
+  const exportBaseName = `LegalLens_Comparison_${new Date(saved?.createdAt || Date.now()).toISOString().slice(0, 10)}`;
+
+  const handleDownloadCsv = () => downloadComparisonCsv(ranked, comparison, weights, `${exportBaseName}.csv`);
+
+  const handleDownloadReport = async () => {
+    const doc = new jsPDF();
+    const fonts = await embedPdfFonts(doc, `${contracts.map(c => c.fileName).join(' ')} ${JSON.stringify(comparison)} ${JSON.stringify(saved?.differenceChats || {})}`);
+
+    const pdf = createPdfTextWriter(doc, fonts);
+    const { addText } = pdf;
+
+    // Stacked bar of the clause counts per risk level
+    const RISK_COLORS: Record<RiskLevel, [number, number, number]> = {
+        [RiskLevel.HIGH]: [220, 38, 38],
+        [RiskLevel.MEDIUM]: [217, 119, 6],
+        [RiskLevel.LOW]: [5, 150, 105],
+    };
+    const addRiskBar = (contract: Contract) => {
+        const distribution = countClausesByRisk(contract);
+        const total = distribution[RiskLevel.HIGH] + distribution[RiskLevel.MEDIUM] + distribution[RiskLevel.LOW];
+        if (total === 0) return;
+        pdf.ensureSpace(6);
+        const barWidth = pdf.maxLineWidth * 0.6;
+        let x = pdf.margin;
+        [RiskLevel.HIGH, RiskLevel.MEDIUM, RiskLevel.LOW].forEach(level => {
+            const width = barWidth * (distribution[level] / total);
+            if (width <= 0) return;
+            doc.setFillColor(...RISK_COLORS[level]);
+            doc.rect(x, pdf.y - 3, width, 4, 'F');
+            x += width;
+        });
+        pdf.y += 4;
+        addText(`${distribution[RiskLevel.HIGH]} high, ${distribution[RiskLevel.MEDIUM]} medium, ${distribution[RiskLevel.LOW]} low risk clauses`, 8, false, [100, 116, 139]);
+    };
+
+    // --- PDF Content Generation ---
+
+    // Title & Meta
+    addText("LegalLens Comparison Report", 22, true, [79, 70, 229]); // Indigo
+    pdf.y += 5;
+    addText(`Contracts compared: ${contracts.length}`, 10, false, [100, 116, 139]);
+    addText(`Compared on: ${new Date(saved?.createdAt || Date.now()).toLocaleDateString()}`, 10, false, [100, 116, 139]);
+    pdf.y += 10;
+
+    // Recommendation
+    addText("Recommendation", 14, true, [30, 41, 59]);
+    pdf.y += 2;
+    if (topRanked) {
+        addText(`Top ranked for the chosen priorities: ${winner.fileName} (weighted score ${topRanked.weightedScore}/100)`, 11, true);
+    }
+    addText(`AI recommendation: ${aiPick.fileName}`, 11, !topRanked);
+    addText(comparison.reasoning, 10);
+    pdf.y += 8;
+
+    // Weighted Ranking
+    addText("Weighted Ranking", 14, true, [30, 41, 59]);
+    pdf.y += 2;
+    addText(`Weights (0-5): ${COMPARISON_CRITERIA.map(criterion => `${criterion.label} ${weights[criterion.id]}`).join(', ')}`, 9, false, [100, 116, 139]);
+    pdf.y += 2;
+    ranked.forEach(({ contract, rank, weightedScore, scores }) => {
+        const position = weightedScore === null ? '-' : `${rank}.`;
+        addText(`${position} ${contract.fileName}: ${weightedScore === null ? 'not scored' : `${weightedScore}/100`}`, 11, true, [30, 41, 59]);
+        COMPARISON_CRITERIA.forEach(criterion => {
+            const score = scores[criterion.id];
+            if (score) addText(`${criterion.label}: ${score.score}/10${score.note ? ` - ${score.note}` : ''}`, 9);
+        });
+        pdf.y += 3;
+    });
+    pdf.y += 5;
+
+    // Per-contract scores and risk distribution
+    addText("Contract Scores & Risk Distribution", 14, true, [30, 41, 59]);
+    pdf.y += 2;
+    contracts.forEach(contract => {
+        // Prevent orphaned headers at bottom of page
+        pdf.ensureSpace(20);
+        addText(contract.fileName, 11, true, [30, 41, 59]);
+        if (contract.analysis) {
+            addText(`Risk Score: ${contract.analysis.riskScore}/100 - Overall Risk: ${contract.analysis.overallRisk}`, 10);
+            addRiskBar(contract);
+            addText(contract.analysis.summary, 9, false, [71, 85, 105]);
+        }
+        pdf.y += 4;
+    });
+    pdf.y += 4;
+
+    // Key Differences, with any discussion notes from the difference chats
+    addText("Key Differences", 14, true, [30, 41, 59]);
+    pdf.y += 2;
+    comparison.keyDifferences.forEach(difference => {
+        addText(`- ${difference}`, 10);
+        const notes = (saved?.differenceChats[difference] || []).filter(message => message.text && message.status !== 'error');
+        if (notes.length > 0) {
+            addText("Discussion Notes:", 9, true, [79, 70, 229]);
+            notes.forEach(message => {
+                addText(`${message.role === 'user' ? 'Q' : 'A'}: ${message.text}`, 8, false, message.role === 'user' ? [100, 100, 100] : [60, 60, 60]);
+            });
+            pdf.y += 2;
+        }
+    });
 
-  const winner = contracts.find(c => c.id === comparison.recommendedId) || contracts[0];
+    // Save
+    doc.save(`${exportBaseName}.pdf`);
+  };
 
   return (
     <div className="space-y-8 animate-slide-up relative">
-      <button 
-        onClick={onBack}
-        className="flex items-center text-slate-400 hover:text-indigo-400 transition-colors font-medium hover:-translate-x-1 duration-200"
-      >
-        <ArrowLeft className="w-4 h-4 mr-1" /> Back to Dashboard
-      </button>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <button 
+          onClick={onBack}
+          className="flex items-center text-slate-400 hover:text-indigo-400 transition-colors font-medium hover:-translate-x-1 duration-200"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" /> Back to Dashboard
+        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleDownloadCsv}
+            className="flex items-center gap-1 text-slate-400 hover:text-indigo-400 transition-colors font-medium text-sm px-3 py-1.5"
+            title="Download contracts and scores as a spreadsheet (CSV)"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            <span>Export CSV</span>
+          </button>
+          <button
+            onClick={handleDownloadReport}
+            className="flex items-center gap-1 text-indigo-400 hover:text-indigo-300 transition-all font-bold text-sm bg-indigo-900/30 hover:bg-indigo-900/50 px-3 py-1.5 rounded-full border border-indigo-500/30 shadow-sm hover:shadow-md"
+            title="Download comparison report (PDF)"
+          >
+            <Download className="w-4 h-4" />
+            <span>Download Report (PDF)</span>
+          </button>
+        </div>
+      </div>
+
+      {savedComparison && saved?.id === savedComparison.id && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-slate-900 border border-slate-800 rounded-xl px-4 py-3 text-sm animate-fade-in">
+          <div className="flex items-center text-slate-400">
+            <History className="w-4 h-4 mr-2 text-indigo-500 shrink-0" />
+            <span>
+              Saved comparison from {new Date(saved.createdAt).toLocaleString()}.
+              {isOutdated && <span className="text-amber-400"> Some of these contracts have been re-analyzed since.</span>}
+            </span>
+          </div>
+          <button
+            onClick={() => setAttempt(prev => prev + 1)}
+            className="self-start sm:self-auto flex items-center text-xs font-medium text-indigo-400 hover:text-indigo-300 bg-indigo-900/20 px-3 py-1.5 rounded-lg hover:bg-indigo-900/40 border border-indigo-900/30 transition-all shrink-0"
+          >
+            <RefreshCw className="w-3 h-3 mr-1.5" /> Run again
+          </button>
+        </div>
+      )}
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Header / Winner Section */}
@@ -67,18 +295,26 @@ export const CompareView: React.FC<CompareViewProps> = ({ contracts, onBack }) =
             
             <div className="relative z-10">
                 <div className="flex items-center gap-2 mb-4 text-indigo-300 font-semibold uppercase tracking-wider text-sm">
-                    <Sparkles className="w-4 h-4" /> AI Recommendation
+                    <Sparkles className="w-4 h-4" /> {topRanked ? 'Best Fit for Your Priorities' : 'AI Recommendation'}
                 </div>
                 <h1 className="text-3xl font-bold mb-4">
-                    The Safer Choice: <span className="underline decoration-indigo-400 underline-offset-4">{winner.fileName}</span>
+                    {topRanked ? 'Top Ranked' : 'The Safer Choice'}: <span className="underline decoration-indigo-400 underline-offset-4">{winner.fileName}</span>
                 </h1>
+                {winner.id !== aiPick.id && (
+                    <p className="text-indigo-300 text-sm mb-2">The AI's overall pick was {aiPick.fileName}:</p>
+                )}
                 <p className="text-indigo-100 text-lg max-w-2xl leading-relaxed">
                     {comparison.reasoning}
                 </p>
             </div>
         </div>
 
-        {/* Contract Grid */}
+        {/* Per-criterion scores and the user's weights */}
+        <div className="lg:col-span-3">
+            <ComparisonMatrix ranked={ranked} weights={weights} onWeightsChange={handleWeightsChange} />
+        </div>
+
+        {/* Contract Grid, in ranking order */}
         <div className="lg:col-span-3 relative">
             {/* VS Badge - Only show if exactly 2 contracts */}
             {contracts.length === 2 && (
@@ -88,18 +324,18 @@ export const CompareView: React.FC<CompareViewProps> = ({ contracts, onBack }) =
             )}
             
             <div className={`grid grid-cols-1 md:grid-cols-2 ${contracts.length > 2 ? 'lg:grid-cols-3' : ''} gap-8`}>
-                {contracts.map(contract => (
+                {ranked.map(({ contract, rank, weightedScore }) => (
                     <div 
                         key={contract.id}
                         className={`bg-slate-900 rounded-2xl p-6 border-2 transition-all ${
-                            comparison.recommendedId === contract.id 
+                            winner.id === contract.id 
                             ? 'border-emerald-500/50 shadow-lg ring-4 ring-emerald-900/20' 
                             : 'border-slate-800'
                         }`}
                     >
                         <div className="flex justify-between items-start mb-6">
                             <h3 className="text-xl font-bold text-slate-200 truncate pr-4" title={contract.fileName}>{contract.fileName}</h3>
-                            {comparison.recommendedId === contract.id && (
+                            {winner.id === contract.id && (
                                 <span className="bg-emerald-900/30 text-emerald-400 text-xs font-bold px-3 py-1 rounded-full flex items-center shrink-0 border border-emerald-900/50">
                                     <ShieldCheck className="w-3 h-3 mr-1" /> Winner
                                 </span>
@@ -107,6 +343,11 @@ export const CompareView: React.FC<CompareViewProps> = ({ contracts, onBack }) =
                         </div>
 
                         <div className="space-y-6">
+                            {weightedScore !== null && (
+                                <div className="-mt-4 text-xs text-slate-500">
+                                    Rank #{rank} · Weighted score {weightedScore}
+                                </div>
+                            )}
                             <div>
                                 <div className="text-xs font-semibold text-slate-500 uppercase mb-1">Risk Score</div>
                                 <div className="flex items-end gap-2">
@@ -135,6 +376,11 @@ export const CompareView: React.FC<CompareViewProps> = ({ contracts, onBack }) =
             </div>
         </div>
 
+        {/* Clauses aligned by topic */}
+        <div className="lg:col-span-3">
+            <ClauseAlignmentTable contracts={contracts} />
+        </div>
+
         {/* Key Differences */}
         <div className="lg:col-span-3">
             <div className="bg-slate-900 rounded-2xl p-8 border border-slate-800 shadow-sm">
@@ -153,7 +399,12 @@ export const CompareView: React.FC<CompareViewProps> = ({ contracts, onBack }) =
                             <div className="bg-slate-900 p-2 rounded-full border border-slate-700 group-hover:border-indigo-500/30 mr-3 shrink-0 mt-0.5 shadow-sm">
                                 <MessageCircle className="w-4 h-4 text-indigo-500" />
                             </div>
-                            <p className="text-slate-300 text-sm leading-relaxed group-hover:text-slate-100">{diff}</p>
+                            <div>
+                                <p className="text-slate-300 text-sm leading-relaxed group-hover:text-slate-100">{diff}</p>
+                                {saved?.differenceChats[diff]?.length ? (
+                                    <p className="text-xs text-indigo-400 mt-1.5">Continue conversation ({saved.differenceChats[diff].length} messages)</p>
+                                ) : null}
+                            </div>
                         </button>
                     ))}
                 </div>
@@ -166,6 +417,8 @@ export const CompareView: React.FC<CompareViewProps> = ({ contracts, onBack }) =
           <DifferenceChatModal 
             difference={activeDifference}
             contracts={contracts}
+            initialMessages={saved?.differenceChats[activeDifference] || []}
+            onMessagesChange={(messages) => handleChatChange(activeDifference, messages)}
             onClose={() => setActiveDifference(null)}
           />
       )}
@@ -176,64 +429,116 @@ export const CompareView: React.FC<CompareViewProps> = ({ contracts, onBack }) =
 interface DifferenceChatModalProps {
     difference: string;
     contracts: Contract[];
+    initialMessages: ChatMessage[]; // A saved conversation to continue
+    onMessagesChange: (messages: ChatMessage[]) => void;
     onClose: () => void;
 }
 
-const DifferenceChatModal: React.FC<DifferenceChatModalProps> = ({ difference, contracts, onClose }) => {
-    const [messages, setMessages] = useState<ChatMessage[]>([]);
+const DifferenceChatModal: React.FC<DifferenceChatModalProps> = ({ difference, contracts, initialMessages, onMessagesChange, onClose }) => {
+    const [messages, setMessages] = useState<ChatMessage[]>(initialMessages);
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const hasFetchedBrief = useRef(false);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    // Remembered so a failed reply can be retried with the same prompt and history
+    const lastRequestRef = useRef<{ history: ChatMessage[]; prompt: string } | null>(null);
+    const [retryAt, setRetryAt] = useState<number | undefined>(undefined);
+    const retryCountdown = useCountdown(retryAt);
 
     // Auto-scroll
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [messages, isLoading]);
 
-    // Initial Briefing
+    // Streams a reply into a placeholder bubble, keeping partial text on stop or error
+    const streamReply = async (history: ChatMessage[], prompt: string) => {
+        lastRequestRef.current = { history, prompt };
+        const replyTimestamp = Date.now() + 1;
+        const updateReply = (patch: Partial<ChatMessage>) => {
+            setMessages(prev => prev.map(msg =>
+                msg.role === 'model' && msg.timestamp === replyTimestamp ? { ...msg, ...patch } : msg
+            ));
+        };
+
+        setMessages(prev => [...prev, { role: 'model', text: '', timestamp: replyTimestamp, status: 'streaming' }]);
+        setIsLoading(true);
+
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        let replyText = '';
+
+        try {
+            for await (const delta of streamComparisonDifference(history, prompt, contracts, difference, controller.signal)) {
+                replyText += delta;
+                updateReply({ text: replyText });
+            }
+
+            if (controller.signal.aborted) {
+                updateReply({ status: 'stopped' });
+            } else {
+                updateReply({ text: replyText || "I couldn't generate a response.", status: undefined });
+            }
+        } catch (err) {
+            const error = classifyAIError(err);
+            updateReply({ status: 'error', error: error.message, errorKind: error.kind });
+            setRetryAt(getRetryAt(error));
+        } finally {
+            abortControllerRef.current = null;
+            setIsLoading(false);
+        }
+    };
+
+    // Save the conversation whenever a reply settles
+    useEffect(() => {
+        if (!isLoading && messages !== initialMessages) onMessagesChange(messages);
+    }, [messages, isLoading]);
+
+    // Initial Briefing, unless a saved conversation is being continued
     useEffect(() => {
-        if (!hasFetchedBrief.current) {
+        if (!hasFetchedBrief.current && initialMessages.length === 0) {
             hasFetchedBrief.current = true;
-            setIsLoading(true);
-            
             // Initial phantom call to get the briefing
-            queryComparisonDifference([], "Please brief me on this difference and what it means for me in simple terms.", contracts, difference)
-                .then(response => {
-                    setMessages([{
-                        role: 'model',
-                        text: response,
-                        timestamp: Date.now()
-                    }]);
-                })
-                .catch(err => {
-                    setMessages([{
-                        role: 'model',
-                        text: "Sorry, I couldn't generate the briefing right now.",
-                        timestamp: Date.now()
-                    }]);
-                })
-                .finally(() => setIsLoading(false));
+            streamReply([], "Please brief me on this difference and what it means for me in simple terms.");
         }
     }, [difference, contracts]);
 
     const handleSend = async () => {
-        if (!input.trim() || isLoading) return;
+        if (!input.trim() || isLoading || retryCountdown > 0) return;
 
         const userMsg: ChatMessage = { role: 'user', text: input, timestamp: Date.now() };
+        const history = toChatHistory(messages);
         setMessages(prev => [...prev, userMsg]);
         setInput('');
-        setIsLoading(true);
 
-        const response = await queryComparisonDifference(messages, input, contracts, difference);
-        
-        setMessages(prev => [...prev, { role: 'model', text: response, timestamp: Date.now() }]);
-        setIsLoading(false);
+        await streamReply(history, userMsg.text);
+    };
+
+    // Replaces a failed reply with a fresh attempt at the same prompt
+    const handleRetry = async (failedTimestamp: number) => {
+        const lastRequest = lastRequestRef.current;
+        if (!lastRequest || isLoading) return;
+
+        setMessages(prev => prev.filter(msg => msg.timestamp !== failedTimestamp));
+        await streamReply(lastRequest.history, lastRequest.prompt);
+    };
+
+    const handleStop = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    // Cancel any in-flight stream when the modal closes, keeping what arrived so far
+    const handleClose = () => {
+        if (abortControllerRef.current) {
+            abortControllerRef.current.abort();
+            onMessagesChange(settleChatMessages(messages));
+        }
+        onClose();
     };
 
     return (
         <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
-            <div className="absolute inset-0 bg-slate-950/60 backdrop-blur-sm" onClick={onClose}></div>
+            <div className="absolute inset-0 bg-slate-950/60 backdrop-blur-sm" onClick={handleClose}></div>
             <div className="bg-slate-900 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col relative z-10 animate-scale-in border border-slate-700/50">
                 
                 {/* Header */}
@@ -244,20 +549,13 @@ const DifferenceChatModal: React.FC<DifferenceChatModalProps> = ({ difference, c
                         </div>
                         <h3 className="text-lg font-bold text-slate-100 leading-snug">{difference}</h3>
                     </div>
-                    <button onClick={onClose} className="p-2 hover:bg-slate-700 rounded-full text-slate-400 hover:text-slate-200 transition-colors">
+                    <button onClick={handleClose} className="p-2 hover:bg-slate-700 rounded-full text-slate-400 hover:text-slate-200 transition-colors">
                         <X className="w-5 h-5" />
                     </button>
                 </div>
 
                 {/* Chat Area */}
                 <div className="flex-1 overflow-y-auto p-6 space-y-5 bg-slate-900">
-                    {messages.length === 0 && isLoading && (
-                         <div className="flex flex-col items-center justify-center h-40 text-slate-500 space-y-3">
-                             <Loader2 className="w-8 h-8 animate-spin text-indigo-500" />
-                             <p className="text-sm font-medium">Generating briefing...</p>
-                         </div>
-                    )}
-
                     {messages.map((msg, idx) => (
                         <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                             {msg.role === 'model' && (
@@ -265,13 +563,55 @@ const DifferenceChatModal: React.FC<DifferenceChatModalProps> = ({ difference, c
                                     <Bot className="w-5 h-5 text-indigo-400" />
                                 </div>
                             )}
+                            {msg.status === 'streaming' && !msg.text ? (
+                                idx === 0 ? (
+                                    <div className="flex items-center text-slate-500 space-x-3 h-12">
+                                        <Loader2 className="w-5 h-5 animate-spin text-indigo-500" />
+                                        <p className="text-sm font-medium">Generating briefing...</p>
+                                    </div>
+                                ) : (
+                                    <div className="bg-slate-800 border border-slate-700 rounded-2xl rounded-tl-none px-5 py-4 shadow-sm flex space-x-1.5 items-center h-12">
+                                        <div className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce"></div>
+                                        <div className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce" style={{animationDelay: '0.1s'}}></div>
+                                        <div className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></div>
+                                    </div>
+                                )
+                            ) : (
                             <div className={`max-w-[85%] rounded-2xl px-5 py-3.5 text-sm leading-relaxed shadow-sm ${
                                 msg.role === 'user' 
                                 ? 'bg-indigo-600 text-white rounded-tr-none' 
                                 : 'bg-slate-800 border border-slate-700 text-slate-200 rounded-tl-none'
                             }`}>
-                                {msg.text}
+                                <span className="whitespace-pre-wrap">{msg.text}</span>
+                                {msg.status === 'streaming' && (
+                                    <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-indigo-400 animate-pulse"></span>
+                                )}
+                                {msg.status === 'stopped' && (
+                                    <div className="mt-2 text-xs text-slate-500 italic">Response stopped.</div>
+                                )}
+                                {msg.status === 'error' && (
+                                    <div className="mt-2 text-xs text-red-400 flex items-start">
+                                        <AlertCircle className="w-3 h-3 mr-1 mt-0.5 shrink-0" />
+                                        <div>
+                                            <span>{msg.error || 'The response was interrupted.'}</span>
+                                            {/* Only the latest failed reply can be retried */}
+                                            {idx === messages.length - 1 && !isLoading && isUserRetryable(msg.errorKind) && (
+                                                retryCountdown > 0 ? (
+                                                    <div className="text-amber-400 mt-1">You can retry in {retryCountdown}s.</div>
+                                                ) : (
+                                                    <button
+                                                        onClick={() => handleRetry(msg.timestamp)}
+                                                        className="flex items-center mt-1 text-indigo-400 hover:text-indigo-300 font-medium"
+                                                    >
+                                                        <RefreshCw className="w-3 h-3 mr-1" /> Retry
+                                                    </button>
+                                                )
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
                             </div>
+                            )}
                             {msg.role === 'user' && (
                                 <div className="w-8 h-8 bg-slate-700 rounded-full flex items-center justify-center ml-3 mt-1 shrink-0">
                                     <User className="w-5 h-5 text-slate-400" />
@@ -279,19 +619,6 @@ const DifferenceChatModal: React.FC<DifferenceChatModalProps> = ({ difference, c
                             )}
                         </div>
                     ))}
-                    
-                    {isLoading && messages.length > 0 && (
-                        <div className="flex justify-start">
-                            <div className="w-8 h-8 bg-indigo-900/50 rounded-full flex items-center justify-center mr-3 shrink-0">
-                                <Bot className="w-5 h-5 text-indigo-400" />
-                            </div>
-                            <div className="bg-slate-800 border border-slate-700 rounded-2xl rounded-tl-none px-5 py-4 shadow-sm flex space-x-1.5 items-center h-12">
-                                <div className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce"></div>
-                                <div className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce" style={{animationDelay: '0.1s'}}></div>
-                                <div className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></div>
-                            </div>
-                        </div>
-                    )}
                     <div ref={messagesEndRef} />
                 </div>
 
@@ -303,17 +630,27 @@ const DifferenceChatModal: React.FC<DifferenceChatModalProps> = ({ difference, c
                             value={input}
                             onChange={(e) => setInput(e.target.value)}
                             onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-                            placeholder="Ask a follow-up question..."
+                            placeholder={retryCountdown > 0 ? `Rate limited - try again in ${retryCountdown}s` : "Ask a follow-up question..."}
                             className="flex-1 px-4 py-3 bg-slate-950 text-slate-100 border border-slate-700 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent shadow-sm transition-all placeholder-slate-500"
                             autoFocus
                         />
-                        <button
-                            onClick={handleSend}
-                            disabled={!input.trim() || isLoading}
-                            className="p-3 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md hover:shadow-lg active:scale-95"
-                        >
-                            <Send className="w-5 h-5" />
-                        </button>
+                        {isLoading ? (
+                            <button
+                                onClick={handleStop}
+                                className="p-3 bg-slate-700 text-white rounded-xl hover:bg-slate-600 transition-all shadow-md hover:shadow-lg active:scale-95"
+                                title="Stop generating"
+                            >
+                                <Square className="w-5 h-5" fill="currentColor" />
+                            </button>
+                        ) : (
+                            <button
+                                onClick={handleSend}
+                                disabled={!input.trim() || retryCountdown > 0}
+                                className="p-3 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-md hover:shadow-lg active:scale-95"
+                            >
+                                <Send className="w-5 h-5" />
+                            </button>
+                        )}
                     </div>
                 </div>
             </div>
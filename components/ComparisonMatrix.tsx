@@ -0,0 +1,121 @@
+import React from 'react';
+import { SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { ComparisonCriterion, CriterionWeights } from '../types';
+import { COMPARISON_CRITERIA, DEFAULT_CRITERION_WEIGHTS, MAX_CRITERION_SCORE, MAX_CRITERION_WEIGHT, RankedContract } from '../services/comparisonMatrix';
+
+interface ComparisonMatrixProps {
+  ranked: RankedContract[];
+  weights: CriterionWeights;
+  onWeightsChange: (weights: CriterionWeights) => void;
+}
+
+const WEIGHT_LABELS = ['Ignore', 'Minor', 'Low', 'Medium', 'High', 'Critical'];
+
+const scoreColor = (score: number): string => {
+  if (score >= 7) return 'bg-emerald-900/30 text-emerald-300 border-emerald-900/40';
+  if (score >= 4) return 'bg-amber-900/20 text-amber-300 border-amber-900/30';
+  return 'bg-red-900/20 text-red-300 border-red-900/30';
+};
+
+export const ComparisonMatrix: React.FC<ComparisonMatrixProps> = ({ ranked, weights, onWeightsChange }) => {
+  const setWeight = (criterion: ComparisonCriterion, weight: number) =>
+    onWeightsChange({ ...weights, [criterion]: weight });
+
+  const isDefault = COMPARISON_CRITERIA.every(({ id }) => weights[id] === DEFAULT_CRITERION_WEIGHTS[id]);
+  const hasScores = ranked.some(entry => Object.keys(entry.scores).length > 0);
+
+  return (
+    <div className="bg-slate-900 rounded-2xl p-8 border border-slate-800 shadow-sm">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-2">
+        <h3 className="text-lg font-bold text-slate-200 flex items-center">
+          <SlidersHorizontal className="w-5 h-5 mr-2 text-indigo-500" />
+          Weighted Ranking
+        </h3>
+        {!isDefault && (
+          <button
+            onClick={() => onWeightsChange(DEFAULT_CRITERION_WEIGHTS)}
+            className="self-start flex items-center text-xs font-medium text-slate-400 hover:text-indigo-400 transition-colors"
+          >
+            <RotateCcw className="w-3 h-3 mr-1" /> Reset weights
+          </button>
+        )}
+      </div>
+      <p className="text-slate-500 text-sm mb-6">
+        Set how much each criterion matters to you. The ranking updates instantly from the AI's per-criterion scores ({MAX_CRITERION_SCORE} is best for you).
+      </p>
+
+      <div className="grid sm:grid-cols-2 lg:grid-cols-5 gap-4 mb-8">
+        {COMPARISON_CRITERIA.map(criterion => (
+          <label key={criterion.id} className="block bg-slate-800/50 p-3 rounded-xl border border-slate-800" title={criterion.description}>
+            <div className="flex items-center justify-between text-xs mb-2">
+              <span className="font-semibold text-slate-300">{criterion.label}</span>
+              <span className={weights[criterion.id] === 0 ? 'text-slate-600' : 'text-indigo-400'}>{WEIGHT_LABELS[weights[criterion.id]]}</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={MAX_CRITERION_WEIGHT}
+              step={1}
+              value={weights[criterion.id]}
+              onChange={(e) => setWeight(criterion.id, Number(e.target.value))}
+              className="w-full accent-indigo-500"
+            />
+          </label>
+        ))}
+      </div>
+
+      {!hasScores ? (
+        <p className="text-sm text-slate-500 italic">The AI didn't return per-criterion scores for this comparison.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs font-semibold text-slate-400 uppercase tracking-wide">
+                <th className="pb-3 pr-3 w-10">#</th>
+                <th className="pb-3 pr-3 min-w-[10rem]">Contract</th>
+                {COMPARISON_CRITERIA.map(criterion => (
+                  <th key={criterion.id} className={`pb-3 px-2 text-center whitespace-nowrap ${weights[criterion.id] === 0 ? 'opacity-40' : ''}`}>
+                    {criterion.label}
+                  </th>
+                ))}
+                <th className="pb-3 pl-3 text-right">Weighted</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {ranked.map(entry => (
+                <tr key={entry.contract.id}>
+                  <td className={`py-3 pr-3 font-bold ${entry.rank === 1 && entry.weightedScore !== null ? 'text-emerald-400' : 'text-slate-500'}`}>
+                    {entry.weightedScore === null ? '–' : entry.rank}
+                  </td>
+                  <td className="py-3 pr-3 font-medium text-slate-200 truncate max-w-[16rem]" title={entry.contract.fileName}>
+                    {entry.contract.fileName}
+                  </td>
+                  {COMPARISON_CRITERIA.map(criterion => {
+                    const score = entry.scores[criterion.id];
+                    return (
+                      <td key={criterion.id} className={`py-3 px-2 text-center ${weights[criterion.id] === 0 ? 'opacity-40' : ''}`}>
+                        {score ? (
+                          <span
+                            className={`inline-block min-w-[2.5rem] px-2 py-1 rounded-lg border text-xs font-bold ${scoreColor(score.score)}`}
+                            title={score.note}
+                          >
+                            {score.score}
+                          </span>
+                        ) : (
+                          <span className="text-xs text-slate-600" title="Not scored">n/a</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className="py-3 pl-3 text-right font-bold text-slate-100">
+                    {entry.weightedScore === null ? <span className="text-slate-600">n/a</span> : entry.weightedScore}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,11 @@
-import React, { useCallback, useState } from 'react';
-import { Upload, File as FileIcon, Loader2, AlertCircle, Trash2, Play, Sparkles, CheckCircle, ArrowRight, RefreshCw } from 'lucide-react';
-import { analyzeContract } from '../services/geminiService';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Upload, File as FileIcon, Loader2, AlertCircle, Trash2, Play, Sparkles, CheckCircle, ArrowRight, RefreshCw, Clock, ShieldOff, GitCompare } from 'lucide-react';
+import { AnalysisProgress } from '../services/geminiService';
+import { analyzeContractCached } from '../services/analysisCache';
 import { storageService } from '../services/storageService';
-import { Contract, User, RecentAnalysis } from '../types';
+import { AIServiceError, getRetryAt, isUserRetryable } from '../services/aiErrors';
+import { getRevisionCandidates } from '../services/revisions';
+import { Contract, User, RecentAnalysis, AIErrorKind } from '../types';
 
 // Simple ID generator
 const generateId = () => Math.random().toString(36).substring(2, 15);
@@ -17,13 +20,32 @@ interface FileUploadState {
   file: File;
   status: 'pending' | 'processing' | 'success' | 'error';
   error?: string;
+  errorKind?: AIErrorKind;
+  retryAt?: number; // Rate limits: earliest time a retry is allowed
   contract?: Contract;
+  progress?: AnalysisProgress;
+  revisionOf?: string; // Id of the existing contract this file is a revised draft of
 }
 
+// Errors that retrying can't fix, or rate limits that are still cooling down
+const isRetryBlocked = (fileState: FileUploadState, now: number) =>
+  fileState.status === 'error' &&
+  (!isUserRetryable(fileState.errorKind) || (fileState.retryAt !== undefined && fileState.retryAt > now));
+
 export const ContractUpload: React.FC<ContractUploadProps> = ({ user, onUploadComplete, onClose }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [files, setFiles] = useState<FileUploadState[]>([]);
   const [globalError, setGlobalError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [revisionCandidates] = useState(() => getRevisionCandidates(user.id));
+
+  // Tick once a second while any rate-limit countdown is running
+  const hasCountdown = files.some(f => f.status === 'error' && f.retryAt !== undefined && f.retryAt > now);
+  useEffect(() => {
+    if (!hasCountdown) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasCountdown]);
   
   const validateAndAddFiles = (fileList: FileList | File[]) => {
     const validTypes = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
@@ -54,7 +76,15 @@ export const ContractUpload: React.FC<ContractUploadProps> = ({ user, onUploadCo
     }
   };
 
-  const processFile = async (fileState: FileUploadState): Promise<FileUploadState> => {
+  const setRevisionOf = (index: number, revisionOf: string) => {
+      setFiles(prev => prev.map((f, i) => i === index ? { ...f, revisionOf: revisionOf || undefined } : f));
+  };
+
+  const updateProgress = (index: number, progress: AnalysisProgress) => {
+      setFiles(prev => prev.map((f, i) => i === index ? { ...f, progress } : f));
+  };
+
+  const processFile = async (fileState: FileUploadState, index: number): Promise<FileUploadState> => {
       try {
           // Convert to Base64
           const reader = new FileReader();
@@ -69,8 +99,10 @@ export const ContractUpload: React.FC<ContractUploadProps> = ({ user, onUploadCo
 
           const base64Data = await base64Promise;
           
-          // Analyze
-          const analysis = await analyzeContract(base64Data, fileState.file.type);
+          // Analyze (identical files already analyzed are served from the cache)
+          const { analysis, contentHash } = await analyzeContractCached(base64Data, fileState.file.type, {
+            onProgress: (progress) => updateProgress(index, progress),
+          });
           
           const newContract: Contract = {
             id: generateId(),
@@ -81,6 +113,8 @@ export const ContractUpload: React.FC<ContractUploadProps> = ({ user, onUploadCo
             analysis: analysis,
             fileData: base64Data,
             mimeType: fileState.file.type,
+            contentHash,
+            revisionOf: fileState.revisionOf,
           };
 
           // Save
@@ -107,13 +141,16 @@ export const ContractUpload: React.FC<ContractUploadProps> = ({ user, onUploadCo
           };
           storageService.saveRecentAnalysis(recentAnalysis);
 
-          return { ...fileState, status: 'success', contract: newContract };
+          return { ...fileState, status: 'success', contract: newContract, progress: undefined };
       } catch (e: any) {
           console.error("Error processing file", fileState.file.name, e);
           return { 
               ...fileState, 
               status: 'error', 
-              error: e.message || 'Failed to analyze due to an unexpected error.' 
+              error: e.message || 'Failed to analyze due to an unexpected error.',
+              errorKind: e instanceof AIServiceError ? e.kind : undefined,
+              retryAt: getRetryAt(e),
+              progress: undefined
           };
       }
   };
@@ -123,9 +160,9 @@ export const ContractUpload: React.FC<ContractUploadProps> = ({ user, onUploadCo
       if (!fileToRetry) return;
       
       // Update state to processing to show spinner immediately
-      setFiles(prev => prev.map((f, i) => i === index ? { ...f, status: 'processing', error: undefined } : f));
+      setFiles(prev => prev.map((f, i) => i === index ? { ...f, status: 'processing', error: undefined, errorKind: undefined, retryAt: undefined } : f));
       
-      const result = await processFile({ ...fileToRetry, status: 'pending', error: undefined });
+      const result = await processFile({ ...fileToRetry, status: 'pending', error: undefined, errorKind: undefined, retryAt: undefined }, index);
       
       setFiles(prev => prev.map((f, i) => i === index ? result : f));
   };
@@ -134,15 +171,21 @@ export const ContractUpload: React.FC<ContractUploadProps> = ({ user, onUploadCo
     // If single file pending, normal flow
     // If multiple, batch flow
     
-    // Mark pending as processing
-    setFiles(prev => prev.map(f => f.status === 'pending' || f.status === 'error' ? { ...f, status: 'processing', error: undefined } : f));
+    const currentTime = Date.now();
+
+    // Mark pending as processing (skipping failures that can't be retried yet)
+    setFiles(prev => prev.map(f => (f.status === 'pending' || f.status === 'error') && !isRetryBlocked(f, currentTime)
+        ? { ...f, status: 'processing', error: undefined, errorKind: undefined, retryAt: undefined }
+        : f));
 
     // Only process files that are not already successful
-    const filesToProcess = files.map((f, index) => ({ file: f, index })).filter(item => item.file.status !== 'success');
+    const filesToProcess = files
+        .map((f, index) => ({ file: f, index }))
+        .filter(item => item.file.status !== 'success' && !isRetryBlocked(item.file, currentTime));
     
     // Process in parallel
     const promises = filesToProcess.map(async (item) => {
-        const result = await processFile(item.file);
+        const result = await processFile(item.file, item.index);
         return { index: item.index, result };
     });
 
@@ -191,6 +234,7 @@ export const ContractUpload: React.FC<ContractUploadProps> = ({ user, onUploadCo
   const hasProcessing = files.some(f => f.status === 'processing');
   const allSuccess = files.length > 0 && files.every(f => f.status === 'success');
   const hasErrors = files.some(f => f.status === 'error');
+  const actionableCount = files.filter(f => f.status !== 'success' && !isRetryBlocked(f, now)).length;
 
   return (
     <div className="w-full max-w-3xl mx-auto animate-scale-in">
@@ -259,12 +303,71 @@ export const ContractUpload: React.FC<ContractUploadProps> = ({ user, onUploadCo
                                <div className="flex justify-between items-start">
                                     <div className="font-medium text-slate-200 truncate pr-2">{fileState.file.name}</div>
                                </div>
-                               <div className="text-xs text-slate-500 mt-0.5">{(fileState.file.size / 1024 / 1024).toFixed(2)} MB</div>
+                               <div className="text-xs text-slate-500 mt-0.5">
+                                   {(fileState.file.size / 1024 / 1024).toFixed(2)} MB
+                                   {fileState.contract?.analysis?.fromCache && <span className="text-indigo-400"> · Loaded from cache</span>}
+                               </div>
+
+                               {/* Linking a revised draft to the contract it revises */}
+                               {revisionCandidates.length > 0 && (fileState.status === 'pending' || fileState.status === 'error') && (
+                                   <label className="mt-2 flex items-center gap-2 text-xs text-slate-400">
+                                       <GitCompare className="w-3.5 h-3.5 shrink-0" />
+                                       <span className="shrink-0">Revised draft of</span>
+                                       <select
+                                           value={fileState.revisionOf || ''}
+                                           onChange={(e) => setRevisionOf(index, e.target.value)}
+                                           className="min-w-0 flex-1 px-2 py-1 bg-slate-800 text-slate-200 border border-slate-700 rounded focus:ring-2 focus:ring-indigo-500 outline-none"
+                                       >
+                                           <option value="">None (new contract)</option>
+                                           {revisionCandidates.map(contract => (
+                                               <option key={contract.id} value={contract.id}>
+                                                   {contract.fileName} ({new Date(contract.uploadDate).toLocaleDateString()})
+                                               </option>
+                                           ))}
+                                       </select>
+                                   </label>
+                               )}
+                               {fileState.revisionOf && (fileState.status === 'processing' || fileState.status === 'success') && (
+                                   <div className="mt-1 flex items-center text-xs text-indigo-400">
+                                       <GitCompare className="w-3 h-3 mr-1.5" />
+                                       Revised draft of {revisionCandidates.find(contract => contract.id === fileState.revisionOf)?.fileName}
+                                   </div>
+                               )}
+
+                               {/* Chunk progress for long documents */}
+                               {fileState.status === 'processing' && fileState.progress && fileState.progress.total > 1 && (
+                                   <div className="mt-2">
+                                       <div className="w-full h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                                           <div 
+                                               className="h-full bg-indigo-500 rounded-full transition-all duration-500"
+                                               style={{ width: `${Math.round((fileState.progress.completed / fileState.progress.total) * 100)}%` }}
+                                           />
+                                       </div>
+                                       <div className="text-[11px] text-slate-500 mt-1">
+                                           {fileState.progress.stage === 'merging'
+                                               ? `Merging ${fileState.progress.total} parts...`
+                                               : `Long document: analyzing part ${fileState.progress.completed + 1} of ${fileState.progress.total}`}
+                                       </div>
+                                   </div>
+                               )}
                                
                                {fileState.error && (
                                    <div className="mt-2 text-xs text-red-400 bg-red-950/30 p-2 rounded border border-red-900/30 flex items-start">
-                                       <AlertCircle className="w-3 h-3 mr-1.5 mt-0.5 shrink-0" />
-                                       <span>{fileState.error}</span>
+                                       {fileState.errorKind === 'safety-blocked'
+                                           ? <ShieldOff className="w-3 h-3 mr-1.5 mt-0.5 shrink-0" />
+                                           : <AlertCircle className="w-3 h-3 mr-1.5 mt-0.5 shrink-0" />}
+                                       <div>
+                                           <span>{fileState.error}</span>
+                                           {fileState.errorKind === 'safety-blocked' && (
+                                               <p className="text-red-300/70 mt-1">Retrying won't change the result for this document.</p>
+                                           )}
+                                           {fileState.errorKind === 'payload-too-large' && (
+                                               <p className="text-red-300/70 mt-1">Try splitting it into smaller files or uploading fewer pages.</p>
+                                           )}
+                                           {fileState.errorKind === 'auth' && (
+                                               <p className="text-red-300/70 mt-1">Check the AI provider settings in My Profile, then retry.</p>
+                                           )}
+                                       </div>
                                    </div>
                                )}
                            </div>
@@ -287,12 +390,18 @@ export const ContractUpload: React.FC<ContractUploadProps> = ({ user, onUploadCo
                                )}
                                {fileState.status === 'error' && (
                                    <div className="flex flex-col items-end gap-2">
-                                       <button 
-                                            onClick={() => retryFile(index)}
-                                            className="flex items-center text-xs font-medium text-indigo-400 hover:text-indigo-300 bg-indigo-900/20 px-2 py-1 rounded hover:bg-indigo-900/40 border border-indigo-900/30 transition-all"
-                                       >
-                                           <RefreshCw className="w-3 h-3 mr-1.5" /> Retry
-                                       </button>
+                                       {fileState.retryAt !== undefined && fileState.retryAt > now ? (
+                                           <div className="flex items-center text-xs font-medium text-amber-400 bg-amber-900/20 px-2 py-1 rounded border border-amber-900/30">
+                                               <Clock className="w-3 h-3 mr-1.5" /> Retry in {Math.ceil((fileState.retryAt - now) / 1000)}s
+                                           </div>
+                                       ) : isUserRetryable(fileState.errorKind) && (
+                                           <button 
+                                                onClick={() => retryFile(index)}
+                                                className="flex items-center text-xs font-medium text-indigo-400 hover:text-indigo-300 bg-indigo-900/20 px-2 py-1 rounded hover:bg-indigo-900/40 border border-indigo-900/30 transition-all"
+                                           >
+                                               <RefreshCw className="w-3 h-3 mr-1.5" /> Retry
+                                           </button>
+                                       )}
                                        <button onClick={() => handleRemoveFile(index)} className="text-slate-600 hover:text-red-400 text-xs">
                                            Remove
                                        </button>
@@ -315,9 +424,9 @@ export const ContractUpload: React.FC<ContractUploadProps> = ({ user, onUploadCo
                    ) : (
                        <button 
                         onClick={handleAnalyzeAll}
-                        disabled={hasProcessing || (files.length > 0 && files.every(f => f.status === 'success')) || files.length === 0}
+                        disabled={hasProcessing || actionableCount === 0}
                         className={`flex items-center px-8 py-3 rounded-xl font-bold text-white transition-all shadow-lg 
-                            ${hasProcessing || files.length === 0 || (files.every(f => f.status === 'success'))
+                            ${hasProcessing || actionableCount === 0
                                 ? 'bg-slate-700 cursor-not-allowed text-slate-400' 
                                 : 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-900/30 hover:shadow-indigo-900/50 hover:-translate-y-1'
                             }`}
@@ -1,25 +1,29 @@
 import React, { useEffect, useState } from 'react';
-import { Contract, User, RecentAnalysis, RiskLevel } from '../types';
+import { Contract, User, RecentAnalysis, RiskLevel, SavedComparison } from '../types';
 import { storageService } from '../services/storageService';
-import { FileText, Plus, ChevronRight, Clock, Search, ArrowUpDown, History, Trash2, CheckSquare, Square, SplitSquareHorizontal } from 'lucide-react';
+import { FileText, Plus, ChevronRight, Clock, Search, ArrowUpDown, History, Trash2, CheckSquare, Square, SplitSquareHorizontal, Scale, MessageCircle } from 'lucide-react';
 import { RiskBadge } from './RiskBadge';
+import { getContractTypeLabel } from '../services/contractTemplates';
+import { UpcomingDeadlines } from './UpcomingDeadlines';
+import { findComparisonContracts, findSavedComparison } from '../services/comparisonHistory';
 
 interface DashboardProps {
   user: User;
   onNewUpload: () => void;
-  onSelectContract: (contract: Contract) => void;
-  onCompare: (contracts: Contract[]) => void;
+  onSelectContract: (contract: Contract, clauseId?: string) => void;
+  onCompare: (contracts: Contract[], savedComparison?: SavedComparison) => void;
 }
 
 export const Dashboard: React.FC<DashboardProps> = ({ user, onNewUpload, onSelectContract, onCompare }) => {
   const [contracts, setContracts] = useState<Contract[]>([]);
   const [recentAnalyses, setRecentAnalyses] = useState<RecentAnalysis[]>([]);
+  const [pastComparisons, setPastComparisons] = useState<SavedComparison[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [sortOrder, setSortOrder] = useState<string>('newest');
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   
-  const MAX_COMPARE = 3;
+  const MAX_COMPARE = 10;
 
   useEffect(() => {
     const loadData = async () => {
@@ -31,6 +35,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onNewUpload, onSelec
       // Load recent analyses cache
       const recent = storageService.getRecentAnalyses();
       setRecentAnalyses(recent);
+
+      setPastComparisons(storageService.getComparisons(user.id));
       
       setLoading(false);
     };
@@ -44,6 +50,17 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onNewUpload, onSelec
     }
   };
 
+  const handleOpenComparison = (comparison: SavedComparison) => {
+    const compared = findComparisonContracts(comparison, contracts);
+    if (compared.length === comparison.contractIds.length) onCompare(compared, comparison);
+  };
+
+  const handleDeleteComparison = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    storageService.deleteComparison(id);
+    setPastComparisons(prev => prev.filter(comparison => comparison.id !== id));
+  };
+
   const handleSelectRecent = (recent: RecentAnalysis) => {
     const contract: Contract = {
         id: recent.id,
@@ -77,7 +94,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onNewUpload, onSelec
       if (selectedIds.length >= 2) {
           const selectedContracts = contracts.filter(c => selectedIds.includes(c.id));
           if (selectedContracts.length >= 2) {
-              onCompare(selectedContracts);
+              // The same selection reopens its saved comparison instead of asking the AI again
+              const existing = findSavedComparison(pastComparisons, selectedContracts);
+              if (existing) onCompare(findComparisonContracts(existing, selectedContracts), existing);
+              else onCompare(selectedContracts);
           }
       }
   };
@@ -176,6 +196,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onNewUpload, onSelec
         </div>
       ) : (
         <div className="space-y-10">
+            <UpcomingDeadlines
+                contracts={contracts}
+                onOpenDeadline={onSelectContract}
+                style={{animationDelay: '0.15s'}}
+            />
+
             {/* Recent Analyses Section (Local Cache) */}
             {recentAnalyses.length > 0 && (
                 <div className="animate-slide-up" style={{animationDelay: '0.2s'}}>
@@ -223,6 +249,66 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onNewUpload, onSelec
                 </div>
             )}
 
+            {/* Past Comparisons, reopened from storage without a new AI call */}
+            {pastComparisons.length > 0 && (
+                <div className="animate-slide-up" style={{animationDelay: '0.25s'}}>
+                    <h2 className="text-lg font-bold text-slate-200 flex items-center mb-4">
+                        <Scale className="w-5 h-5 mr-2 text-indigo-500" />
+                        Past Comparisons
+                    </h2>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                        {pastComparisons.map((comparison, index) => {
+                            const missing = comparison.contractIds.length - findComparisonContracts(comparison, contracts).length;
+                            const chatCount = Object.keys(comparison.differenceChats).filter(difference => comparison.differenceChats[difference].length > 0).length;
+                            return (
+                                <div
+                                    key={comparison.id}
+                                    onClick={() => handleOpenComparison(comparison)}
+                                    className={`relative bg-slate-900/80 backdrop-blur-sm border border-slate-800 rounded-lg p-4 transition-all group animate-scale-in ${
+                                        missing > 0 ? 'opacity-60 cursor-not-allowed' : 'hover:border-indigo-500/50 hover:shadow-md cursor-pointer hover-lift'
+                                    }`}
+                                    style={{animationDelay: `${index * 50}ms`}}
+                                    title={missing > 0 ? 'Some of these contracts have been deleted' : undefined}
+                                >
+                                    <div className="flex justify-between items-start mb-2">
+                                        <div className="px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide bg-indigo-900/30 text-indigo-400">
+                                            {comparison.contractIds.length} contracts
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <div className="text-[10px] text-slate-500 font-medium">
+                                                {new Date(comparison.createdAt).toLocaleDateString()}
+                                            </div>
+                                            <button
+                                                onClick={(e) => handleDeleteComparison(e, comparison.id)}
+                                                className="text-slate-600 hover:text-red-400 p-1 rounded hover:bg-slate-800 opacity-0 group-hover:opacity-100 transition-opacity"
+                                                title="Delete comparison"
+                                            >
+                                                <Trash2 className="w-3 h-3" />
+                                            </button>
+                                        </div>
+                                    </div>
+                                    <h3 className="font-semibold text-slate-200 text-sm line-clamp-2 mb-2" title={comparison.contractNames.join('\n')}>
+                                        {comparison.contractNames.join(' vs ')}
+                                    </h3>
+                                    <div className="text-xs text-slate-500 flex items-center gap-3">
+                                        {missing > 0 ? (
+                                            <span className="text-amber-400">{missing} contract{missing > 1 ? 's' : ''} deleted</span>
+                                        ) : (
+                                            <span>{comparison.result.keyDifferences.length} key differences</span>
+                                        )}
+                                        {chatCount > 0 && (
+                                            <span className="flex items-center text-indigo-400">
+                                                <MessageCircle className="w-3 h-3 mr-1" /> {chatCount} discussed
+                                            </span>
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+
             {/* Main Saved Contracts */}
             <div className="animate-slide-up" style={{animationDelay: '0.3s'}}>
                 <h2 className="text-lg font-bold text-slate-200 mb-4">Saved Documents</h2>
@@ -283,6 +369,21 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, onNewUpload, onSelec
                         <h3 className="font-semibold text-slate-100 mb-2 truncate pr-8" title={contract.fileName}>
                             {contract.fileName}
                         </h3>
+
+                        {(contract.analysis?.contractType || contract.revisionOf) && (
+                            <div className="flex flex-wrap gap-1.5 mb-2">
+                                {contract.analysis?.contractType && (
+                                    <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide bg-slate-800 text-slate-400">
+                                        {getContractTypeLabel(contract.analysis.contractType)}
+                                    </span>
+                                )}
+                                {contract.revisionOf && (
+                                    <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide bg-indigo-900/30 text-indigo-300">
+                                        Revised draft
+                                    </span>
+                                )}
+                            </div>
+                        )}
                         
                         {contract.analysis && (
                             <p className="text-slate-400 text-sm line-clamp-2 flex-grow">
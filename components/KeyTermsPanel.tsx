@@ -0,0 +1,62 @@
+import React from 'react';
+import { Users, CalendarDays, CalendarX, Repeat, BellRing, Banknote, Landmark, Gavel, ListChecks } from 'lucide-react';
+import { KeyTerms } from '../types';
+import { KeyTermId, describeKeyTerms } from '../services/keyTerms';
+
+interface KeyTermsPanelProps {
+  keyTerms: KeyTerms;
+  style?: React.CSSProperties;
+}
+
+const KEY_TERM_ICONS: Record<KeyTermId, React.ElementType> = {
+  parties: Users,
+  effectiveDate: CalendarDays,
+  expiryDate: CalendarX,
+  renewalTerms: Repeat,
+  noticePeriod: BellRing,
+  payments: Banknote,
+  governingLaw: Landmark,
+  venue: Gavel,
+};
+
+export const KeyTermsPanel: React.FC<KeyTermsPanelProps> = ({ keyTerms, style }) => {
+  const rows = describeKeyTerms(keyTerms);
+
+  return (
+    <div
+      className="bg-slate-900/80 backdrop-blur rounded-2xl shadow-sm border border-slate-800 p-6 animate-slide-up"
+      style={style}
+    >
+      <h3 className="text-lg font-semibold text-slate-200 mb-4 flex items-center">
+        <ListChecks className="w-5 h-5 mr-2 text-indigo-500" />
+        Key Terms
+      </h3>
+
+      <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-3">
+        {rows.map(row => {
+          const Icon = KEY_TERM_ICONS[row.id];
+          return (
+            <div
+              key={row.id}
+              className={`bg-slate-800/50 p-3 rounded-xl border border-slate-800 ${row.items ? 'sm:col-span-2' : ''}`}
+            >
+              <div className="flex items-center text-xs font-semibold text-slate-400 uppercase tracking-wide mb-1">
+                <Icon className="w-3.5 h-3.5 mr-1.5 text-indigo-400" />
+                {row.label}
+              </div>
+              {row.items && row.items.length > 1 ? (
+                <ul className="text-sm text-slate-200 space-y-0.5 list-disc list-inside">
+                  {row.items.map((item, index) => <li key={index}>{item}</li>)}
+                </ul>
+              ) : (
+                <div className={`text-sm ${row.value ? 'text-slate-200' : 'text-slate-500 italic'}`}>
+                  {row.value || 'Not stated'}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import { ShieldOff, ShieldCheck, CheckCircle2 } from 'lucide-react';
+import { ProtectionReport } from '../services/contractTemplates';
+
+interface MissingProtectionsPanelProps {
+  report: ProtectionReport;
+  contractTypeLabel: string;
+  onShowClause: (clauseId: string) => void;
+  style?: React.CSSProperties;
+}
+
+export const MissingProtectionsPanel: React.FC<MissingProtectionsPanelProps> = ({ report, contractTypeLabel, onShowClause, style }) => {
+  const checkedCount = report.missing.length + report.present.length;
+
+  return (
+    <div
+      className="bg-slate-900/80 backdrop-blur rounded-2xl shadow-sm border border-slate-800 p-6 animate-slide-up"
+      style={style}
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold text-slate-200 flex items-center">
+          <ShieldOff className="w-5 h-5 mr-2 text-indigo-500" />
+          Missing Protections
+        </h3>
+        <span className="text-xs text-slate-500">
+          {report.present.length} of {checkedCount} expected protections found ({contractTypeLabel} checklist)
+        </span>
+      </div>
+
+      {report.missing.length === 0 ? (
+        <div className="flex items-center text-sm text-emerald-400 bg-emerald-950/20 p-3 rounded-lg border border-emerald-900/30">
+          <ShieldCheck className="w-4 h-4 mr-2 shrink-0" />
+          Every protection on the checklist was found in this contract.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {report.missing.map(item => (
+            <div key={item.id} className="flex items-start gap-3 bg-red-950/20 p-3 rounded-lg border border-red-900/30">
+              <ShieldOff className="w-4 h-4 mt-0.5 text-red-400 shrink-0" />
+              <div className="text-sm">
+                <div className="font-medium text-slate-200">{item.label}</div>
+                <p className="text-slate-400 mt-0.5">{item.whyItMatters}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {report.present.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-4">
+          {report.present.map(({ item, clauseId }) => (
+            <button
+              key={item.id}
+              onClick={() => clauseId && onShowClause(clauseId)}
+              disabled={!clauseId}
+              className="flex items-center text-xs text-emerald-300 bg-emerald-950/20 px-2.5 py-1 rounded-full border border-emerald-900/40 enabled:hover:border-emerald-500/50 disabled:cursor-default"
+              title={clauseId ? 'Show the clause providing this protection' : undefined}
+            >
+              <CheckCircle2 className="w-3 h-3 mr-1" />
+              {item.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
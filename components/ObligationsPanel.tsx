@@ -0,0 +1,96 @@
+import React from 'react';
+import { BellRing, Banknote, DoorOpen, ClipboardList, CalendarClock, CalendarPlus, Repeat } from 'lucide-react';
+import { Contract, Obligation, ObligationCategory } from '../types';
+import { OBLIGATION_CATEGORY_LABELS, RECURRENCE_LABELS, collectUpcomingDeadlines, getNextOccurrence, toDateString } from '../services/deadlines';
+import { downloadDeadlineCalendar } from '../services/calendarExport';
+import { formatTermDate } from '../services/keyTerms';
+
+export const OBLIGATION_ICONS: Record<ObligationCategory, React.ElementType> = {
+  'renewal-notice': BellRing,
+  payment: Banknote,
+  termination: DoorOpen,
+  other: ClipboardList,
+};
+
+interface ObligationsPanelProps {
+  contract: Contract;
+  obligations: Obligation[];
+  onShowClause: (clauseId: string) => void;
+  style?: React.CSSProperties;
+}
+
+export const ObligationsPanel: React.FC<ObligationsPanelProps> = ({ contract, obligations, onShowClause, style }) => {
+  const today = toDateString(new Date());
+  const upcoming = collectUpcomingDeadlines([contract]);
+
+  // Dated obligations first, soonest first
+  const rows = obligations
+    .map(obligation => ({ obligation, nextDate: getNextOccurrence(obligation, today) }))
+    .sort((a, b) => (a.nextDate || '9999').localeCompare(b.nextDate || '9999'));
+
+  const handleExport = () => {
+    downloadDeadlineCalendar(upcoming, `${contract.fileName.replace(/\.[^.]+$/, '')}_deadlines.ics`);
+  };
+
+  return (
+    <div
+      className="bg-slate-900/80 backdrop-blur rounded-2xl shadow-sm border border-slate-800 p-6 animate-slide-up"
+      style={style}
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold text-slate-200 flex items-center">
+          <CalendarClock className="w-5 h-5 mr-2 text-indigo-500" />
+          Obligations &amp; Deadlines
+        </h3>
+        {upcoming.length > 0 && (
+          <button
+            onClick={handleExport}
+            className="flex items-center text-xs font-medium text-indigo-400 hover:text-indigo-300 px-3 py-1.5 rounded-lg hover:bg-indigo-900/20 transition-colors"
+          >
+            <CalendarPlus className="w-4 h-4 mr-1.5" />
+            Add to calendar (.ics)
+          </button>
+        )}
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-slate-500 italic">No obligations or deadlines were found in this contract.</p>
+      ) : (
+        <div className="space-y-2">
+          {rows.map(({ obligation, nextDate }) => {
+            const Icon = OBLIGATION_ICONS[obligation.category];
+            return (
+              <div key={obligation.id} className="flex items-start gap-3 bg-slate-800/50 p-3 rounded-xl border border-slate-800">
+                <Icon className="w-4 h-4 mt-0.5 text-indigo-400 shrink-0" />
+                <div className="flex-1 min-w-0 text-sm">
+                  <div className="text-slate-200">{obligation.description}</div>
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-xs text-slate-500">
+                    <span className="font-semibold uppercase tracking-wide">{OBLIGATION_CATEGORY_LABELS[obligation.category]}</span>
+                    <span className={nextDate ? 'text-slate-300' : 'italic'}>
+                      {nextDate ? `Next: ${formatTermDate(nextDate)}` : obligation.dueDate ? `Was due ${formatTermDate(obligation.dueDate)}` : 'No fixed date'}
+                    </span>
+                    {obligation.recurrence !== 'none' && (
+                      <span className="flex items-center">
+                        <Repeat className="w-3 h-3 mr-1" />
+                        {RECURRENCE_LABELS[obligation.recurrence]}
+                      </span>
+                    )}
+                    {obligation.party && <span>{obligation.party}</span>}
+                  </div>
+                </div>
+                {obligation.clauseId && (
+                  <button
+                    onClick={() => onShowClause(obligation.clauseId!)}
+                    className="text-xs font-medium text-indigo-400 hover:text-indigo-300 whitespace-nowrap"
+                  >
+                    View clause
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { BookMarked, Pencil, Trash2, Plus, X, Save } from 'lucide-react';
+import { PlaybookRule, RiskLevel } from '../types';
+import { storageService } from '../services/storageService';
+import { MAX_PLAYBOOK_RULES, createPlaybookRuleId } from '../services/playbook';
+import { RiskBadge } from './RiskBadge';
+
+interface PlaybookEditorProps {
+  userId: string;
+}
+
+interface RuleDraft {
+  id?: string; // Set when editing an existing rule
+  name: string;
+  description: string;
+  severity: RiskLevel;
+}
+
+const EMPTY_DRAFT: RuleDraft = { name: '', description: '', severity: RiskLevel.HIGH };
+
+const INPUT_CLASSES = "w-full px-4 py-2 bg-slate-800 text-slate-100 border border-slate-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all placeholder-slate-500";
+
+export const PlaybookEditor: React.FC<PlaybookEditorProps> = ({ userId }) => {
+  const [rules, setRules] = useState<PlaybookRule[]>(() => storageService.getPlaybookRules(userId));
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+
+  const saveRules = (next: PlaybookRule[]) => {
+    setRules(next);
+    storageService.savePlaybookRules(userId, next);
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft || !draft.name.trim()) return;
+
+    const rule: PlaybookRule = {
+      id: draft.id || createPlaybookRuleId(),
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      severity: draft.severity,
+    };
+    saveRules(draft.id ? rules.map(item => item.id === draft.id ? rule : item) : [...rules, rule]);
+    setDraft(null);
+  };
+
+  const handleDelete = (rule: PlaybookRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return;
+    saveRules(rules.filter(item => item.id !== rule.id));
+    if (draft?.id === rule.id) setDraft(null);
+  };
+
+  return (
+    <div className="bg-slate-900 p-8 rounded-2xl shadow-sm border border-slate-800">
+      <h4 className="font-semibold text-slate-200 mb-1 flex items-center">
+        <BookMarked className="w-5 h-5 mr-2 text-indigo-500" />
+        Risk Playbook
+      </h4>
+      <p className="text-xs text-slate-500 mb-6">
+        Your own red lines. Every new analysis checks the contract against them and lists the clauses that break a rule.
+      </p>
+
+      {rules.length === 0 && !draft && (
+        <p className="text-sm text-slate-500 italic mb-4">No rules yet. Add one like "Non-compete longer than 12 months".</p>
+      )}
+
+      <div className="space-y-3">
+        {rules.map(rule => (
+          <div key={rule.id} className="flex items-start gap-3 bg-slate-800/50 p-3 rounded-lg border border-slate-800">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="text-sm font-medium text-slate-200">{rule.name}</span>
+                <RiskBadge level={rule.severity} size="sm" />
+              </div>
+              {rule.description && <p className="text-xs text-slate-400 mt-1">{rule.description}</p>}
+            </div>
+            <button
+              onClick={() => setDraft({ ...rule })}
+              className="p-1.5 text-slate-400 hover:text-indigo-400 transition-colors"
+              title="Edit rule"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => handleDelete(rule)}
+              className="p-1.5 text-slate-400 hover:text-red-400 transition-colors"
+              title="Delete rule"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {draft ? (
+        <div className="mt-4 space-y-4 bg-slate-800/30 p-4 rounded-xl border border-slate-700 animate-fade-in">
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Rule name</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Payment terms over net-45"
+              maxLength={80}
+              className={INPUT_CLASSES}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">What it forbids (optional)</label>
+            <textarea
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              placeholder="We never accept paying invoices later than 45 days after receipt."
+              maxLength={500}
+              rows={2}
+              className={INPUT_CLASSES}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">Severity</label>
+            <select
+              value={draft.severity}
+              onChange={(e) => setDraft({ ...draft, severity: e.target.value as RiskLevel })}
+              className={INPUT_CLASSES}
+            >
+              <option value={RiskLevel.HIGH}>High</option>
+              <option value={RiskLevel.MEDIUM}>Medium</option>
+              <option value={RiskLevel.LOW}>Low</option>
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleSaveDraft}
+              disabled={!draft.name.trim()}
+              className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {draft.id ? 'Save Rule' : 'Add Rule'}
+            </button>
+            <button
+              onClick={() => setDraft(null)}
+              className="px-4 py-2 rounded-lg text-sm font-medium text-slate-400 hover:text-slate-200 transition-colors flex items-center"
+            >
+              <X className="w-4 h-4 mr-1" />
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setDraft({ ...EMPTY_DRAFT })}
+          disabled={rules.length >= MAX_PLAYBOOK_RULES}
+          className="mt-4 flex items-center text-sm font-medium text-indigo-400 hover:text-indigo-300 transition-colors disabled:opacity-50"
+          title={rules.length >= MAX_PLAYBOOK_RULES ? `A playbook can have up to ${MAX_PLAYBOOK_RULES} rules` : undefined}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Rule
+        </button>
+      )}
+
+      {rules.length > 0 && (
+        <p className="text-xs text-slate-500 mt-4">Changes apply to new analyses. Re-analyze a contract to check it against the current rules.</p>
+      )}
+    </div>
+  );
+};
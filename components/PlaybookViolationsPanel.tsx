@@ -0,0 +1,65 @@
+import React from 'react';
+import { BookMarked, CheckCircle2, ArrowRight } from 'lucide-react';
+import { PlaybookViolation, RiskLevel } from '../types';
+import { RiskBadge } from './RiskBadge';
+
+interface PlaybookViolationsPanelProps {
+  violations: PlaybookViolation[];
+  onShowClause: (clauseId: string) => void;
+  style?: React.CSSProperties;
+}
+
+const SEVERITY_ORDER: Record<RiskLevel, number> = {
+  [RiskLevel.HIGH]: 0,
+  [RiskLevel.MEDIUM]: 1,
+  [RiskLevel.LOW]: 2,
+};
+
+export const PlaybookViolationsPanel: React.FC<PlaybookViolationsPanelProps> = ({ violations, onShowClause, style }) => {
+  const sorted = [...violations].sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+  return (
+    <div
+      className="bg-slate-900/80 backdrop-blur rounded-2xl shadow-sm border border-slate-800 p-6 animate-slide-up"
+      style={style}
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold text-slate-200 flex items-center">
+          <BookMarked className="w-5 h-5 mr-2 text-indigo-500" />
+          Playbook Violations
+        </h3>
+        <span className="text-xs text-slate-500">Checked against your risk playbook</span>
+      </div>
+
+      {sorted.length === 0 ? (
+        <div className="flex items-center text-sm text-emerald-400 bg-emerald-950/20 p-3 rounded-lg border border-emerald-900/30">
+          <CheckCircle2 className="w-4 h-4 mr-2 shrink-0" />
+          No clause breaks any of your playbook rules.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {sorted.map((violation, index) => (
+            <div key={`${violation.ruleId}-${violation.clauseId || index}`} className="bg-slate-800/50 p-3 rounded-lg border border-slate-800">
+              <div className="flex items-center justify-between gap-2 flex-wrap">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-slate-200">{violation.ruleName}</span>
+                  <RiskBadge level={violation.severity} size="sm" />
+                </div>
+                {violation.clauseId && (
+                  <button
+                    onClick={() => onShowClause(violation.clauseId!)}
+                    className="flex items-center text-xs text-indigo-400 hover:text-indigo-300 transition-colors"
+                  >
+                    Show clause
+                    <ArrowRight className="w-3 h-3 ml-1" />
+                  </button>
+                )}
+              </div>
+              {violation.explanation && <p className="text-sm text-slate-400 mt-1">{violation.explanation}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { User, Contract } from '../types';
+import { User, Contract, AppSettings, AIProviderName } from '../types';
 import { storageService } from '../services/storageService';
-import { User as UserIcon, Mail, Save, BarChart3, Shield, Clock, ArrowLeft } from 'lucide-react';
+import { isProxyEnabled } from '../services/apiClient';
+import { DEFAULT_OUTPUT_LANGUAGE, DOCUMENT_LANGUAGE, LANGUAGES } from '../services/languages';
+import { PlaybookEditor } from './PlaybookEditor';
+import { User as UserIcon, Mail, Save, BarChart3, Shield, Clock, ArrowLeft, Cpu, Languages } from 'lucide-react';
 
 interface ProfileViewProps {
   user: User;
@@ -14,6 +17,8 @@ export const ProfileView: React.FC<ProfileViewProps> = ({ user, onUpdateUser, on
   const [contracts, setContracts] = useState<Contract[]>([]);
   const [isSaving, setIsSaving] = useState(false);
   const [message, setMessage] = useState('');
+  const [settings, setSettings] = useState<AppSettings>(() => storageService.getSettings());
+  const [settingsMessage, setSettingsMessage] = useState('');
 
   useEffect(() => {
     const userContracts = storageService.getContracts(user.id);
@@ -35,6 +40,22 @@ export const ProfileView: React.FC<ProfileViewProps> = ({ user, onUpdateUser, on
     setTimeout(() => setMessage(''), 3000);
   };
 
+  const handleSaveSettings = () => {
+    storageService.saveSettings(settings);
+    setSettingsMessage('AI settings saved.');
+    setTimeout(() => setSettingsMessage(''), 3000);
+  };
+
+  // Saved right away, independently of unsaved provider changes
+  const handleOutputLanguageChange = (outputLanguage: string) => {
+    setSettings(prev => ({ ...prev, outputLanguage }));
+    storageService.saveSettings({ ...storageService.getSettings(), outputLanguage });
+  };
+
+  const updateSetting = <K extends keyof AppSettings>(key: K, value: AppSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
   const stats = {
     total: contracts.length,
     highRisk: contracts.filter(c => c.analysis?.overallRisk === 'High').length,
@@ -118,6 +139,113 @@ export const ProfileView: React.FC<ProfileViewProps> = ({ user, onUpdateUser, on
                     </div>
                 </div>
             </div>
+
+            {/* Output Language */}
+            <div className="bg-slate-900 p-8 rounded-2xl shadow-sm border border-slate-800">
+                <h4 className="font-semibold text-slate-200 mb-1 flex items-center">
+                    <Languages className="w-5 h-5 mr-2 text-indigo-500" />
+                    Output Language
+                </h4>
+                <p className="text-xs text-slate-500 mb-6">Language for summaries, clause explanations and chat answers. Contract text is always kept in its original language.</p>
+                <select
+                    value={settings.outputLanguage || DEFAULT_OUTPUT_LANGUAGE}
+                    onChange={(e) => handleOutputLanguageChange(e.target.value)}
+                    className="w-full px-4 py-2 bg-slate-800 text-slate-100 border border-slate-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                >
+                    <option value={DOCUMENT_LANGUAGE}>Same as the contract</option>
+                    {LANGUAGES.map(language => (
+                        <option key={language.code} value={language.code}>
+                            {language.name === language.nativeName ? language.name : `${language.name} (${language.nativeName})`}
+                        </option>
+                    ))}
+                </select>
+                <p className="text-xs text-slate-500 mt-2">Applies to new analyses. Existing contracts keep their language until re-analyzed.</p>
+            </div>
+
+            <PlaybookEditor userId={user.id} />
+
+            {/* AI Provider Settings */}
+            <div className="bg-slate-900 p-8 rounded-2xl shadow-sm border border-slate-800">
+                <h4 className="font-semibold text-slate-200 mb-1 flex items-center">
+                    <Cpu className="w-5 h-5 mr-2 text-indigo-500" />
+                    AI Provider
+                </h4>
+                {isProxyEnabled() ? (
+                <p className="text-xs text-slate-500">AI requests are handled by the LegalLens server, which decides the provider. Ask your administrator to change it.</p>
+                ) : (
+                <>
+                <p className="text-xs text-slate-500 mb-6">Choose where your contracts are sent for analysis.</p>
+
+                <div className="space-y-6">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-1">Provider</label>
+                        <select
+                            value={settings.aiProvider || ''}
+                            onChange={(e) => updateSetting('aiProvider', (e.target.value || undefined) as AIProviderName | undefined)}
+                            className="w-full px-4 py-2 bg-slate-800 text-slate-100 border border-slate-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                        >
+                            <option value="">Default (from configuration)</option>
+                            <option value="gemini">Google Gemini</option>
+                            <option value="openai">OpenAI-compatible / local endpoint</option>
+                            <option value="mock">Offline mock (no AI calls)</option>
+                        </select>
+                    </div>
+
+                    {settings.aiProvider === 'openai' && (
+                        <div className="space-y-4 animate-fade-in">
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-1">Base URL</label>
+                                <input
+                                    type="text"
+                                    value={settings.openAIBaseUrl}
+                                    onChange={(e) => updateSetting('openAIBaseUrl', e.target.value)}
+                                    placeholder="http://localhost:8080/v1"
+                                    className="w-full px-4 py-2 bg-slate-800 text-slate-100 border border-slate-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all placeholder-slate-500"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-1">Model</label>
+                                <input
+                                    type="text"
+                                    value={settings.openAIModel}
+                                    onChange={(e) => updateSetting('openAIModel', e.target.value)}
+                                    placeholder="local-model"
+                                    className="w-full px-4 py-2 bg-slate-800 text-slate-100 border border-slate-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all placeholder-slate-500"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-1">API Key (optional)</label>
+                                <input
+                                    type="password"
+                                    value={settings.openAIApiKey || ''}
+                                    onChange={(e) => updateSetting('openAIApiKey', e.target.value || undefined)}
+                                    className="w-full px-4 py-2 bg-slate-800 text-slate-100 border border-slate-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                                />
+                                <p className="text-xs text-slate-500 mt-1">The endpoint must support JSON mode. PDFs are sent as file attachments, images as image inputs.</p>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="pt-2 flex items-center">
+                        <button
+                            onClick={handleSaveSettings}
+                            disabled={settings.aiProvider === 'openai' && (!settings.openAIBaseUrl.trim() || !settings.openAIModel.trim())}
+                            className="bg-indigo-600 text-white px-6 py-2.5 rounded-lg font-medium hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center shadow-lg shadow-indigo-900/30 hover:shadow-indigo-900/50 transform active:scale-95 duration-150"
+                        >
+                            <Save className="w-4 h-4 mr-2" />
+                            Save AI Settings
+                        </button>
+                        {settingsMessage && (
+                            <span className="ml-4 text-emerald-400 text-sm font-medium animate-fade-in flex items-center">
+                                <div className="w-1.5 h-1.5 bg-emerald-400 rounded-full mr-2"></div>
+                                {settingsMessage}
+                            </span>
+                        )}
+                    </div>
+                </div>
+                </>
+                )}
+            </div>
         </div>
 
         {/* Stats Card */}
@@ -0,0 +1,22 @@
+import React from 'react';
+import { DiffPart } from '../services/textDiff';
+
+interface RedlineDiffProps {
+  parts: DiffPart[];
+  className?: string;
+}
+
+// Deleted wording struck through in red, inserted wording underlined in green
+export const RedlineDiff: React.FC<RedlineDiffProps> = ({ parts, className = '' }) => (
+  <div className={`whitespace-pre-wrap leading-relaxed ${className}`}>
+    {parts.map((part, index) => {
+      if (part.op === 'removed') {
+        return <del key={index} className="bg-red-500/15 text-red-300 line-through decoration-red-400/70">{part.text}</del>;
+      }
+      if (part.op === 'added') {
+        return <ins key={index} className="bg-emerald-500/15 text-emerald-200 no-underline border-b border-emerald-400/60">{part.text}</ins>;
+      }
+      return <span key={index}>{part.text}</span>;
+    })}
+  </div>
+);
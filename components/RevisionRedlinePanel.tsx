@@ -0,0 +1,97 @@
+import React, { useMemo, useState } from 'react';
+import { GitCompare, ChevronDown, ChevronUp } from 'lucide-react';
+import { Contract } from '../types';
+import { compareWithPreviousDraft, getDraftChain } from '../services/revisions';
+import { collapseUnchanged, countChangedWords } from '../services/textDiff';
+import { AnalysisDiffDetails } from './AnalysisDiffDetails';
+import { RedlineDiff } from './RedlineDiff';
+
+interface RevisionRedlinePanelProps {
+  contract: Contract;
+  style?: React.CSSProperties;
+}
+
+export const RevisionRedlinePanel: React.FC<RevisionRedlinePanelProps> = ({ contract, style }) => {
+  const comparison = useMemo(() => compareWithPreviousDraft(contract), [contract]);
+  const round = useMemo(() => getDraftChain(contract).length, [contract]);
+  const [isOpen, setIsOpen] = useState(true);
+  const [changesOnly, setChangesOnly] = useState(true);
+
+  const textDiff = comparison?.textDiff;
+  const wordCounts = useMemo(() => textDiff ? countChangedWords(textDiff) : null, [textDiff]);
+  const visibleText = useMemo(
+    () => textDiff && changesOnly ? collapseUnchanged(textDiff) : textDiff,
+    [textDiff, changesOnly]
+  );
+
+  if (!contract.revisionOf) return null;
+
+  return (
+    <div
+      className="bg-slate-900/80 backdrop-blur rounded-2xl shadow-sm border border-slate-800 p-6 animate-slide-up"
+      style={style}
+    >
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between gap-2 text-left">
+        <h3 className="text-lg font-semibold text-slate-200 flex items-center">
+          <GitCompare className="w-5 h-5 mr-2 text-indigo-500" />
+          Changes from Previous Draft
+        </h3>
+        <span className="flex items-center text-xs text-slate-500 shrink-0">
+          Round {round}
+          {isOpen ? <ChevronUp className="w-4 h-4 ml-1" /> : <ChevronDown className="w-4 h-4 ml-1" />}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-5 animate-fade-in">
+          {!comparison ? (
+            <p className="text-sm text-slate-500 italic">The previous draft has been deleted, so there is nothing to compare against.</p>
+          ) : (
+            <>
+              <p className="text-sm text-slate-400">
+                Compared with <span className="font-medium text-slate-200">{comparison.previous.fileName}</span>, uploaded {new Date(comparison.previous.uploadDate).toLocaleDateString()}.
+              </p>
+
+              {comparison.changes && <AnalysisDiffDetails diff={comparison.changes} />}
+
+              <div>
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-2">
+                  <h4 className="text-sm font-semibold text-slate-300">
+                    Text redline
+                    {wordCounts && (
+                      <span className="ml-2 font-normal text-xs">
+                        <span className="text-emerald-400">+{wordCounts.added} words</span>{' '}
+                        <span className="text-red-400">−{wordCounts.removed} words</span>
+                      </span>
+                    )}
+                  </h4>
+                  {textDiff && (
+                    <label className="flex items-center text-xs text-slate-400 cursor-pointer select-none">
+                      <input
+                        type="checkbox"
+                        checked={changesOnly}
+                        onChange={(e) => setChangesOnly(e.target.checked)}
+                        className="mr-2 accent-indigo-500"
+                      />
+                      Only show changed passages
+                    </label>
+                  )}
+                </div>
+                {!visibleText ? (
+                  <p className="text-sm text-slate-500 italic">The full text of one of the drafts isn't available, so only the clause changes are shown.</p>
+                ) : wordCounts && wordCounts.added === 0 && wordCounts.removed === 0 ? (
+                  <p className="text-sm text-slate-500 italic">The wording of the two drafts is identical.</p>
+                ) : (
+                  <RedlineDiff
+                    parts={visibleText}
+                    className="text-sm text-slate-300 bg-slate-800/50 p-4 rounded-lg border border-slate-800 max-h-[32rem] overflow-y-auto"
+                  />
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
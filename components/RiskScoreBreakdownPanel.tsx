@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Calculator, ChevronDown, ChevronUp } from 'lucide-react';
+import { Clause, RiskLevel } from '../types';
+import { COUNT_DECAY, LEVEL_POINTS, MAX_RISK_SCORE, RISK_CATEGORY_WEIGHTS, RiskScoreBreakdown, SCORE_BANDS } from '../services/riskScore';
+import { RiskBadge } from './RiskBadge';
+
+interface RiskScoreBreakdownPanelProps {
+  breakdown: RiskScoreBreakdown;
+  clauses: Clause[];
+  modelRiskScore?: number;
+  onShowClause: (clauseId: string) => void;
+  style?: React.CSSProperties;
+}
+
+const BAR_COLORS: Record<RiskLevel, string> = {
+  [RiskLevel.HIGH]: 'bg-red-500',
+  [RiskLevel.MEDIUM]: 'bg-amber-500',
+  [RiskLevel.LOW]: 'bg-emerald-500',
+};
+
+// Clauses beyond this are folded away until expanded
+const COLLAPSED_ROWS = 6;
+
+export const RiskScoreBreakdownPanel: React.FC<RiskScoreBreakdownPanelProps> = ({ breakdown, clauses, modelRiskScore, onShowClause, style }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [showMethod, setShowMethod] = useState(false);
+
+  const rows = expanded ? breakdown.contributions : breakdown.contributions.slice(0, COLLAPSED_ROWS);
+  const maxPoints = Math.max(...breakdown.contributions.map(item => item.points), 1);
+
+  return (
+    <div
+      className="bg-slate-900/80 backdrop-blur rounded-2xl shadow-sm border border-slate-800 p-6 animate-slide-up"
+      style={style}
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4">
+        <h3 className="text-lg font-semibold text-slate-200 flex items-center">
+          <Calculator className="w-5 h-5 mr-2 text-indigo-500" />
+          Risk Score Breakdown
+        </h3>
+        <span className="text-xs text-slate-500">
+          Score {breakdown.score}/{MAX_RISK_SCORE}
+          {breakdown.uncappedTotal > MAX_RISK_SCORE && ` (${breakdown.uncappedTotal} points, capped)`}
+          {typeof modelRiskScore === 'number' && ` · AI estimate ${modelRiskScore}`}
+        </span>
+      </div>
+
+      {breakdown.contributions.length === 0 ? (
+        <p className="text-sm text-slate-500 italic">No clauses were identified, so the score is 0.</p>
+      ) : (
+        <div className="space-y-2">
+          {rows.map(item => {
+            const clauseIndex = clauses.findIndex(clause => clause.id === item.clauseId);
+            const clause = clauses[clauseIndex];
+            return (
+              <button
+                key={item.clauseId}
+                onClick={() => onShowClause(item.clauseId)}
+                className="w-full text-left bg-slate-800/50 hover:bg-slate-800 p-3 rounded-lg border border-slate-800 hover:border-slate-700 transition-colors"
+                title="Show this clause"
+              >
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-xs font-mono text-slate-500 shrink-0">#{clauseIndex + 1}</span>
+                    <span className="text-sm text-slate-200 truncate">{clause?.explanation || clause?.text}</span>
+                  </div>
+                  <span className="text-sm font-bold text-slate-100 shrink-0">+{item.points}</span>
+                </div>
+                <div className="flex items-center gap-2 mt-2 text-xs text-slate-500 flex-wrap">
+                  <RiskBadge level={item.riskLevel} size="sm" />
+                  <span>{item.category}</span>
+                  <span className="font-mono">
+                    {item.basePoints} × {item.categoryWeight} × {item.countFactor}
+                  </span>
+                </div>
+                <div className="w-full h-1 bg-slate-800 rounded-full mt-2 overflow-hidden">
+                  <div className={`h-full rounded-full ${BAR_COLORS[item.riskLevel]}`} style={{ width: `${(item.points / maxPoints) * 100}%` }} />
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mt-4 gap-4">
+        {breakdown.contributions.length > COLLAPSED_ROWS ? (
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="flex items-center text-xs font-medium text-indigo-400 hover:text-indigo-300 transition-colors"
+          >
+            {expanded ? <ChevronUp className="w-3.5 h-3.5 mr-1" /> : <ChevronDown className="w-3.5 h-3.5 mr-1" />}
+            {expanded ? 'Show fewer' : `Show all ${breakdown.contributions.length} clauses`}
+          </button>
+        ) : <span />}
+        <button
+          onClick={() => setShowMethod(!showMethod)}
+          className="text-xs font-medium text-slate-400 hover:text-indigo-400 transition-colors"
+        >
+          How is this calculated?
+        </button>
+      </div>
+
+      {showMethod && (
+        <div className="mt-3 text-xs text-slate-400 bg-slate-800/30 p-4 rounded-lg border border-slate-800 space-y-2 animate-fade-in">
+          <p>
+            Each clause adds points: its risk level ({Object.entries(LEVEL_POINTS).map(([level, points]) => `${level} ${points}`).join(', ')})
+            × a weight for the kind of risk × a count factor.
+          </p>
+          <p>
+            Weights: {RISK_CATEGORY_WEIGHTS.map(item => `${item.category} ${item.weight}`).join(', ')}, anything else 1.
+          </p>
+          <p>
+            Clauses are ranked from riskiest to least risky, and the count factor is {COUNT_DECAY} raised to the clause's
+            rank, so many small risks don't outweigh a few serious ones. The total is capped at {MAX_RISK_SCORE}.
+          </p>
+          <p>
+            The score always falls in the band of the riskiest clause
+            ({Object.entries(SCORE_BANDS).map(([level, band]) => `${level} ${band.min}-${band.max}`).join(', ')}).
+          </p>
+          <p>The AI's own estimate is shown for reference only.</p>
+        </div>
+      )}
+    </div>
+  );
+};
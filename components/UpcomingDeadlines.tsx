@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarClock, CalendarPlus, ChevronDown } from 'lucide-react';
+import { Contract } from '../types';
+import { Deadline, OBLIGATION_CATEGORY_LABELS, collectUpcomingDeadlines } from '../services/deadlines';
+import { downloadDeadlineCalendar } from '../services/calendarExport';
+import { OBLIGATION_ICONS } from './ObligationsPanel';
+
+interface UpcomingDeadlinesProps {
+  contracts: Contract[];
+  onOpenDeadline: (contract: Contract, clauseId?: string) => void;
+  style?: React.CSSProperties;
+}
+
+const COLLAPSED_COUNT = 5;
+
+const urgencyStyle = (daysUntil: number): string => {
+  if (daysUntil <= 7) return 'bg-red-900/30 text-red-400 border-red-900/50';
+  if (daysUntil <= 30) return 'bg-amber-900/30 text-amber-400 border-amber-900/50';
+  return 'bg-slate-800 text-slate-400 border-slate-700';
+};
+
+const describeDaysUntil = (daysUntil: number): string => {
+  if (daysUntil === 0) return 'Today';
+  if (daysUntil === 1) return 'Tomorrow';
+  return `In ${daysUntil} days`;
+};
+
+const formatShortDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const value = new Date(year, month - 1, day);
+  return {
+    month: value.toLocaleDateString(undefined, { month: 'short' }),
+    day: value.getDate(),
+    full: value.toLocaleDateString(undefined, { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' }),
+  };
+};
+
+export const UpcomingDeadlines: React.FC<UpcomingDeadlinesProps> = ({ contracts, onOpenDeadline, style }) => {
+  const [expanded, setExpanded] = useState(false);
+  const deadlines = useMemo(() => collectUpcomingDeadlines(contracts), [contracts]);
+
+  if (deadlines.length === 0) return null;
+
+  const visible = expanded ? deadlines : deadlines.slice(0, COLLAPSED_COUNT);
+
+  const renderDeadline = (deadline: Deadline) => {
+    const Icon = OBLIGATION_ICONS[deadline.obligation.category];
+    const date = formatShortDate(deadline.date);
+    return (
+      <button
+        key={deadline.key}
+        onClick={() => onOpenDeadline(deadline.contract, deadline.clause?.id)}
+        className="w-full flex items-center gap-4 bg-slate-900/80 border border-slate-800 rounded-xl p-3 text-left hover:border-indigo-500/50 transition-colors group"
+        title={date.full}
+      >
+        <div className="w-12 shrink-0 text-center rounded-lg bg-slate-800 py-1">
+          <div className="text-[10px] font-bold uppercase text-indigo-400">{date.month}</div>
+          <div className="text-lg font-bold text-slate-100 leading-tight">{date.day}</div>
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center text-xs font-semibold text-slate-400 uppercase tracking-wide">
+            <Icon className="w-3.5 h-3.5 mr-1.5 text-indigo-400" />
+            {OBLIGATION_CATEGORY_LABELS[deadline.obligation.category]}
+          </div>
+          <div className="text-sm text-slate-200 truncate">{deadline.obligation.description}</div>
+          <div className="text-xs text-slate-500 truncate">{deadline.contract.fileName}</div>
+        </div>
+        <span className={`shrink-0 px-2 py-0.5 rounded border text-xs font-medium ${urgencyStyle(deadline.daysUntil)}`}>
+          {describeDaysUntil(deadline.daysUntil)}
+        </span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="animate-slide-up" style={style}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex flex-col">
+          <h2 className="text-lg font-bold text-slate-200 flex items-center">
+            <CalendarClock className="w-5 h-5 mr-2 text-indigo-500" />
+            Upcoming Deadlines
+          </h2>
+          <p className="text-xs text-slate-500 mt-1">Notice windows, payments and other dates from your contracts over the next year.</p>
+        </div>
+        <button
+          onClick={() => downloadDeadlineCalendar(deadlines, 'legallens_deadlines.ics')}
+          className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center font-medium px-3 py-1.5 rounded-lg hover:bg-indigo-900/20 transition-colors"
+        >
+          <CalendarPlus className="w-4 h-4 mr-1" />
+          Export .ics
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {visible.map(renderDeadline)}
+      </div>
+
+      {deadlines.length > COLLAPSED_COUNT && (
+        <button
+          onClick={() => setExpanded(prev => !prev)}
+          className="mt-3 text-xs font-medium text-slate-400 hover:text-slate-200 flex items-center"
+        >
+          <ChevronDown className={`w-4 h-4 mr-1 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+          {expanded ? 'Show fewer' : `Show all ${deadlines.length} deadlines`}
+        </button>
+      )}
+    </div>
+  );
+};
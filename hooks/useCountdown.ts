@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+
+// Whole seconds left until `targetTime` (a ms timestamp). 0 when unset or reached.
+export const useCountdown = (targetTime?: number): number => {
+  const getRemaining = () => targetTime ? Math.max(0, Math.ceil((targetTime - Date.now()) / 1000)) : 0;
+  const [remaining, setRemaining] = useState(getRemaining);
+
+  useEffect(() => {
+    setRemaining(getRemaining());
+    if (!targetTime) return;
+
+    const timer = setInterval(() => {
+      const next = getRemaining();
+      setRemaining(next);
+      if (next <= 0) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [targetTime]);
+
+  return remaining;
+};
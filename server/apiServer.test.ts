@@ -0,0 +1,108 @@
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { setAIProvider } from "../services/aiProvider";
+import { setProxyEnabled } from "../services/apiClient";
+import { createMockProvider } from "../services/providers/mockProvider";
+import { ApiServerOptions, createApiServer } from "./apiServer";
+
+// Routes run against the mock provider on a random local port
+let server: http.Server | undefined;
+
+const start = async (options?: ApiServerOptions): Promise<string> => {
+  server = createApiServer(options);
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const post = (url: string, body: unknown, headers: Record<string, string> = {}) =>
+  fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify(body) });
+
+const CONTRACTS = [
+  { id: 'a', fileName: 'a.pdf', analysis: { clauses: [] } },
+  { id: 'b', fileName: 'b.pdf' },
+];
+
+beforeAll(() => {
+  setProxyEnabled(false);
+  setAIProvider(createMockProvider());
+});
+
+afterAll(() => {
+  setAIProvider(null);
+  setProxyEnabled(null);
+});
+
+afterEach(async () => {
+  await new Promise<void>(resolve => server ? server.close(() => resolve()) : resolve());
+  server = undefined;
+});
+
+describe('createApiServer', () => {
+  it('answers the health check', async () => {
+    const baseUrl = await start();
+    const response = await fetch(`${baseUrl}/api/health`);
+    expect(await response.json()).toEqual({ status: 'ok' });
+  });
+
+  it('returns the validated comparison', async () => {
+    const baseUrl = await start();
+
+    const response = await post(`${baseUrl}/api/compare`, { contracts: CONTRACTS, outputLanguage: 'en' });
+
+    expect(response.status).toBe(200);
+    const { result } = await response.json();
+    expect(result.recommendedId).toBe('a');
+    expect(result.criterionScores.map((entry: { contractId: string }) => entry.contractId)).toEqual(['a', 'b']);
+  });
+
+  it('rejects malformed bodies with 400', async () => {
+    const baseUrl = await start();
+
+    const badAnalysis = await post(`${baseUrl}/api/compare`, { contracts: [{ ...CONTRACTS[0], analysis: {} }, CONTRACTS[1]] });
+    expect(badAnalysis.status).toBe(400);
+    expect((await badAnalysis.json()).error.message).toBe('"contracts[0].analysis" must be an object with a "clauses" array.');
+
+    const missingField = await post(`${baseUrl}/api/clause-question`, { clauseText: 'Rent is due monthly.' });
+    expect(missingField.status).toBe(400);
+  });
+
+  it('streams analysis progress and the result as NDJSON', async () => {
+    const baseUrl = await start();
+
+    const response = await post(`${baseUrl}/api/analyze`, { data: 'aW1hZ2U=', mimeType: 'image/png', outputLanguage: 'en' });
+
+    const events = (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+    expect(events[0]).toMatchObject({ type: 'progress', progress: { stage: 'analyzing' } });
+    expect(events[events.length - 1]).toMatchObject({ type: 'result', result: { contractType: 'services' } });
+  });
+
+  it('limits requests per caller with 429 and Retry-After', async () => {
+    const baseUrl = await start({ rateLimits: { chat: { limit: 1, windowMs: 60_000 } } });
+    const body = { clauseText: 'Rent is due monthly.', question: 'When do I pay?' };
+
+    expect((await post(`${baseUrl}/api/clause-question`, body)).status).toBe(200);
+    const limited = await post(`${baseUrl}/api/clause-question`, body);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('60');
+    expect((await limited.json()).error.kind).toBe('rate-limited');
+  });
+
+  it('tells callers behind a trusted proxy apart by the last X-Forwarded-For entry', async () => {
+    const baseUrl = await start({ rateLimits: { chat: { limit: 1, windowMs: 60_000 } }, trustProxy: true });
+    const body = { clauseText: 'Rent is due monthly.', question: 'When do I pay?' };
+
+    expect((await post(`${baseUrl}/api/clause-question`, body, { 'X-Forwarded-For': '10.0.0.1' })).status).toBe(200);
+    expect((await post(`${baseUrl}/api/clause-question`, body, { 'X-Forwarded-For': '10.0.0.2' })).status).toBe(200);
+    // A spoofed first entry doesn't get the same caller a new bucket
+    expect((await post(`${baseUrl}/api/clause-question`, body, { 'X-Forwarded-For': '1.2.3.4, 10.0.0.1' })).status).toBe(429);
+  });
+
+  it('ignores X-Forwarded-For unless the proxy is trusted', async () => {
+    const baseUrl = await start({ rateLimits: { chat: { limit: 1, windowMs: 60_000 } } });
+    const body = { clauseText: 'Rent is due monthly.', question: 'When do I pay?' };
+
+    expect((await post(`${baseUrl}/api/clause-question`, body, { 'X-Forwarded-For': '10.0.0.1' })).status).toBe(200);
+    expect((await post(`${baseUrl}/api/clause-question`, body, { 'X-Forwarded-For': '10.0.0.2' })).status).toBe(429);
+  });
+});
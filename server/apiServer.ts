@@ -0,0 +1,333 @@
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { AIErrorKind, ChatMessage, Contract } from '../types';
+import {
+  analyzeContract,
+  askClauseQuestion,
+  compareContracts,
+  streamChatMessage,
+  streamComparisonDifference,
+  suggestClauseRedline,
+} from '../services/geminiService';
+import { normalizeContractType } from '../services/responseValidation';
+import { DEFAULT_OUTPUT_LANGUAGE, normalizeLanguageCode, parseOutputLanguagePreference } from '../services/languages';
+import { parsePlaybookRules } from '../services/playbook';
+import { AIServiceError, PayloadTooLargeError, RateLimitError, classifyAIError, toErrorPayload } from '../services/aiErrors';
+import type { ApiEvent } from '../services/apiClient';
+import { RateLimitRule, RateLimiter, createRateLimiter } from './rateLimiter';
+
+// HTTP API wrapping the prompts and schemas in services/geminiService, so the
+// browser never needs the provider API key. Errors are returned as
+// { error: AIErrorPayload } and streaming routes answer with NDJSON ApiEvents.
+
+type LimitGroup = 'analyze' | 'chat';
+
+export interface ApiServerOptions {
+  rateLimits?: Partial<Record<LimitGroup, RateLimitRule>>;
+  // Take the caller's address from X-Forwarded-For, as set by a reverse proxy
+  // such as Vite's /api proxy. Only enable it when the server can't be reached
+  // directly, as clients could otherwise send their own header.
+  trustProxy?: boolean;
+}
+
+// The upload form accepts files up to 20MB; base64 adds a third on top
+const MAX_ANALYZE_BODY_BYTES = 28 * 1024 * 1024;
+const MAX_JSON_BODY_BYTES = 2 * 1024 * 1024;
+const MAX_CONTRACTS_PER_REQUEST = 10;
+
+// Analysis fans out into several model calls for long documents, so it gets a tighter budget
+const DEFAULT_RATE_LIMITS: Record<LimitGroup, RateLimitRule> = {
+  analyze: { limit: 10, windowMs: 10 * 60 * 1000 },
+  chat: { limit: 30, windowMs: 60 * 1000 },
+};
+
+const STATUS_BY_KIND: Record<AIErrorKind, number> = {
+  'rate-limited': 429,
+  'auth': 502, // The server's own key was rejected, not the caller's
+  'payload-too-large': 413,
+  'safety-blocked': 422,
+  'malformed-response': 502,
+  'network': 503,
+  'unknown': 500,
+};
+
+const SUPPORTED_MIME_TYPE = /^(application\/pdf|image\/[\w.+-]+)$/;
+
+class BadRequestError extends AIServiceError {
+  constructor(message: string) {
+    super('unknown', message, false);
+    this.name = 'BadRequestError';
+  }
+}
+
+type RequestBody = Record<string, unknown>;
+
+interface Route {
+  maxBodyBytes: number;
+  limitGroup: LimitGroup;
+  handle: (body: RequestBody, res: ServerResponse, signal: AbortSignal) => Promise<void>;
+}
+
+const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<RequestBody> =>
+  new Promise((resolve, reject) => {
+    if (Number(req.headers['content-length']) > maxBytes) {
+      req.resume();
+      reject(new PayloadTooLargeError());
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+
+    req.on('data', (chunk: Buffer) => {
+      if (tooLarge) return;
+      size += chunk.length;
+      if (size > maxBytes) {
+        tooLarge = true;
+        reject(new PayloadTooLargeError());
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      if (tooLarge) return;
+      try {
+        const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+          reject(new BadRequestError("Request body must be a JSON object."));
+          return;
+        }
+        resolve(body);
+      } catch (e) {
+        reject(new BadRequestError("Request body must be valid JSON."));
+      }
+    });
+
+    req.on('error', reject);
+  });
+
+const requireString = (body: RequestBody, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new BadRequestError(`"${field}" must be a non-empty string.`);
+  }
+  return value;
+};
+
+// Only role and text are forwarded to the model
+const parseHistory = (value: unknown): ChatMessage[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new BadRequestError('"history" must be an array.');
+
+  return value.map((msg, index) => {
+    if ((msg?.role !== 'user' && msg?.role !== 'model') || typeof msg?.text !== 'string') {
+      throw new BadRequestError(`"history[${index}]" must have a role of "user" or "model" and a text.`);
+    }
+    return { role: msg.role, text: msg.text, timestamp: Number(msg.timestamp) || 0 };
+  });
+};
+
+const parseContracts = (value: unknown): Contract[] => {
+  if (!Array.isArray(value) || value.length < 2 || value.length > MAX_CONTRACTS_PER_REQUEST) {
+    throw new BadRequestError(`"contracts" must be an array of 2 to ${MAX_CONTRACTS_PER_REQUEST} contracts.`);
+  }
+
+  value.forEach((contract, index) => {
+    if (typeof contract?.id !== 'string' || typeof contract?.fileName !== 'string') {
+      throw new BadRequestError(`"contracts[${index}]" must have an id and a fileName.`);
+    }
+    // The prompts read each clause's explanation and risk level
+    const analysis = contract.analysis;
+    if (analysis === undefined) return;
+    if (typeof analysis !== 'object' || analysis === null || !Array.isArray(analysis.clauses) ||
+        !analysis.clauses.every((clause: unknown) => typeof clause === 'object' && clause !== null)) {
+      throw new BadRequestError(`"contracts[${index}].analysis" must be an object with a "clauses" array.`);
+    }
+  });
+  return value as Contract[];
+};
+
+// Resolved output language for follow-up requests; the server has no user settings to fall back on
+const parseOutputLanguage = (body: RequestBody): string =>
+  normalizeLanguageCode(body.outputLanguage) || DEFAULT_OUTPUT_LANGUAGE;
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown, headers: http.OutgoingHttpHeaders = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(payload));
+};
+
+const sendError = (res: ServerResponse, error: AIServiceError) => {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+
+  const status = error instanceof BadRequestError ? 400 : STATUS_BY_KIND[error.kind];
+  sendJson(res, status, { error: toErrorPayload(error) },
+    error instanceof RateLimitError ? { 'Retry-After': String(error.retryAfterSeconds) } : {});
+};
+
+// Errors raised once the stream has started are sent as a final 'error' event
+const sendEvents = async (res: ServerResponse, produce: (send: (event: ApiEvent) => void) => Promise<void>) => {
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  const send = (event: ApiEvent) => {
+    if (!res.writableEnded) res.write(`${JSON.stringify(event)}\n`);
+  };
+
+  try {
+    await produce(send);
+  } catch (error) {
+    send({ type: 'error', error: toErrorPayload(classifyAIError(error)) });
+  }
+  res.end();
+};
+
+const streamDeltas = (res: ServerResponse, stream: AsyncGenerator<string>) =>
+  sendEvents(res, async (send) => {
+    for await (const text of stream) send({ type: 'delta', text });
+  });
+
+const ROUTES: Record<string, Route> = {
+  '/api/analyze': {
+    maxBodyBytes: MAX_ANALYZE_BODY_BYTES,
+    limitGroup: 'analyze',
+    handle: async (body, res) => {
+      const data = requireString(body, 'data');
+      const mimeType = requireString(body, 'mimeType');
+      if (!SUPPORTED_MIME_TYPE.test(mimeType)) {
+        throw new BadRequestError("Only PDF and image files can be analyzed.");
+      }
+
+      await sendEvents(res, async (send) => {
+        const result = await analyzeContract(
+          data,
+          mimeType,
+          (progress) => send({ type: 'progress', progress }),
+          parseOutputLanguagePreference(body.outputLanguage) || DEFAULT_OUTPUT_LANGUAGE,
+          parsePlaybookRules(body.playbookRules)
+        );
+        send({ type: 'result', result });
+      });
+    },
+  },
+
+  '/api/clause-question': {
+    maxBodyBytes: MAX_JSON_BODY_BYTES,
+    limitGroup: 'chat',
+    handle: async (body, res) => {
+      const answer = await askClauseQuestion(
+        requireString(body, 'clauseText'),
+        requireString(body, 'question'),
+        parseOutputLanguage(body)
+      );
+      sendJson(res, 200, { answer });
+    },
+  },
+
+  '/api/redline': {
+    maxBodyBytes: MAX_JSON_BODY_BYTES,
+    limitGroup: 'chat',
+    handle: async (body, res) => {
+      const riskReason = typeof body.riskReason === 'string' ? body.riskReason : '';
+      const redline = await suggestClauseRedline(
+        requireString(body, 'clauseText'),
+        riskReason,
+        normalizeContractType(body.contractType) || undefined,
+        parseOutputLanguage(body)
+      );
+      sendJson(res, 200, { redline });
+    },
+  },
+
+  '/api/chat': {
+    maxBodyBytes: MAX_JSON_BODY_BYTES,
+    limitGroup: 'chat',
+    handle: async (body, res, signal) => {
+      const contractContext = typeof body.contractContext === 'string' ? body.contractContext : '';
+      await streamDeltas(res,
+        streamChatMessage(parseHistory(body.history), requireString(body, 'message'), contractContext, signal, parseOutputLanguage(body)));
+    },
+  },
+
+  '/api/compare': {
+    maxBodyBytes: MAX_JSON_BODY_BYTES,
+    limitGroup: 'chat',
+    handle: async (body, res) => {
+      const result = await compareContracts(parseContracts(body.contracts), parseOutputLanguage(body));
+      sendJson(res, 200, { result });
+    },
+  },
+
+  '/api/compare-chat': {
+    maxBodyBytes: MAX_JSON_BODY_BYTES,
+    limitGroup: 'chat',
+    handle: async (body, res, signal) => {
+      await streamDeltas(res, streamComparisonDifference(
+        parseHistory(body.history),
+        requireString(body, 'message'),
+        parseContracts(body.contracts),
+        requireString(body, 'focusedDifference'),
+        signal,
+        parseOutputLanguage(body)
+      ));
+    },
+  },
+};
+
+// The app has no server-side sessions, and anything the client sends (such as
+// a user id) could be changed on every request to dodge the limit, so callers
+// are told apart by their address. Behind a trusted proxy that is the last
+// X-Forwarded-For entry, the one the proxy added; earlier entries come from
+// the client and can't be trusted.
+const getClientKey = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  const forwarded = trustProxy && typeof forwardedFor === 'string'
+    ? forwardedFor.split(',').map(entry => entry.trim()).filter(Boolean).pop()
+    : undefined;
+  return `ip:${forwarded || req.socket.remoteAddress || 'unknown'}`;
+};
+
+export const createApiServer = (options: ApiServerOptions = {}): http.Server => {
+  const limiters: Record<LimitGroup, RateLimiter> = {
+    analyze: createRateLimiter({ ...DEFAULT_RATE_LIMITS.analyze, ...options.rateLimits?.analyze }),
+    chat: createRateLimiter({ ...DEFAULT_RATE_LIMITS.chat, ...options.rateLimits?.chat }),
+  };
+
+  return http.createServer(async (req, res) => {
+    const path = (req.url || '').split('?')[0];
+
+    if (path === '/api/health' && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok' });
+      return;
+    }
+
+    const route = ROUTES[path];
+    if (!route) {
+      sendJson(res, 404, { error: { kind: 'unknown', message: `No route for ${path}` } });
+      return;
+    }
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: { kind: 'unknown', message: "Method not allowed." } }, { Allow: 'POST' });
+      return;
+    }
+
+    // Stops provider streams when the client disconnects or presses Stop
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      const decision = limiters[route.limitGroup].check(getClientKey(req, options.trustProxy === true));
+      if (!decision.allowed) throw new RateLimitError(decision.retryAfterSeconds);
+
+      const body = await readJsonBody(req, route.maxBodyBytes);
+      await route.handle(body, res, controller.signal);
+    } catch (error) {
+      const classified = classifyAIError(error);
+      if (!(classified instanceof BadRequestError)) console.error(`${path} failed:`, classified.message);
+      sendError(res, classified);
+    }
+  });
+};
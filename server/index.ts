@@ -0,0 +1,30 @@
+import { loadEnv } from 'vite';
+import { createProvider, parseProviderName, setAIProvider } from '../services/aiProvider';
+import { setProxyEnabled } from '../services/apiClient';
+import { DEFAULT_SETTINGS } from '../services/storageService';
+import { createApiServer } from './apiServer';
+
+// Entry point for `npm run server`. Reads the same .env / .env.local files as
+// the Vite app; variables already set in the shell take precedence.
+
+const env = { ...loadEnv(process.env.NODE_ENV || 'development', process.cwd(), ''), ...process.env };
+
+// The browser bundle reads the key from API_KEY, which vite.config.ts fills from GEMINI_API_KEY
+process.env.API_KEY = env.API_KEY || env.GEMINI_API_KEY || '';
+
+// This process is the proxy, so it talks to the provider directly
+setProxyEnabled(false);
+
+// The provider is fixed by the server's environment; browser settings don't apply here
+const providerName = parseProviderName(env.AI_PROVIDER);
+setAIProvider(createProvider(providerName, {
+  openAIBaseUrl: env.OPENAI_BASE_URL || DEFAULT_SETTINGS.openAIBaseUrl,
+  openAIModel: env.OPENAI_MODEL || DEFAULT_SETTINGS.openAIModel,
+  openAIApiKey: env.OPENAI_API_KEY,
+}));
+
+const port = Number(env.API_PORT) || 8787;
+
+createApiServer({ trustProxy: env.API_TRUST_PROXY === 'true' }).listen(port, () => {
+  console.log(`LegalLens API listening on http://localhost:${port} (provider: ${providerName})`);
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { createRateLimiter } from "./rateLimiter";
+
+describe('createRateLimiter', () => {
+  it('allows up to the limit per window, then reports when to retry', () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+
+    expect(limiter.check('a', 0)).toEqual({ allowed: true, retryAfterSeconds: 0 });
+    expect(limiter.check('a', 1_000)).toEqual({ allowed: true, retryAfterSeconds: 0 });
+    expect(limiter.check('a', 20_500)).toEqual({ allowed: false, retryAfterSeconds: 40 });
+  });
+
+  it('starts a new window once the old one has passed', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1_000 });
+
+    limiter.check('a', 0);
+    expect(limiter.check('a', 999).allowed).toBe(false);
+    expect(limiter.check('a', 1_000).allowed).toBe(true);
+  });
+
+  it('counts each key separately', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1_000 });
+
+    expect(limiter.check('a', 0).allowed).toBe(true);
+    expect(limiter.check('b', 0).allowed).toBe(true);
+    expect(limiter.check('a', 0).allowed).toBe(false);
+  });
+});
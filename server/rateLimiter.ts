@@ -0,0 +1,46 @@
+// In-memory fixed-window request limiter. Good enough for a single server
+// process; a shared store would be needed when running several instances.
+
+export interface RateLimitRule {
+  limit: number; // Requests allowed per window
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+// Expired windows are swept once the map grows past this size
+const SWEEP_THRESHOLD = 10000;
+
+export const createRateLimiter = (rule: RateLimitRule) => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  const sweep = (now: number) => {
+    windows.forEach((window, key) => {
+      if (now - window.start >= rule.windowMs) windows.delete(key);
+    });
+  };
+
+  return {
+    check: (key: string, now: number = Date.now()): RateLimitDecision => {
+      if (windows.size > SWEEP_THRESHOLD) sweep(now);
+
+      const window = windows.get(key);
+      if (!window || now - window.start >= rule.windowMs) {
+        windows.set(key, { start: now, count: 1 });
+        return { allowed: true, retryAfterSeconds: 0 };
+      }
+
+      if (window.count >= rule.limit) {
+        return { allowed: false, retryAfterSeconds: Math.ceil((window.start + rule.windowMs - now) / 1000) };
+      }
+
+      window.count++;
+      return { allowed: true, retryAfterSeconds: 0 };
+    },
+  };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
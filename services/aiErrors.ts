@@ -0,0 +1,199 @@
+import { AIErrorKind } from "../types";
+
+const DEFAULT_RETRY_AFTER_SECONDS = 30;
+
+// Typed errors carried out of the AI service layer. Components switch on
+// `kind` to decide how to react (countdown, retry button, no retry, ...).
+
+export class AIServiceError extends Error {
+  readonly kind: AIErrorKind;
+  readonly transient: boolean; // Safe to retry automatically
+  readonly cause?: unknown;
+
+  constructor(kind: AIErrorKind, message: string, transient: boolean, cause?: unknown) {
+    super(message);
+    this.name = 'AIServiceError';
+    this.kind = kind;
+    this.transient = transient;
+    this.cause = cause;
+  }
+}
+
+export class RateLimitError extends AIServiceError {
+  readonly retryAfterSeconds: number;
+  readonly retryAfterFromServer: boolean; // False when retryAfterSeconds is our default guess
+
+  constructor(retryAfterSeconds?: number, cause?: unknown) {
+    super('rate-limited', "AI usage limit exceeded. Please try again in a few moments.", true, cause);
+    this.name = 'RateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds ?? DEFAULT_RETRY_AFTER_SECONDS;
+    this.retryAfterFromServer = retryAfterSeconds !== undefined;
+  }
+}
+
+export class AuthError extends AIServiceError {
+  constructor(message: string = "Authentication failed. Please check the system configuration.", cause?: unknown) {
+    super('auth', message, false, cause);
+    this.name = 'AuthError';
+  }
+}
+
+export class PayloadTooLargeError extends AIServiceError {
+  constructor(cause?: unknown) {
+    super('payload-too-large', "The document is too large for the AI to process.", false, cause);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+export class SafetyBlockedError extends AIServiceError {
+  constructor(cause?: unknown) {
+    super('safety-blocked', "The content was flagged by safety settings and could not be processed.", false, cause);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class MalformedResponseError extends AIServiceError {
+  constructor(message: string = "Received an invalid response format from AI. Please retry.", cause?: unknown) {
+    super('malformed-response', message, false, cause);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+// Covers connection failures as well as 5xx / overloaded responses
+export class NetworkError extends AIServiceError {
+  constructor(message: string = "AI service is temporarily unavailable. Please retry.", cause?: unknown) {
+    super('network', message, true, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+// Gemini reports e.g. "retryDelay":"37s"; other servers say "retry after 20 seconds"
+const parseRetryAfterSeconds = (message: string): number | undefined => {
+  const match = message.match(/retry[^0-9]{0,20}(\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1])) : undefined;
+};
+
+// Maps an HTTP status (from any provider) to a typed error
+export const createErrorFromStatus = (status: number, message: string, cause?: unknown): AIServiceError | null => {
+  if (status === 429) return new RateLimitError(parseRetryAfterSeconds(message), cause);
+  if (status === 401 || status === 403) return new AuthError(undefined, cause);
+  if (status === 413) return new PayloadTooLargeError(cause);
+  if (status >= 500) return new NetworkError(undefined, cause);
+  return null;
+};
+
+// Normalizes anything thrown by a provider into an AIServiceError
+export const classifyAIError = (error: unknown): AIServiceError => {
+  if (error instanceof AIServiceError) return error;
+
+  const err = error as { message?: string; status?: number; name?: string } | undefined;
+  const message = err?.message || String(error);
+  const msg = message.toLowerCase();
+
+  if (typeof err?.status === 'number') {
+    const fromStatus = createErrorFromStatus(err.status, message, error);
+    if (fromStatus) return fromStatus;
+  }
+
+  if (msg.includes('429') || msg.includes('quota') || msg.includes('resource exhausted') || msg.includes('rate limit')) {
+    return new RateLimitError(parseRetryAfterSeconds(message), error);
+  }
+  if (msg.includes('401') || msg.includes('403') || msg.includes('api key') || msg.includes('permission')) {
+    return new AuthError(msg.includes('missing') ? message : undefined, error);
+  }
+  if (msg.includes('413') || msg.includes('too large') || msg.includes('exceeds the maximum')) {
+    return new PayloadTooLargeError(error);
+  }
+  if (msg.includes('safety') || msg.includes('blocked')) {
+    return new SafetyBlockedError(error);
+  }
+  if (msg.includes('json') || msg.includes('parse')) {
+    return new MalformedResponseError(undefined, error);
+  }
+  if (msg.includes('503') || msg.includes('502') || msg.includes('500') || msg.includes('overloaded') ||
+      msg.includes('unavailable') || msg.includes('failed to fetch') || msg.includes('fetch failed') ||
+      msg.includes('network')) {
+    return new NetworkError(undefined, error);
+  }
+
+  return new AIServiceError('unknown', `Processing failed: ${message}`, false, error);
+};
+
+// Wire format for errors sent by the backend proxy (see server/)
+export interface AIErrorPayload {
+  kind: AIErrorKind;
+  message: string;
+  retryAfterSeconds?: number;
+}
+
+export const toErrorPayload = (error: AIServiceError): AIErrorPayload => ({
+  kind: error.kind,
+  message: error.message,
+  ...(error instanceof RateLimitError && { retryAfterSeconds: error.retryAfterSeconds }),
+});
+
+// Rebuilds the typed error on the client side of the proxy
+export const fromErrorPayload = (payload: AIErrorPayload): AIServiceError => {
+  switch (payload.kind) {
+    case 'rate-limited': return new RateLimitError(payload.retryAfterSeconds);
+    case 'auth': return new AuthError(payload.message);
+    case 'payload-too-large': return new PayloadTooLargeError();
+    case 'safety-blocked': return new SafetyBlockedError();
+    case 'malformed-response': return new MalformedResponseError(payload.message);
+    case 'network': return new NetworkError(payload.message);
+    default: return new AIServiceError('unknown', payload.message, false);
+  }
+};
+
+// Whether offering the user a manual retry makes sense for this kind of failure
+export const isUserRetryable = (kind?: AIErrorKind): boolean =>
+  kind !== 'safety-blocked' && kind !== 'payload-too-large';
+
+// Timestamp after which a rate-limited call may be retried, if `error` is a rate limit
+export const getRetryAt = (error: unknown): number | undefined =>
+  error instanceof RateLimitError ? Date.now() + error.retryAfterSeconds * 1000 : undefined;
+
+export interface RetryOptions {
+  retries?: number; // Attempts after the first one
+  baseDelayMs?: number;
+  maxDelayMs?: number; // Rate limits asking for a longer wait are surfaced instead
+  signal?: AbortSignal;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+// Waits out the backoff for a failed attempt (1s, 2s, 4s ... plus jitter).
+// Rate limits wait for the server-provided delay when it is short enough.
+// Resolves false, without waiting, when the error should be surfaced instead.
+export const waitBeforeRetry = async (error: AIServiceError, attempt: number, options: RetryOptions = {}): Promise<boolean> => {
+  const { retries = 3, baseDelayMs = 1000, maxDelayMs = 20000, signal } = options;
+  if (!error.transient || attempt >= retries || signal?.aborted) return false;
+
+  const backoff = baseDelayMs * 2 ** attempt + Math.random() * 250;
+  const delayMs = error instanceof RateLimitError && error.retryAfterFromServer
+    ? Math.max(backoff, error.retryAfterSeconds * 1000)
+    : backoff;
+  if (delayMs > maxDelayMs) return false;
+
+  console.warn(`AI call failed (${error.kind}), retrying in ${Math.round(delayMs)}ms`);
+  await sleep(delayMs, signal);
+  return !signal?.aborted;
+};
+
+// Runs `operation`, retrying transient failures. Always rejects with an AIServiceError.
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const classified = classifyAIError(error);
+      if (!(await waitBeforeRetry(classified, attempt, options))) throw classified;
+    }
+  }
+};
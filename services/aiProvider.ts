@@ -0,0 +1,107 @@
+import type { Schema } from "@google/genai";
+import { AIProviderName, AppSettings } from "../types";
+import { storageService } from "./storageService";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createMockProvider } from "./providers/mockProvider";
+import { createOpenAIProvider } from "./providers/openAIProvider";
+
+// Which operation a request belongs to. Providers that don't talk to a real
+// model (e.g. the mock) use this to pick a matching fixture.
+export type AITask = 'classification' | 'analysis' | 'summary' | 'clause-question' | 'redline' | 'chat' | 'comparison' | 'comparison-chat';
+
+// Providers map these tiers to their own model names.
+// 'fast' is used for structured extraction, 'chat' for conversational answers.
+export type ModelTier = 'fast' | 'chat';
+
+export interface AIPart {
+  text?: string;
+  inlineData?: {
+    mimeType: string;
+    data: string; // Base64
+  };
+}
+
+export interface AIContent {
+  role: 'user' | 'model';
+  parts: AIPart[];
+}
+
+export interface AIRequest {
+  task: AITask;
+  tier: ModelTier;
+  contents: AIContent[];
+  systemInstruction?: string;
+  // When set, the provider must return JSON matching this schema
+  responseSchema?: Schema;
+  temperature?: number;
+}
+
+export interface AIProvider {
+  readonly name: string;
+  getModelName: (tier: ModelTier) => string;
+  // Resolves with the raw text output of the model
+  generate: (request: AIRequest) => Promise<string>;
+  // Yields text deltas as the model produces them. Aborting the signal ends
+  // the stream early without throwing.
+  generateStream: (request: AIRequest, signal?: AbortSignal) => AsyncGenerator<string>;
+}
+
+let overrideProvider: AIProvider | null = null;
+let cachedProvider: { key: string; provider: AIProvider } | null = null;
+
+const PROVIDER_NAMES: AIProviderName[] = ['gemini', 'openai', 'mock'];
+
+// Unknown or empty values fall back to Gemini
+export const parseProviderName = (value?: string): AIProviderName => {
+  const configured = (value || '').trim().toLowerCase() as AIProviderName;
+  return PROVIDER_NAMES.includes(configured) ? configured : 'gemini';
+};
+
+// User settings take precedence over the build-time AI_PROVIDER variable
+const resolveProviderName = (settings: AppSettings): AIProviderName =>
+  settings.aiProvider || parseProviderName(process.env.AI_PROVIDER);
+
+export const createProvider = (name: AIProviderName, settings: AppSettings): AIProvider => {
+  switch (name) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai':
+      return createOpenAIProvider({
+        baseUrl: settings.openAIBaseUrl,
+        model: settings.openAIModel,
+        apiKey: settings.openAIApiKey,
+      });
+    case 'gemini':
+    default:
+      return createGeminiProvider(process.env.API_KEY || '');
+  }
+};
+
+// Returns the provider selected by configuration. Re-created whenever the
+// relevant settings change so edits in the profile page apply immediately.
+export const getAIProvider = (): AIProvider => {
+  if (overrideProvider) return overrideProvider;
+
+  const settings = storageService.getSettings();
+  const name = resolveProviderName(settings);
+  const key = name === 'openai'
+    ? `${name}|${settings.openAIBaseUrl}|${settings.openAIModel}|${settings.openAIApiKey || ''}`
+    : name;
+
+  if (!cachedProvider || cachedProvider.key !== key) {
+    cachedProvider = { key, provider: createProvider(name, settings) };
+  }
+  return cachedProvider.provider;
+};
+
+// Overrides the configured provider, e.g. to force the mock in tests.
+// Passing null restores configuration-based selection.
+export const setAIProvider = (provider: AIProvider | null) => {
+  overrideProvider = provider;
+};
+
+// Convenience for building a single-turn user message
+export const userText = (text: string): AIContent => ({
+  role: 'user',
+  parts: [{ text }],
+});
@@ -0,0 +1,78 @@
+import { ContractAnalysis, PlaybookRule } from "../types";
+import { storageService } from "./storageService";
+import { ANALYSIS_PROMPT_VERSION, AnalysisProgress, analyzeContract, getAnalysisModelId } from "./geminiService";
+import { getOutputLanguagePreference } from "./languages";
+import { getActivePlaybookRules, getPlaybookFingerprint } from "./playbook";
+
+// Reuses earlier analyses of byte-identical files. Entries are keyed on the
+// file hash plus the prompt version, model, output language and playbook
+// rules, so changing any of them triggers a fresh analysis.
+
+export interface CachedAnalysisResult {
+  analysis: ContractAnalysis;
+  contentHash?: string; // Missing when hashing isn't available (insecure context)
+}
+
+export interface CachedAnalysisOptions {
+  force?: boolean; // Skip the lookup and overwrite the cached entry
+  onProgress?: (progress: AnalysisProgress) => void;
+  outputLanguage?: string; // Language code or 'document'; defaults to the user's setting
+  playbookRules?: PlaybookRule[]; // Defaults to the signed-in user's playbook
+}
+
+const base64ToBytes = (base64Data: string): Uint8Array => {
+  const binary = atob(base64Data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Hex SHA-256 of the decoded file bytes. Web Crypto only exists in secure
+// contexts (https or localhost), so this resolves undefined elsewhere.
+export const hashFileContent = async (base64Data: string): Promise<string | undefined> => {
+  if (!globalThis.crypto?.subtle) return undefined;
+
+  try {
+    const digest = await crypto.subtle.digest('SHA-256', base64ToBytes(base64Data));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  } catch (e) {
+    console.warn("Failed to hash file content", e);
+    return undefined;
+  }
+};
+
+export const getAnalysisCacheKey = (contentHash: string, outputLanguage: string, playbookRules: PlaybookRule[]): string =>
+  `${contentHash}|${ANALYSIS_PROMPT_VERSION}|${getAnalysisModelId()}|${outputLanguage}|${getPlaybookFingerprint(playbookRules)}`;
+
+export const analyzeContractCached = async (
+  base64Data: string,
+  mimeType: string,
+  options: CachedAnalysisOptions = {}
+): Promise<CachedAnalysisResult> => {
+  const outputLanguage = options.outputLanguage || getOutputLanguagePreference();
+  const playbookRules = options.playbookRules || getActivePlaybookRules();
+  const contentHash = await hashFileContent(base64Data);
+  const cacheKey = contentHash && getAnalysisCacheKey(contentHash, outputLanguage, playbookRules);
+
+  if (cacheKey && !options.force) {
+    const cached = storageService.getCachedAnalysis(cacheKey);
+    if (cached) {
+      return { analysis: { ...cached.analysis, fromCache: true }, contentHash };
+    }
+  }
+
+  const analysis: ContractAnalysis = {
+    ...(await analyzeContract(base64Data, mimeType, options.onProgress, outputLanguage, playbookRules)),
+    analyzedAt: Date.now(),
+    model: getAnalysisModelId(),
+    promptVersion: ANALYSIS_PROMPT_VERSION,
+  };
+
+  if (cacheKey) {
+    storageService.saveCachedAnalysis({ key: cacheKey, analysis, cachedAt: Date.now() });
+  }
+
+  return { analysis, contentHash };
+};
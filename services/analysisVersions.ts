@@ -0,0 +1,95 @@
+import { AnalysisVersion, Clause, Contract, ContractAnalysis, RiskLevel } from "../types";
+import { isSameClauseText, normalizeClauseText } from "./documentChunking";
+import { computeRiskScore } from "./riskScore";
+import { DiffPart, diffWords } from "./textDiff";
+
+// Re-analyzing a contract keeps the replaced analysis as a version, so results
+// from different models or prompt versions can be compared.
+
+// Older versions are dropped beyond this to stay within the storage quota
+export const MAX_ARCHIVED_VERSIONS = 5;
+
+export interface VersionEntry {
+  id: string;
+  analysis: ContractAnalysis;
+  isCurrent: boolean;
+}
+
+export const CURRENT_VERSION_ID = 'current';
+
+// Newest first, starting with the contract's current analysis
+export const listAnalysisVersions = (contract: Contract): VersionEntry[] => [
+  ...(contract.analysis ? [{ id: CURRENT_VERSION_ID, analysis: contract.analysis, isCurrent: true }] : []),
+  ...(contract.analysisHistory || []).map(version => ({ id: version.id, analysis: version.analysis, isCurrent: false })),
+];
+
+// Replaces the current analysis and archives it. The archived copy drops the
+// transcribed text, which is by far its largest part and isn't needed for diffs.
+export const replaceAnalysis = (contract: Contract, next: ContractAnalysis): Contract => {
+  if (!contract.analysis) return { ...contract, analysis: next };
+
+  const { fullText: _fullText, fromCache: _fromCache, ...archived } = contract.analysis;
+  const archivedAt = Date.now();
+  const version: AnalysisVersion = { id: `version-${archivedAt}-${Math.random().toString(36).substring(2, 6)}`, analysis: archived, archivedAt };
+
+  return {
+    ...contract,
+    analysis: next,
+    analysisHistory: [version, ...(contract.analysisHistory || [])].slice(0, MAX_ARCHIVED_VERSIONS),
+  };
+};
+
+export interface ClauseRiskChange {
+  before: Clause;
+  after: Clause;
+}
+
+export interface AnalysisDiff {
+  added: Clause[]; // Only in the newer version
+  removed: Clause[]; // Only in the older version
+  riskChanged: ClauseRiskChange[];
+  unchangedCount: number;
+  scoreBefore: number;
+  scoreAfter: number;
+  overallRiskBefore: RiskLevel;
+  overallRiskAfter: RiskLevel;
+  summaryDiff: DiffPart[];
+}
+
+// Clauses are paired by their wording, which tolerates the small differences
+// in how the model quotes the same clause from one run to the next
+export const diffAnalyses = (before: ContractAnalysis, after: ContractAnalysis): AnalysisDiff => {
+  const unmatched = before.clauses.map(clause => ({ clause, normalized: normalizeClauseText(clause.text) }));
+  const added: Clause[] = [];
+  const riskChanged: ClauseRiskChange[] = [];
+  let unchangedCount = 0;
+
+  after.clauses.forEach(clause => {
+    const normalized = normalizeClauseText(clause.text);
+    const index = unmatched.findIndex(item => isSameClauseText(item.normalized, normalized));
+    if (index === -1) {
+      added.push(clause);
+      return;
+    }
+
+    const [match] = unmatched.splice(index, 1);
+    if (match.clause.riskLevel !== clause.riskLevel) riskChanged.push({ before: match.clause, after: clause });
+    else unchangedCount++;
+  });
+
+  // Recomputed, as versions saved earlier may carry the model's score and risk
+  const scoreBefore = computeRiskScore(before.clauses);
+  const scoreAfter = computeRiskScore(after.clauses);
+
+  return {
+    added,
+    removed: unmatched.map(item => item.clause),
+    riskChanged,
+    unchangedCount,
+    scoreBefore: scoreBefore.score,
+    scoreAfter: scoreAfter.score,
+    overallRiskBefore: scoreBefore.overallRisk,
+    overallRiskAfter: scoreAfter.overallRisk,
+    summaryDiff: diffWords(before.summary, after.summary),
+  };
+};
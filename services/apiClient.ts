@@ -0,0 +1,166 @@
+import { ChatMessage, ClauseRedline, ComparisonResult, Contract, ContractAnalysis, ContractType, PlaybookRule } from "../types";
+import { AIErrorPayload, AIServiceError, NetworkError, createErrorFromStatus, fromErrorPayload } from "./aiErrors";
+import type { AnalysisProgress } from "./geminiService";
+
+// Client for the backend proxy in server/. When AI_PROXY=true the AI calls in
+// geminiService are sent here instead of to the provider, so no API key is
+// bundled into the frontend.
+
+const API_BASE = '/api';
+
+// Streaming routes answer with newline-delimited JSON events
+export type ApiEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'progress'; progress: AnalysisProgress }
+  | { type: 'result'; result: unknown }
+  | { type: 'error'; error: AIErrorPayload };
+
+let proxyOverride: boolean | null = null;
+
+export const isProxyEnabled = (): boolean =>
+  proxyOverride ?? process.env.AI_PROXY === 'true';
+
+// The server calls the providers directly, so it switches the proxy off for itself
+export const setProxyEnabled = (enabled: boolean | null) => {
+  proxyOverride = enabled;
+};
+
+// File bytes and the transcribed text aren't needed for comparisons and would
+// only inflate the request
+const toComparisonPayload = (contract: Contract): Contract => ({
+  ...contract,
+  fileData: undefined,
+  analysis: contract.analysis && { ...contract.analysis, fullText: undefined },
+});
+
+const readError = async (response: Response): Promise<AIServiceError> => {
+  const body = await response.json().catch(() => null);
+  if (body?.error?.kind) return fromErrorPayload(body.error);
+
+  const message = `Server returned ${response.status}: ${response.statusText}`;
+  return createErrorFromStatus(response.status, message) || new AIServiceError('unknown', message, false);
+};
+
+const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+  const response = await fetch(`${API_BASE}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) throw await readError(response);
+  return response;
+};
+
+// Yields events until the stream ends. Returns quietly when `signal` is aborted.
+async function* readEvents(response: Response, signal?: AbortSignal): AsyncGenerator<ApiEvent> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event = JSON.parse(line) as ApiEvent;
+        if (event.type === 'error') throw fromErrorPayload(event.error);
+        yield event;
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) return;
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function* streamText(path: string, body: unknown, signal?: AbortSignal): AsyncGenerator<string> {
+  let response: Response;
+  try {
+    response = await post(path, body, signal);
+  } catch (error) {
+    if (signal?.aborted) return;
+    throw error;
+  }
+
+  for await (const event of readEvents(response, signal)) {
+    if (event.type === 'delta') yield event.text;
+  }
+}
+
+export const apiClient = {
+  analyzeContract: async (
+    base64Data: string,
+    mimeType: string,
+    onProgress?: (progress: AnalysisProgress) => void,
+    outputLanguage?: string,
+    playbookRules?: PlaybookRule[]
+  ): Promise<ContractAnalysis> => {
+    const response = await post('/analyze', { data: base64Data, mimeType, outputLanguage, playbookRules });
+
+    for await (const event of readEvents(response)) {
+      if (event.type === 'progress') onProgress?.(event.progress);
+      if (event.type === 'result') return event.result as ContractAnalysis;
+    }
+    throw new NetworkError("The analysis stream ended before a result was received. Please retry.");
+  },
+
+  askClauseQuestion: async (clauseText: string, question: string, outputLanguage?: string): Promise<string> => {
+    const response = await post('/clause-question', { clauseText, question, outputLanguage });
+    const body = await response.json();
+    return body.answer;
+  },
+
+  suggestClauseRedline: async (
+    clauseText: string,
+    riskReason: string,
+    contractType?: ContractType,
+    outputLanguage?: string
+  ): Promise<ClauseRedline> => {
+    const response = await post('/redline', { clauseText, riskReason, contractType, outputLanguage });
+    const body = await response.json();
+    return body.redline;
+  },
+
+  streamChatMessage: (
+    history: ChatMessage[],
+    newMessage: string,
+    contractContext: string,
+    signal?: AbortSignal,
+    outputLanguage?: string
+  ): AsyncGenerator<string> =>
+    streamText('/chat', { history, message: newMessage, contractContext, outputLanguage }, signal),
+
+  compareContracts: async (contracts: Contract[], outputLanguage?: string): Promise<ComparisonResult> => {
+    const response = await post('/compare', { contracts: contracts.map(toComparisonPayload), outputLanguage });
+    const body = await response.json();
+    return body.result;
+  },
+
+  streamComparisonDifference: (
+    history: ChatMessage[],
+    newMessage: string,
+    contracts: Contract[],
+    focusedDifference: string,
+    signal?: AbortSignal,
+    outputLanguage?: string
+  ): AsyncGenerator<string> =>
+    streamText('/compare-chat', {
+      history,
+      message: newMessage,
+      contracts: contracts.map(toComparisonPayload),
+      focusedDifference,
+      outputLanguage,
+    }, signal),
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { Contract, Obligation, RiskLevel } from "../types";
+import { buildDeadlineCalendar } from "./calendarExport";
+import { Deadline } from "./deadlines";
+
+const BASE_URL = 'https://app.example.com/';
+
+const contract: Contract = {
+  id: 'contract-1',
+  userId: 'user-1',
+  fileName: 'lease, final; v2.pdf',
+  uploadDate: 0,
+  status: 'analyzed',
+};
+
+const deadline = (obligation: Partial<Obligation>, clauseText?: string): Deadline => ({
+  key: `contract-1-${obligation.id}`,
+  contract,
+  obligation: {
+    id: 'obligation-1',
+    description: 'Pay rent',
+    category: 'payment',
+    recurrence: 'none',
+    ...obligation,
+  },
+  clause: clauseText === undefined ? undefined : {
+    id: 'clause-2',
+    text: clauseText,
+    explanation: '',
+    riskLevel: RiskLevel.LOW,
+    riskyKeywords: [],
+    reason: '',
+  },
+  date: '2025-03-31',
+  daysUntil: 10,
+});
+
+const unfold = (calendar: string) => calendar.replace(/\r\n /g, '');
+
+describe('buildDeadlineCalendar', () => {
+  it('wraps the events in a calendar with CRLF line endings', () => {
+    const calendar = buildDeadlineCalendar([], BASE_URL);
+    expect(calendar).toBe([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//LegalLens AI//Contract Deadlines//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'END:VCALENDAR',
+      '',
+    ].join('\r\n'));
+  });
+
+  it('exports an all-day event with a stable uid and a reminder', () => {
+    const lines = unfold(buildDeadlineCalendar([deadline({ category: 'renewal-notice', description: 'Send notice' })], BASE_URL)).split('\r\n');
+    expect(lines).toContain('UID:contract-1-obligation-1@legallens.ai');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20250331');
+    expect(lines).toContain('DTEND;VALUE=DATE:20250401');
+    expect(lines).toContain('TRIGGER:-P14D');
+    expect(lines).toContain('SUMMARY:Renewal notice: Send notice (lease\\, final\\; v2.pdf)');
+    expect(lines.some(line => line.startsWith('RRULE:'))).toBe(false);
+  });
+
+  it('repeats recurring obligations', () => {
+    const calendar = buildDeadlineCalendar([deadline({ recurrence: 'quarterly' })], BASE_URL);
+    expect(calendar).toContain('RRULE:FREQ=MONTHLY;INTERVAL=3\r\n');
+    expect(calendar).toContain('TRIGGER:-P3D\r\n');
+  });
+
+  it('links back to the clause and quotes a shortened excerpt', () => {
+    const calendar = unfold(buildDeadlineCalendar([deadline({ clauseId: 'clause-2' }, 'r'.repeat(400))], BASE_URL));
+    expect(calendar).toContain(`URL:${BASE_URL}?contract=contract-1&clause=clause-2\r\n`);
+    expect(calendar).toContain(`Clause: "${'r'.repeat(300)}..."`);
+    expect(calendar).not.toContain('r'.repeat(301));
+  });
+
+  it('folds lines longer than 75 octets without splitting characters', () => {
+    const calendar = buildDeadlineCalendar([deadline({ description: 'Zahlung fällig für Übergabe '.repeat(10) })], BASE_URL);
+    const encoder = new TextEncoder();
+    calendar.split('\r\n').forEach(line => {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+      expect(line).not.toContain('�');
+    });
+    expect(unfold(calendar)).toContain(`DESCRIPTION:${'Zahlung fällig für Übergabe '.repeat(10)}\r\n`);
+  });
+});
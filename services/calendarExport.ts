@@ -0,0 +1,112 @@
+import { ObligationCategory, Recurrence } from "../types";
+import { Deadline, OBLIGATION_CATEGORY_LABELS, addDays } from "./deadlines";
+import { buildClauseLink } from "./deepLink";
+
+// iCalendar (RFC 5545) export of deadlines as all-day events. Recurring
+// obligations become a single repeating event starting at the next occurrence.
+
+const RRULES: Partial<Record<Recurrence, string>> = {
+  weekly: 'FREQ=WEEKLY',
+  monthly: 'FREQ=MONTHLY',
+  quarterly: 'FREQ=MONTHLY;INTERVAL=3',
+  yearly: 'FREQ=YEARLY',
+};
+
+// Days of warning before the event; missing a notice window is the costly case
+const REMINDER_DAYS: Record<ObligationCategory, number> = {
+  'renewal-notice': 14,
+  termination: 14,
+  payment: 3,
+  other: 7,
+};
+
+const CLAUSE_EXCERPT_LENGTH = 300;
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toICalDate = (date: string): string => date.replace(/-/g, '');
+
+const toICalTimestamp = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const buildEvent = (deadline: Deadline, stamp: string, baseUrl?: string): string[] => {
+  const { contract, obligation, clause } = deadline;
+  const link = buildClauseLink({ contractId: contract.id, clauseId: clause?.id }, baseUrl);
+  const excerpt = clause && clause.text.length > CLAUSE_EXCERPT_LENGTH
+    ? `${clause.text.slice(0, CLAUSE_EXCERPT_LENGTH)}...`
+    : clause?.text;
+
+  const description = [
+    obligation.description,
+    obligation.party && `Responsible: ${obligation.party}`,
+    `Contract: ${contract.fileName}`,
+    excerpt && `Clause: "${excerpt}"`,
+    `Open in LegalLens: ${link}`,
+  ].filter(Boolean).join('\n');
+
+  const rrule = RRULES[obligation.recurrence];
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${contract.id}-${obligation.id}@legallens.ai`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${toICalDate(deadline.date)}`,
+    `DTEND;VALUE=DATE:${toICalDate(addDays(deadline.date, 1))}`,
+    ...(rrule ? [`RRULE:${rrule}`] : []),
+    `SUMMARY:${escapeText(`${OBLIGATION_CATEGORY_LABELS[obligation.category]}: ${obligation.description} (${contract.fileName})`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${link}`,
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeText(obligation.description)}`,
+    `TRIGGER:-P${REMINDER_DAYS[obligation.category]}D`,
+    'END:VALARM',
+    'END:VEVENT',
+  ];
+};
+
+export const buildDeadlineCalendar = (deadlines: Deadline[], baseUrl?: string): string => {
+  const stamp = toICalTimestamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//LegalLens AI//Contract Deadlines//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...deadlines.flatMap(deadline => buildEvent(deadline, stamp, baseUrl)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const downloadDeadlineCalendar = (deadlines: Deadline[], fileName: string) => {
+  const blob = new Blob([buildDeadlineCalendar(deadlines)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName.endsWith('.ics') ? fileName : `${fileName}.ics`;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,132 @@
+import { Clause, ClauseAnchor, ClauseVerification, ContractAnalysis } from "../types";
+
+// Locates each clause quoted by the model in the transcribed fullText. The
+// model often re-flows whitespace or fixes OCR typos when quoting, so an exact
+// search falls back to a formatting-insensitive one and then to a fuzzy word
+// window. How the clause was found doubles as a check that the model didn't
+// paraphrase or invent the quoted text.
+
+// Fuzzy matches below this share of matching words are discarded
+export const MIN_FUZZY_SCORE = 0.6;
+
+// Too few words to tell a real match from a coincidence
+const MIN_FUZZY_WORDS = 4;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+// Lower-cased letters and digits only, with each kept character's original offset
+const normalizeWithOffsets = (text: string) => {
+  let normalized = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (WORD_CHAR.test(text[i])) {
+      normalized += text[i].toLowerCase();
+      offsets.push(i);
+    }
+  }
+  return { normalized, offsets };
+};
+
+const findNormalizedMatch = (fullText: string, clauseText: string): ClauseAnchor | null => {
+  const clause = normalizeWithOffsets(clauseText).normalized;
+  if (!clause) return null;
+
+  const { normalized, offsets } = normalizeWithOffsets(fullText);
+  const index = normalized.indexOf(clause);
+  if (index === -1) return null;
+
+  return { start: offsets[index], end: offsets[index + clause.length - 1] + 1, match: 'normalized', score: 1 };
+};
+
+// Slides a window as long as the clause over the document's words and keeps
+// the window sharing the most words with the clause (counted as a multiset).
+const findFuzzyMatch = (fullText: string, clauseText: string): ClauseAnchor | null => {
+  const clauseWords = (clauseText.match(WORD_PATTERN) || []).map(word => word.toLowerCase());
+  if (clauseWords.length < MIN_FUZZY_WORDS) return null;
+
+  const words = Array.from(fullText.matchAll(WORD_PATTERN), m => ({
+    word: m[0].toLowerCase(),
+    start: m.index!,
+    end: m.index! + m[0].length,
+  }));
+  if (words.length === 0) return null;
+
+  const wanted = new Map<string, number>();
+  clauseWords.forEach(word => wanted.set(word, (wanted.get(word) || 0) + 1));
+
+  const windowSize = Math.min(clauseWords.length, words.length);
+  const inWindow = new Map<string, number>();
+  let overlap = 0;
+
+  const add = (word: string) => {
+    const count = inWindow.get(word) || 0;
+    if (count < (wanted.get(word) || 0)) overlap++;
+    inWindow.set(word, count + 1);
+  };
+  const remove = (word: string) => {
+    const count = (inWindow.get(word) || 0) - 1;
+    inWindow.set(word, count);
+    if (count < (wanted.get(word) || 0)) overlap--;
+  };
+
+  for (let i = 0; i < windowSize; i++) add(words[i].word);
+  let bestOverlap = overlap;
+  let bestStart = 0;
+
+  for (let start = 1; start + windowSize <= words.length; start++) {
+    remove(words[start - 1].word);
+    add(words[start + windowSize - 1].word);
+    if (overlap > bestOverlap) {
+      bestOverlap = overlap;
+      bestStart = start;
+    }
+  }
+
+  const score = bestOverlap / clauseWords.length;
+  if (score < MIN_FUZZY_SCORE) return null;
+
+  // Trim words at either edge of the window that aren't part of the clause
+  let first = bestStart;
+  let last = bestStart + windowSize - 1;
+  while (first < last && !wanted.has(words[first].word)) first++;
+  while (last > first && !wanted.has(words[last].word)) last--;
+
+  return { start: words[first].start, end: words[last].end, match: 'fuzzy', score: Math.round(score * 100) / 100 };
+};
+
+export const findClauseAnchor = (fullText: string, clauseText: string): ClauseAnchor | null => {
+  const text = clauseText.trim();
+  if (!fullText || !text) return null;
+
+  const exactIndex = fullText.indexOf(text);
+  if (exactIndex !== -1) {
+    return { start: exactIndex, end: exactIndex + text.length, match: 'exact', score: 1 };
+  }
+
+  return findNormalizedMatch(fullText, text) || findFuzzyMatch(fullText, text);
+};
+
+// A fuzzy match means the model reworded the clause when quoting it; no match
+// at all means it paraphrased heavily or made the text up
+export const getClauseVerification = (anchor: ClauseAnchor | null): ClauseVerification => {
+  if (!anchor) return 'not-found';
+  return anchor.match === 'fuzzy' ? 'approximate' : 'verbatim';
+};
+
+// Locates every clause in fullText and records how well its quoted text was
+// verified. Clauses that can't be found are left without an anchor.
+export const anchorClauses = (analysis: ContractAnalysis): ContractAnalysis => {
+  const { fullText } = analysis;
+  if (!fullText) return analysis;
+
+  return {
+    ...analysis,
+    clauses: analysis.clauses.map((clause): Clause => {
+      const { anchor: _staleAnchor, verification: _staleVerification, ...rest } = clause;
+      const anchor = findClauseAnchor(fullText, clause.text);
+      const verification = getClauseVerification(anchor);
+      return anchor ? { ...rest, anchor, verification } : { ...rest, verification };
+    }),
+  };
+};
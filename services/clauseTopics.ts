@@ -0,0 +1,51 @@
+import { Clause, Contract, getHighestRiskLevel } from "../types";
+
+// Groups clauses by what they are about, so the same topic can be lined up
+// across contracts in CompareView. Topics are assigned locally from the risk
+// type the clause's 'reason' starts with, falling back to its wording.
+
+export interface ClauseTopic {
+  id: string;
+  label: string;
+  pattern: RegExp;
+}
+
+// Checked in order, so e.g. "terminate ... liability" counts as termination
+export const CLAUSE_TOPICS: ClauseTopic[] = [
+  { id: 'termination', label: 'Termination', pattern: /terminat|cancel/i },
+  { id: 'renewal', label: 'Term & Renewal', pattern: /renew|evergreen|\bterm of\b|duration/i },
+  { id: 'payment', label: 'Payment', pattern: /payment|\bpay\b|invoice|\bfees?\b|price|interest|deposit|\brent\b|salary|compensation/i },
+  { id: 'liability', label: 'Liability & Indemnity', pattern: /liabilit|liable|indemn|damages|warrant/i },
+  { id: 'confidentiality', label: 'Confidentiality', pattern: /confidential|non-disclosure|disclos/i },
+  { id: 'privacy', label: 'Data Privacy', pattern: /privacy|personal data|data protection/i },
+  { id: 'ip', label: 'Intellectual Property', pattern: /intellectual property|copyright|patent|trademark|work product|\blicen[cs]e/i },
+  { id: 'non-compete', label: 'Non-Compete & Non-Solicit', pattern: /non-?compet|non-?solicit|restrictive covenant/i },
+  { id: 'dispute', label: 'Disputes & Governing Law', pattern: /dispute|arbitrat|jury|class action|governing law|jurisdiction|venue|court/i },
+];
+
+export const OTHER_TOPIC: ClauseTopic = { id: 'other', label: 'Other', pattern: /$^/ };
+
+export const getClauseTopic = (clause: Clause): ClauseTopic => {
+  const riskType = /^\s*([^:.]{1,40}?)\s+risk\b/i.exec(clause.reason)?.[1];
+  return (riskType && CLAUSE_TOPICS.find(topic => topic.pattern.test(riskType)))
+    || CLAUSE_TOPICS.find(topic => topic.pattern.test(clause.text))
+    || OTHER_TOPIC;
+};
+
+export interface TopicRow {
+  topic: ClauseTopic;
+  cells: Clause[][]; // One entry per contract, in the order given; empty when it lacks the topic
+  differs: boolean; // A contract lacks the topic or the contracts rate it differently
+}
+
+// Rows follow the order of CLAUSE_TOPICS, with Other last. Topics no contract covers are left out.
+export const alignClausesByTopic = (contracts: Contract[]): TopicRow[] =>
+  [...CLAUSE_TOPICS, OTHER_TOPIC]
+    .map((topic): TopicRow => {
+      const cells = contracts.map(contract =>
+        (contract.analysis?.clauses || []).filter(clause => getClauseTopic(clause).id === topic.id)
+      );
+      const levels = cells.map(cell => getHighestRiskLevel(cell));
+      return { topic, cells, differs: levels.some(level => level !== levels[0]) };
+    })
+    .filter(row => row.cells.some(cell => cell.length > 0));
@@ -0,0 +1,72 @@
+import { ComparisonResult, Contract, CriterionWeights, RiskLevel } from "../types";
+import { COMPARISON_CRITERIA, RankedContract } from "./comparisonMatrix";
+import { getContractTypeLabel } from "./contractTemplates";
+
+// Spreadsheet export of a comparison: one row per contract, in ranking order.
+// The PDF report is drawn in CompareView, like the analysis report.
+
+export type RiskDistribution = Record<RiskLevel, number>;
+
+export const countClausesByRisk = (contract: Contract): RiskDistribution => {
+  const counts: RiskDistribution = { [RiskLevel.HIGH]: 0, [RiskLevel.MEDIUM]: 0, [RiskLevel.LOW]: 0 };
+  contract.analysis?.clauses.forEach(clause => { counts[clause.riskLevel]++; });
+  return counts;
+};
+
+// Quotes fields that need it, and defuses values a spreadsheet would run as a formula
+const toCsvField = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildComparisonCsv = (ranked: RankedContract[], comparison: ComparisonResult, weights: CriterionWeights): string => {
+  const header = [
+    'Rank',
+    'Contract',
+    'Contract Type',
+    'Uploaded',
+    'Weighted Score (0-100)',
+    ...COMPARISON_CRITERIA.map(criterion => `${criterion.label} (weight ${weights[criterion.id]})`),
+    'Risk Score (0-100)',
+    'Overall Risk',
+    'High Risk Clauses',
+    'Medium Risk Clauses',
+    'Low Risk Clauses',
+    'AI Recommended',
+  ];
+
+  const rows = ranked.map(({ contract, rank, weightedScore, scores }) => {
+    const distribution = countClausesByRisk(contract);
+    return [
+      weightedScore === null ? undefined : rank,
+      contract.fileName,
+      contract.analysis?.contractType ? getContractTypeLabel(contract.analysis.contractType) : undefined,
+      new Date(contract.uploadDate).toISOString().slice(0, 10),
+      weightedScore ?? undefined,
+      ...COMPARISON_CRITERIA.map(criterion => scores[criterion.id]?.score),
+      contract.analysis?.riskScore,
+      contract.analysis?.overallRisk,
+      distribution[RiskLevel.HIGH],
+      distribution[RiskLevel.MEDIUM],
+      distribution[RiskLevel.LOW],
+      contract.id === comparison.recommendedId ? 'Yes' : 'No',
+    ];
+  });
+
+  return [header, ...rows].map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+};
+
+export const downloadComparisonCsv = (ranked: RankedContract[], comparison: ComparisonResult, weights: CriterionWeights, fileName: string) => {
+  // The byte order mark makes Excel read the file as UTF-8
+  const blob = new Blob(['\uFEFF', buildComparisonCsv(ranked, comparison, weights)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName.endsWith('.csv') ? fileName : `${fileName}.csv`;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
+};
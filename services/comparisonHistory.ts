@@ -0,0 +1,48 @@
+import { ChatMessage, ComparisonResult, Contract, SavedComparison } from "../types";
+
+// Comparisons are saved with their result and difference conversations, so
+// reopening one shows exactly what was seen before instead of a fresh (and
+// possibly different) answer from the model.
+
+export const createSavedComparison = (contracts: Contract[], result: ComparisonResult): SavedComparison => ({
+  id: `comparison-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`,
+  userId: contracts[0]?.userId || '',
+  contractIds: contracts.map(contract => contract.id),
+  contractNames: contracts.map(contract => contract.fileName),
+  createdAt: Date.now(),
+  result,
+  differenceChats: {},
+});
+
+// Running the comparison again replaces its result in place rather than saving
+// a second entry. Conversations about differences the new result still lists
+// are kept.
+export const updateSavedComparison = (comparison: SavedComparison, contracts: Contract[], result: ComparisonResult): SavedComparison => ({
+  ...comparison,
+  contractNames: contracts.map(contract => contract.fileName),
+  createdAt: Date.now(),
+  result,
+  differenceChats: Object.fromEntries(
+    Object.entries(comparison.differenceChats).filter(([difference]) => result.keyDifferences.includes(difference))
+  ),
+});
+
+// The newest saved comparison of exactly these contracts, in any order
+export const findSavedComparison = (comparisons: SavedComparison[], contracts: Contract[]): SavedComparison | undefined => {
+  const ids = new Set(contracts.map(contract => contract.id));
+  return comparisons.find(comparison =>
+    comparison.contractIds.length === ids.size && comparison.contractIds.every(id => ids.has(id))
+  );
+};
+
+// The compared contracts that still exist, in their original order
+export const findComparisonContracts = (comparison: SavedComparison, contracts: Contract[]): Contract[] =>
+  comparison.contractIds
+    .map(id => contracts.find(contract => contract.id === id))
+    .filter((contract): contract is Contract => contract !== undefined);
+
+// A reply still streaming when the chat is saved is kept as stopped, or dropped if nothing arrived yet
+export const settleChatMessages = (messages: ChatMessage[]): ChatMessage[] =>
+  messages
+    .filter(message => message.status !== 'streaming' || message.text)
+    .map(message => message.status === 'streaming' ? { ...message, status: 'stopped' } : message);
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { ComparisonCriterion, Contract, ContractCriterionScores, CriterionWeights } from "../types";
+import { DEFAULT_CRITERION_WEIGHTS, rankContracts } from "./comparisonMatrix";
+
+const contract = (id: string): Contract => ({ id, userId: 'user-1', fileName: `${id}.pdf`, uploadDate: 0, status: 'analyzed' });
+
+const scored = (contractId: string, scores: Partial<Record<ComparisonCriterion, number>>): ContractCriterionScores => ({
+  contractId,
+  scores: Object.entries(scores).map(([criterion, score]) => ({ criterion: criterion as ComparisonCriterion, score: score as number, note: '' })),
+});
+
+const weights = (overrides: Partial<CriterionWeights>): CriterionWeights => ({ ...DEFAULT_CRITERION_WEIGHTS, ...overrides });
+
+describe('rankContracts', () => {
+  it('ranks by the weighted average scaled to 0-100', () => {
+    const ranked = rankContracts(
+      [contract('a'), contract('b')],
+      [scored('a', { cost: 4, liability: 10 }), scored('b', { cost: 8, liability: 6 })],
+      weights({ cost: 1, liability: 3 })
+    );
+    expect(ranked.map(entry => [entry.contract.id, entry.weightedScore, entry.rank])).toEqual([
+      ['a', 85, 1],
+      ['b', 65, 2],
+    ]);
+  });
+
+  it('leaves unscored criteria out of the average instead of counting them as zero', () => {
+    const [entry] = rankContracts([contract('a')], [scored('a', { cost: 7 })], DEFAULT_CRITERION_WEIGHTS);
+    expect(entry.weightedScore).toBe(70);
+  });
+
+  it('ignores criteria weighted zero', () => {
+    const [entry] = rankContracts([contract('a')], [scored('a', { cost: 2, privacy: 10 })], weights({ cost: 0 }));
+    expect(entry.weightedScore).toBe(100);
+  });
+
+  it('gives tied contracts the same rank', () => {
+    const ranked = rankContracts(
+      [contract('a'), contract('b'), contract('c')],
+      [scored('a', { cost: 5 }), scored('b', { cost: 9 }), scored('c', { cost: 5 })],
+      DEFAULT_CRITERION_WEIGHTS
+    );
+    expect(ranked.map(entry => [entry.contract.id, entry.rank])).toEqual([['b', 1], ['a', 2], ['c', 2]]);
+  });
+
+  it('puts contracts without a weighted score last', () => {
+    const ranked = rankContracts(
+      [contract('unscored'), contract('a'), contract('zero-weight')],
+      [scored('a', { cost: 1 }), scored('zero-weight', { renewal: 9 })],
+      weights({ renewal: 0 })
+    );
+    expect(ranked.map(entry => [entry.contract.id, entry.weightedScore])).toEqual([
+      ['a', 10],
+      ['unscored', null],
+      ['zero-weight', null],
+    ]);
+  });
+});
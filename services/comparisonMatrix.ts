@@ -0,0 +1,95 @@
+import { ComparisonCriterion, ContractCriterionScores, Contract, CriterionScore, CriterionWeights } from "../types";
+import { storageService } from "./storageService";
+
+// The model scores each compared contract per criterion; the user weighs the
+// criteria and the ranking is computed here, so re-weighting needs no AI call.
+
+export interface CriterionDefinition {
+  id: ComparisonCriterion;
+  label: string;
+  description: string; // What a high score means, used in the prompt
+}
+
+export const COMPARISON_CRITERIA: CriterionDefinition[] = [
+  { id: 'cost', label: 'Cost', description: 'Low total cost to the user: fees, price increases, penalties, late charges and deposits.' },
+  { id: 'termination', label: 'Termination Flexibility', description: 'The user can exit easily: short notice, no termination fees, no one-sided termination rights for the other party.' },
+  { id: 'liability', label: 'Liability Exposure', description: 'Little exposure for the user: capped liability, balanced indemnities, no broad waivers of the user\'s remedies.' },
+  { id: 'renewal', label: 'Renewal Terms', description: 'Fair renewal: no silent auto-renewal, reasonable renewal notice windows, no renewal price hikes.' },
+  { id: 'privacy', label: 'Privacy', description: 'Protective data handling: limited collection, no selling or broad sharing of the user\'s data, clear deletion rights.' },
+];
+
+export const MAX_CRITERION_SCORE = 10;
+export const MAX_CRITERION_WEIGHT = 5;
+
+export const DEFAULT_CRITERION_WEIGHTS: CriterionWeights = {
+  cost: 3,
+  termination: 3,
+  liability: 3,
+  renewal: 3,
+  privacy: 3,
+};
+
+export const isComparisonCriterion = (value: unknown): value is ComparisonCriterion =>
+  COMPARISON_CRITERIA.some(criterion => criterion.id === value);
+
+// The signed-in user's weights, with defaults for criteria they haven't set
+export const getSavedCriterionWeights = (): CriterionWeights => {
+  const user = storageService.getCurrentUser();
+  const saved = user ? storageService.getCriterionWeights(user.id) : {};
+  const weights = { ...DEFAULT_CRITERION_WEIGHTS };
+  COMPARISON_CRITERIA.forEach(({ id }) => {
+    const weight = saved[id];
+    if (typeof weight === 'number' && weight >= 0 && weight <= MAX_CRITERION_WEIGHT) weights[id] = weight;
+  });
+  return weights;
+};
+
+export const saveCriterionWeights = (weights: CriterionWeights) => {
+  const user = storageService.getCurrentUser();
+  if (user) storageService.saveCriterionWeights(user.id, weights);
+};
+
+export interface RankedContract {
+  contract: Contract;
+  scores: Partial<Record<ComparisonCriterion, CriterionScore>>;
+  weightedScore: number | null; // 0-100; null when no weighted criterion was scored
+  rank: number; // 1 is best; tied contracts share a rank
+}
+
+// Weighted average of the scored criteria, scaled to 0-100. Criteria the model
+// couldn't score for a contract are left out of its average rather than
+// counted as zero.
+const computeWeightedScore = (scores: RankedContract['scores'], weights: CriterionWeights): number | null => {
+  let total = 0;
+  let weightSum = 0;
+  COMPARISON_CRITERIA.forEach(({ id }) => {
+    const score = scores[id];
+    if (!score || weights[id] <= 0) return;
+    total += score.score * weights[id];
+    weightSum += weights[id];
+  });
+  if (weightSum === 0) return null;
+  return Math.round((total / weightSum / MAX_CRITERION_SCORE) * 1000) / 10;
+};
+
+// Best first. Contracts without a weighted score go last, in their original order.
+export const rankContracts = (
+  contracts: Contract[],
+  criterionScores: ContractCriterionScores[],
+  weights: CriterionWeights
+): RankedContract[] => {
+  const ranked = contracts.map(contract => {
+    const scores: RankedContract['scores'] = {};
+    criterionScores
+      .find(entry => entry.contractId === contract.id)
+      ?.scores.forEach(score => { scores[score.criterion] = score; });
+    return { contract, scores, weightedScore: computeWeightedScore(scores, weights), rank: 0 };
+  });
+
+  ranked.sort((a, b) => (b.weightedScore ?? -1) - (a.weightedScore ?? -1));
+  ranked.forEach((entry, index) => {
+    const previous = ranked[index - 1];
+    entry.rank = previous && previous.weightedScore === entry.weightedScore ? previous.rank : index + 1;
+  });
+  return ranked;
+};
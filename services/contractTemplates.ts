@@ -0,0 +1,389 @@
+import { ContractAnalysis, ContractType } from "../types";
+
+// Analysis templates per contract type. Each type adds its own risk criteria
+// and expected protections to the general ones, so e.g. a lease is checked for
+// deposit and repair terms and an NDA for the scope and duration of
+// confidentiality.
+
+export interface RiskCriteria {
+  high: string[];
+  medium: string[];
+  low: string[];
+}
+
+// A term a fair contract of the type is expected to contain
+export interface ProtectionItem {
+  id: string;
+  label: string;
+  description: string; // What the model looks for
+  whyItMatters: string; // Shown to the user when it's missing
+}
+
+export interface ContractTemplate {
+  type: ContractType;
+  label: string;
+  // Who the reader usually is and what matters most to them
+  focus: string;
+  criteria: RiskCriteria;
+  checklist: ProtectionItem[];
+}
+
+export const CONTRACT_TYPES: ContractType[] = ['nda', 'lease', 'employment', 'saas', 'loan', 'services', 'other'];
+
+const GENERAL_CRITERIA: RiskCriteria = {
+  high: [
+    "Unlimited liability.",
+    "Unilateral termination without cause.",
+    "Waiver of rights (jury trial, class action).",
+    "Automatic renewal with difficult cancellation.",
+  ],
+  medium: [
+    "Ambiguous terms.",
+    "Unbalanced indemnification.",
+    "Long notice periods.",
+  ],
+  low: [
+    "Standard boilerplate.",
+    "Mutual obligations.",
+    "Clear pricing.",
+  ],
+};
+
+const GENERAL_CHECKLIST: ProtectionItem[] = [
+  {
+    id: 'liability-cap',
+    label: "Liability cap",
+    description: "A limit on the amount the reader can be liable for (e.g. fees paid in the last 12 months).",
+    whyItMatters: "Without a cap, a single claim can cost far more than the contract is worth.",
+  },
+  {
+    id: 'termination-right',
+    label: "Right to terminate",
+    description: "The reader can end the contract for convenience or when the other side breaches it.",
+    whyItMatters: "Without an exit, you stay bound even if the other side performs badly or your needs change.",
+  },
+  {
+    id: 'dispute-resolution',
+    label: "Governing law and dispute resolution",
+    description: "Which law applies and where or how disputes are resolved.",
+    whyItMatters: "A dispute can start with a costly argument over which courts and which law apply.",
+  },
+];
+
+export const CONTRACT_TEMPLATES: Record<ContractType, ContractTemplate> = {
+  nda: {
+    type: 'nda',
+    label: 'NDA',
+    focus: "The reader is usually the party receiving confidential information. Focus on what counts as confidential, how long the duty lasts and what happens on a breach.",
+    criteria: {
+      high: [
+        "Confidentiality that never ends or covers information that is already public or independently developed.",
+        "Non-compete or non-solicitation restrictions hidden in the NDA.",
+        "Penalties or liquidated damages for any breach.",
+      ],
+      medium: [
+        "One-way obligations where both sides share information.",
+        "No obligation to return or destroy information, or no exceptions for legally required disclosure.",
+      ],
+      low: [
+        "Mutual obligations with standard exclusions and a fixed term (2-5 years).",
+      ],
+    },
+    checklist: [
+      {
+        id: 'confidentiality-obligation',
+        label: "Confidentiality obligation",
+        description: "A clear duty to keep the disclosed information confidential and use it only for the stated purpose.",
+        whyItMatters: "An NDA without a real confidentiality duty gives the discloser no protection at all.",
+      },
+      {
+        id: 'standard-exclusions',
+        label: "Standard exclusions",
+        description: "Information that is public, already known, independently developed or received from third parties is excluded.",
+        whyItMatters: "Without exclusions you could breach the NDA by using information you already had or that anyone can find.",
+      },
+      {
+        id: 'confidentiality-term',
+        label: "Fixed confidentiality period",
+        description: "The confidentiality duty ends after a defined period.",
+        whyItMatters: "An open-ended duty means you carry the risk of a breach claim indefinitely.",
+      },
+      {
+        id: 'return-or-destroy',
+        label: "Return or destruction of information",
+        description: "Information must be returned or destroyed when the relationship ends.",
+        whyItMatters: "Without it, nobody knows when the information stops circulating, which makes breaches hard to prove or rule out.",
+      },
+    ],
+  },
+  lease: {
+    type: 'lease',
+    label: 'Lease',
+    focus: "The reader is usually the tenant. Focus on rent, deposits, repairs, entry rights, early termination and renewal.",
+    criteria: {
+      high: [
+        "Non-refundable deposits or deductions at the landlord's discretion.",
+        "Tenant responsible for all repairs, including structural ones.",
+        "Landlord may enter without notice or evict without due process.",
+        "Rent increases at the landlord's discretion during the term.",
+      ],
+      medium: [
+        "High early-termination fees or no option to sublet.",
+        "Late fees charged daily or compounding.",
+      ],
+      low: [
+        "Clear rent, deposit return timeline and shared repair duties.",
+      ],
+    },
+    checklist: [
+      {
+        id: 'deposit-return',
+        label: "Deposit return terms",
+        description: "When and how the security deposit is returned, and which deductions are allowed.",
+        whyItMatters: "Without clear terms the landlord can keep the deposit or delay its return.",
+      },
+      {
+        id: 'landlord-repairs',
+        label: "Landlord repair duties",
+        description: "The landlord is responsible for structural repairs and keeping the property habitable.",
+        whyItMatters: "Otherwise you may have to pay for major repairs to a property you don't own.",
+      },
+      {
+        id: 'entry-notice',
+        label: "Notice before entry",
+        description: "The landlord must give notice before entering the property, except in emergencies.",
+        whyItMatters: "Without it the landlord can enter your home whenever they like.",
+      },
+      {
+        id: 'early-termination',
+        label: "Early termination option",
+        description: "The tenant can end the lease early, e.g. with notice or a reasonable fee.",
+        whyItMatters: "Without it you owe rent for the full term even if you have to move out.",
+      },
+    ],
+  },
+  employment: {
+    type: 'employment',
+    label: 'Employment',
+    focus: "The reader is usually the employee. Focus on pay, working hours, termination, restrictive covenants and ownership of their work.",
+    criteria: {
+      high: [
+        "Broad non-compete covering long periods or wide regions.",
+        "Employer owns inventions or work made outside working hours.",
+        "Pay or bonuses withheld or clawed back at the employer's discretion.",
+      ],
+      medium: [
+        "Probation or notice periods that differ heavily between the sides.",
+        "Duties, hours or workplace can be changed unilaterally.",
+      ],
+      low: [
+        "Clearly stated salary, leave and symmetrical notice periods.",
+      ],
+    },
+    checklist: [
+      {
+        id: 'pay-terms',
+        label: "Pay and payment schedule",
+        description: "The salary or wage and when it is paid.",
+        whyItMatters: "Unclear pay terms make it hard to claim money you are owed.",
+      },
+      {
+        id: 'mutual-notice',
+        label: "Notice period for both sides",
+        description: "How much notice the employer and the employee must each give to end the employment.",
+        whyItMatters: "Without a notice period you can be let go immediately with no pay in lieu.",
+      },
+      {
+        id: 'paid-leave',
+        label: "Paid leave",
+        description: "Holiday and sick leave entitlements.",
+        whyItMatters: "Leave you are not promised in writing is hard to insist on later.",
+      },
+      {
+        id: 'working-hours',
+        label: "Working hours and overtime",
+        description: "Normal working hours and how overtime is handled or paid.",
+        whyItMatters: "Without limits, extra hours can be expected without extra pay.",
+      },
+    ],
+  },
+  saas: {
+    type: 'saas',
+    label: 'SaaS / Terms of Service',
+    focus: "The reader is usually the customer or end user. Focus on price changes, data use, service levels and how to leave.",
+    criteria: {
+      high: [
+        "Provider may use, sell or share customer data beyond providing the service.",
+        "Terms or prices can change at any time without notice or a right to cancel.",
+        "No way to export data on termination.",
+      ],
+      medium: [
+        "No service level commitment or only service credits as a remedy.",
+        "Account suspension at the provider's discretion.",
+      ],
+      low: [
+        "Clear pricing, data export and cancellation at any time.",
+      ],
+    },
+    checklist: [
+      {
+        id: 'data-export',
+        label: "Data export on termination",
+        description: "The customer can export their data when the contract ends.",
+        whyItMatters: "Without an export right, leaving the service can mean losing your data.",
+      },
+      {
+        id: 'data-protection',
+        label: "Data protection commitments",
+        description: "How the provider secures customer data and limits its use.",
+        whyItMatters: "Without commitments, the provider has no contractual duty to protect your data.",
+      },
+      {
+        id: 'service-level',
+        label: "Service level commitment",
+        description: "An uptime or support commitment with a remedy when it is missed.",
+        whyItMatters: "Without one you keep paying even when the service is down.",
+      },
+      {
+        id: 'price-change-notice',
+        label: "Notice before price changes",
+        description: "Price or term changes require advance notice and allow cancellation.",
+        whyItMatters: "Otherwise your costs can rise without warning and with no way out.",
+      },
+    ],
+  },
+  loan: {
+    type: 'loan',
+    label: 'Loan',
+    focus: "The reader is usually the borrower. Focus on the true cost of borrowing, default triggers and what can be taken as security.",
+    criteria: {
+      high: [
+        "Variable or penalty interest that can rise without a cap.",
+        "Broad default triggers (e.g. any adverse change) allowing immediate repayment.",
+        "Personal guarantees or security over the borrower's home or all assets.",
+      ],
+      medium: [
+        "Prepayment penalties or hidden fees.",
+        "Cross-default with other debts.",
+      ],
+      low: [
+        "Fixed rate with a clear repayment schedule and total cost.",
+      ],
+    },
+    checklist: [
+      {
+        id: 'cost-disclosure',
+        label: "Interest rate and total cost",
+        description: "The interest rate, fees and total amount repayable are stated.",
+        whyItMatters: "Without them you can't tell what the loan will really cost.",
+      },
+      {
+        id: 'prepayment-right',
+        label: "Right to repay early",
+        description: "The borrower can repay early without an excessive penalty.",
+        whyItMatters: "Without it you may be stuck paying interest even when you could clear the debt.",
+      },
+      {
+        id: 'default-cure-period',
+        label: "Cure period before default",
+        description: "The borrower gets notice and time to fix a missed payment before it counts as a default.",
+        whyItMatters: "Without it a single late payment can make the whole loan due at once.",
+      },
+    ],
+  },
+  services: {
+    type: 'services',
+    label: 'Services / Freelance',
+    focus: "The reader is usually the freelancer or service provider. Focus on scope, payment timing, ownership of work and liability.",
+    criteria: {
+      high: [
+        "Payment only on the client's subjective approval or after the client is paid.",
+        "Unlimited revisions or open-ended scope for a fixed fee.",
+        "All intellectual property transfers before payment is received.",
+      ],
+      medium: [
+        "Payment terms longer than 45 days or no late-payment remedy.",
+        "Kill fees missing when the client cancels.",
+      ],
+      low: [
+        "Defined deliverables, milestones and payment schedule.",
+      ],
+    },
+    checklist: [
+      {
+        id: 'defined-scope',
+        label: "Defined scope and deliverables",
+        description: "What is to be delivered, and how changes or extra work are handled.",
+        whyItMatters: "Without a defined scope, the client can keep asking for more work for the same fee.",
+      },
+      {
+        id: 'payment-schedule',
+        label: "Payment schedule",
+        description: "When invoices are issued and paid (e.g. milestones or net 30).",
+        whyItMatters: "Without one, payment can be delayed indefinitely.",
+      },
+      {
+        id: 'late-payment-remedy',
+        label: "Late payment remedy",
+        description: "Interest, fees or the right to pause work when the client pays late.",
+        whyItMatters: "Without a remedy there is little pressure on the client to pay on time.",
+      },
+      {
+        id: 'kill-fee',
+        label: "Cancellation (kill) fee",
+        description: "Payment for work done if the client cancels the project.",
+        whyItMatters: "Without it, a cancelled project can leave you unpaid for work already done.",
+      },
+      {
+        id: 'ip-on-payment',
+        label: "Ownership transfers on payment",
+        description: "Intellectual property passes to the client only once the work is paid for.",
+        whyItMatters: "Otherwise the client can own and use your work even if they never pay.",
+      },
+    ],
+  },
+  other: {
+    type: 'other',
+    label: 'Other',
+    focus: "Focus on the obligations and risks for the party the reader most likely is.",
+    criteria: { high: [], medium: [], low: [] },
+    checklist: [],
+  },
+};
+
+export const getContractTypeLabel = (type?: ContractType): string =>
+  CONTRACT_TEMPLATES[type || 'other'].label;
+
+// The general protections followed by the type's own
+export const getProtectionChecklist = (type: ContractType): ProtectionItem[] =>
+  [...GENERAL_CHECKLIST, ...CONTRACT_TEMPLATES[type].checklist];
+
+export interface ProtectionReport {
+  missing: ProtectionItem[];
+  present: { item: ProtectionItem; clauseId?: string }[];
+  unchecked: ProtectionItem[]; // Items the model gave no answer for
+}
+
+// Null for analyses made before the checklist existed
+export const evaluateProtections = (analysis: ContractAnalysis): ProtectionReport | null => {
+  if (!analysis.protections) return null;
+
+  const report: ProtectionReport = { missing: [], present: [], unchecked: [] };
+  getProtectionChecklist(analysis.contractType || 'other').forEach(item => {
+    const check = analysis.protections!.find(candidate => candidate.protectionId === item.id);
+    if (!check) report.unchecked.push(item);
+    else if (check.present) report.present.push({ item, clauseId: check.clauseId });
+    else report.missing.push(item);
+  });
+  return report;
+};
+
+// The general criteria followed by the type's own
+export const getRiskCriteria = (type: ContractType): RiskCriteria => {
+  const specific = CONTRACT_TEMPLATES[type].criteria;
+  return {
+    high: [...GENERAL_CRITERIA.high, ...specific.high],
+    medium: [...GENERAL_CRITERIA.medium, ...specific.medium],
+    low: [...GENERAL_CRITERIA.low, ...specific.low],
+  };
+};
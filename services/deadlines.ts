@@ -0,0 +1,113 @@
+import { Clause, Contract, Obligation, ObligationCategory, Recurrence } from "../types";
+
+// Turns the obligations extracted per contract into concrete upcoming dates.
+// Dates are handled as YYYY-MM-DD strings in UTC so time zones and daylight
+// saving never shift a deadline by a day.
+
+export interface Deadline {
+  key: string; // Unique across contracts
+  contract: Contract;
+  obligation: Obligation;
+  clause?: Clause;
+  date: string; // YYYY-MM-DD of the next occurrence
+  daysUntil: number;
+}
+
+export interface DeadlineOptions {
+  today?: Date;
+  horizonDays?: number; // Deadlines further out than this are left out
+}
+
+export const DEFAULT_HORIZON_DAYS = 365;
+
+export const OBLIGATION_CATEGORY_LABELS: Record<ObligationCategory, string> = {
+  'renewal-notice': 'Renewal notice',
+  payment: 'Payment',
+  termination: 'Termination',
+  other: 'Obligation',
+};
+
+export const RECURRENCE_LABELS: Record<Recurrence, string> = {
+  none: 'Once',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const MONTHS_PER_STEP: Partial<Record<Recurrence, number>> = { monthly: 1, quarterly: 3, yearly: 12 };
+
+const parseDate = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const toDateString = (date: Date): string =>
+  formatDate(new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate())));
+
+export const addDays = (value: string, days: number): string =>
+  formatDate(new Date(parseDate(value).getTime() + days * MS_PER_DAY));
+
+// Month steps keep the original day where the month has it (Jan 31 -> Feb 28 -> Mar 31)
+const addMonths = (start: Date, months: number): Date => {
+  const target = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(start.getUTCDate(), lastDay));
+  return target;
+};
+
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((parseDate(to).getTime() - parseDate(from).getTime()) / MS_PER_DAY);
+
+// First occurrence on or after `from`, or undefined for a one-off date that has passed
+export const getNextOccurrence = (obligation: Obligation, from: string): string | undefined => {
+  if (!obligation.dueDate) return undefined;
+  const start = parseDate(obligation.dueDate);
+  const fromDate = parseDate(from);
+  if (start >= fromDate) return obligation.dueDate;
+
+  if (obligation.recurrence === 'weekly') {
+    const weeks = Math.ceil((fromDate.getTime() - start.getTime()) / (7 * MS_PER_DAY));
+    return formatDate(new Date(start.getTime() + weeks * 7 * MS_PER_DAY));
+  }
+
+  const step = MONTHS_PER_STEP[obligation.recurrence];
+  if (!step) return undefined;
+
+  // Jump close to `from`, then step forward
+  const elapsedMonths = (fromDate.getUTCFullYear() - start.getUTCFullYear()) * 12 + fromDate.getUTCMonth() - start.getUTCMonth();
+  let count = Math.max(0, Math.floor(elapsedMonths / step) - 1);
+  let next = addMonths(start, count * step);
+  while (next < fromDate) next = addMonths(start, ++count * step);
+  return formatDate(next);
+};
+
+// Next occurrence of every dated obligation across the contracts, soonest first
+export const collectUpcomingDeadlines = (contracts: Contract[], options: DeadlineOptions = {}): Deadline[] => {
+  const today = toDateString(options.today || new Date());
+  const horizonDays = options.horizonDays ?? DEFAULT_HORIZON_DAYS;
+
+  return contracts
+    .flatMap(contract => (contract.analysis?.obligations || []).map((obligation): Deadline | null => {
+      const date = getNextOccurrence(obligation, today);
+      if (!date) return null;
+
+      const daysUntil = daysBetween(today, date);
+      if (daysUntil > horizonDays) return null;
+
+      return {
+        key: `${contract.id}:${obligation.id}`,
+        contract,
+        obligation,
+        clause: contract.analysis?.clauses.find(clause => clause.id === obligation.clauseId),
+        date,
+        daysUntil,
+      };
+    }))
+    .filter((deadline): deadline is Deadline => deadline !== null)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.contract.fileName.localeCompare(b.contract.fileName));
+};
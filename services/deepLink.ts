@@ -0,0 +1,24 @@
+// Links that reopen a contract at a specific clause, e.g. from a calendar
+// entry: ?contract=<id>&clause=<clauseId>
+
+export interface ClauseLink {
+  contractId: string;
+  clauseId?: string;
+}
+
+export const buildClauseLink = (link: ClauseLink, baseUrl: string = `${window.location.origin}${window.location.pathname}`): string => {
+  const params = new URLSearchParams({ contract: link.contractId });
+  if (link.clauseId) params.set('clause', link.clauseId);
+  return `${baseUrl}?${params.toString()}`;
+};
+
+export const readClauseLink = (search: string = window.location.search): ClauseLink | null => {
+  const params = new URLSearchParams(search);
+  const contractId = params.get('contract');
+  return contractId ? { contractId, clauseId: params.get('clause') || undefined } : null;
+};
+
+// Drops the link parameters once handled so a reload doesn't reopen the clause
+export const clearClauseLink = () => {
+  window.history.replaceState(null, '', window.location.pathname + window.location.hash);
+};
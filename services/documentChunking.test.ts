@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import { Clause, ContractAnalysis, RiskLevel } from "../types";
+import { deduplicateClauses, isSameClauseText, mergeChunkAnalyses, mergeKeyTerms, normalizeClauseText, planPageChunks } from "./documentChunking";
+
+const clause = (id: string, text: string, riskLevel: RiskLevel = RiskLevel.LOW): Clause => ({
+  id,
+  text,
+  explanation: '',
+  riskLevel,
+  riskyKeywords: [],
+  reason: '',
+});
+
+const chunk = (analysis: Partial<ContractAnalysis>): ContractAnalysis => ({
+  summary: '',
+  overallRisk: RiskLevel.LOW,
+  clauses: [],
+  ...analysis,
+});
+
+describe('planPageChunks', () => {
+  it('splits pages into consecutive ranges with a shorter last chunk', () => {
+    expect(planPageChunks(12, 5)).toEqual([
+      { index: 0, startPage: 1, endPage: 5 },
+      { index: 1, startPage: 6, endPage: 10 },
+      { index: 2, startPage: 11, endPage: 12 },
+    ]);
+  });
+
+  it('returns no chunks for an empty document', () => {
+    expect(planPageChunks(0)).toEqual([]);
+  });
+});
+
+describe('normalizeClauseText', () => {
+  it('drops punctuation and case', () => {
+    expect(normalizeClauseText('  The Tenant SHALL pay; (monthly).')).toBe('the tenant shall pay monthly');
+  });
+
+  it('keeps letters and vowel signs of other scripts', () => {
+    expect(normalizeClauseText('किरायेदार भुगतान करेगा।')).toBe('किरायेदार भुगतान करेगा');
+  });
+});
+
+describe('isSameClauseText', () => {
+  it('matches contained and near-identical wording', () => {
+    expect(isSameClauseText('tenant shall pay rent', 'the tenant shall pay rent monthly')).toBe(true);
+    expect(isSameClauseText(
+      'the landlord may enter the premises with twenty four hours notice for inspections repairs and viewings',
+      'the landlord may enter the premises with twenty four hours notice for inspection repairs and viewings'
+    )).toBe(true);
+    expect(isSameClauseText('tenant shall pay rent monthly', 'landlord shall repair the roof')).toBe(false);
+  });
+
+  it('never matches empty text', () => {
+    expect(isSameClauseText('', '')).toBe(false);
+    expect(isSameClauseText('', 'rent')).toBe(false);
+  });
+});
+
+describe('deduplicateClauses', () => {
+  it('keeps the riskier rating of a clause reported twice', () => {
+    const result = deduplicateClauses([
+      clause('a', 'The Tenant shall pay rent monthly.', RiskLevel.LOW),
+      clause('b', 'Tenant shall pay rent monthly', RiskLevel.HIGH),
+    ]);
+    expect(result.map(item => item.id)).toEqual(['b']);
+  });
+
+  it('keeps the longer text when the ratings are equal', () => {
+    const result = deduplicateClauses([
+      clause('a', 'Tenant shall pay rent', RiskLevel.MEDIUM),
+      clause('b', 'Tenant shall pay rent by the first of each month', RiskLevel.MEDIUM),
+    ]);
+    expect(result.map(item => item.id)).toEqual(['b']);
+  });
+
+  it('keeps distinct clauses in a non-Latin script apart', () => {
+    const result = deduplicateClauses([
+      clause('a', 'किरायेदार हर महीने किराया देगा।'),
+      clause('b', 'मकान मालिक मरम्मत करेगा।'),
+    ]);
+    expect(result).toHaveLength(2);
+  });
+});
+
+describe('mergeKeyTerms', () => {
+  it('takes single values from the first chunk and combines lists', () => {
+    const merged = mergeKeyTerms([
+      undefined,
+      { parties: [{ name: 'Acme Ltd', role: 'Landlord' }], payments: [], governingLaw: 'England' },
+      {
+        parties: [{ name: 'ACME LTD', role: 'Landlord' }, { name: 'Jo', role: 'Tenant' }],
+        payments: [{ description: 'Rent', amount: 900, currency: 'GBP' }],
+        governingLaw: 'Scotland',
+        venue: 'London',
+      },
+    ]);
+    expect(merged).toMatchObject({
+      parties: [{ name: 'Acme Ltd' }, { name: 'Jo' }],
+      payments: [{ description: 'Rent', amount: 900 }],
+      governingLaw: 'England',
+      venue: 'London',
+    });
+  });
+
+  it('returns undefined when no chunk had key terms', () => {
+    expect(mergeKeyTerms([undefined, undefined])).toBeUndefined();
+  });
+});
+
+describe('mergeChunkAnalyses', () => {
+  it('renumbers clauses and points obligations at the merged clause', () => {
+    const merged = mergeChunkAnalyses([
+      chunk({
+        summary: 'First part.',
+        modelRiskScore: 30,
+        clauses: [clause('clause-1', 'Rent is due monthly.'), clause('clause-2', 'Either party may terminate on notice.')],
+      }),
+      chunk({
+        summary: 'Second part.',
+        modelRiskScore: 80,
+        clauses: [
+          clause('clause-1', 'Either party may terminate on notice', RiskLevel.HIGH),
+          clause('clause-2', 'The deposit is refundable.', RiskLevel.MEDIUM),
+        ],
+        obligations: [{ id: 'obligation-1', description: 'Give notice', category: 'termination', recurrence: 'none', clauseId: 'clause-1' }],
+      }),
+    ]);
+
+    expect(merged.clauses.map(item => [item.id, item.riskLevel])).toEqual([
+      ['clause-1', RiskLevel.LOW],
+      ['clause-2', RiskLevel.HIGH],
+      ['clause-3', RiskLevel.MEDIUM],
+    ]);
+    expect(merged.overallRisk).toBe(RiskLevel.HIGH);
+    expect(merged.modelRiskScore).toBe(80);
+    expect(merged.summary).toBe('First part.\n\nSecond part.');
+    expect(merged.obligations).toEqual([
+      { id: 'obligation-1', description: 'Give notice', category: 'termination', recurrence: 'none', clauseId: 'clause-2' },
+    ]);
+  });
+
+  it('counts a protection as present when any chunk found it', () => {
+    const merged = mergeChunkAnalyses([
+      chunk({ clauses: [], protections: [{ protectionId: 'deposit-return', present: false }] }),
+      chunk({
+        clauses: [clause('clause-1', 'The deposit is returned within 14 days.')],
+        protections: [{ protectionId: 'deposit-return', present: true, clauseId: 'clause-1' }],
+      }),
+    ]);
+    expect(merged.protections).toEqual([{ protectionId: 'deposit-return', present: true, clauseId: 'clause-1' }]);
+    expect(merged.playbookViolations).toBeUndefined();
+  });
+});
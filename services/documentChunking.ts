@@ -0,0 +1,214 @@
+import { PDFDocument } from "pdf-lib";
+import { Clause, ContractAnalysis, KeyTerms, Obligation, PlaybookViolation, ProtectionCheck, RiskLevel, RISK_ORDER, getHighestRiskLevel } from "../types";
+
+// Helpers for splitting long documents into page ranges that are analyzed
+// independently, then merged back into a single ContractAnalysis.
+
+export interface PageChunk {
+  index: number;
+  startPage: number; // 1-based, inclusive
+  endPage: number; // inclusive
+}
+
+// Documents longer than this are analyzed in chunks
+export const CHUNK_PAGE_THRESHOLD = 8;
+export const PAGES_PER_CHUNK = 5;
+
+// Parses the PDF once so each chunk's pages can be copied out of it. Returns
+// null when pdf-lib can't read the file, in which case callers fall back to
+// single-request analysis.
+export const loadPdf = async (base64Data: string): Promise<PDFDocument | null> => {
+  try {
+    return await PDFDocument.load(base64Data, { ignoreEncryption: true });
+  } catch (e) {
+    return null;
+  }
+};
+
+// Builds a smaller PDF holding only the chunk's pages, so each request carries
+// just those pages rather than the whole document
+export const extractPdfPages = async (source: PDFDocument, chunk: PageChunk): Promise<string> => {
+  const part = await PDFDocument.create();
+  const endPage = Math.min(chunk.endPage, source.getPageCount());
+  const indices = Array.from({ length: endPage - chunk.startPage + 1 }, (_, i) => chunk.startPage - 1 + i);
+
+  const pages = await part.copyPages(source, indices);
+  pages.forEach(page => part.addPage(page));
+  return part.saveAsBase64();
+};
+
+export const planPageChunks = (pageCount: number, pagesPerChunk: number = PAGES_PER_CHUNK): PageChunk[] => {
+  const chunks: PageChunk[] = [];
+  for (let start = 1; start <= pageCount; start += pagesPerChunk) {
+    chunks.push({
+      index: chunks.length,
+      startPage: start,
+      endPage: Math.min(start + pagesPerChunk - 1, pageCount),
+    });
+  }
+  return chunks;
+};
+
+// Letters of any script are kept (with their combining marks, which Devanagari
+// and Arabic vowel signs are), so non-English clauses don't normalize to ''
+export const normalizeClauseText = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+const tokenSimilarity = (a: string, b: string): number => {
+  const tokensA = new Set(a.split(' '));
+  const tokensB = new Set(b.split(' '));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++;
+  });
+  return shared / (tokensA.size + tokensB.size - shared);
+};
+
+// Clauses that straddle a chunk boundary are often reported by both chunks.
+// Two clauses are duplicates when one contains the other or their wording
+// overlaps heavily; the riskier rating wins. A clause with no normalized text
+// left can't be compared, so it never matches.
+export const isSameClauseText = (a: string, b: string): boolean =>
+  a.length > 0 && b.length > 0 && (
+    a === b ||
+    a.includes(b) ||
+    b.includes(a) ||
+    tokenSimilarity(a, b) >= 0.85
+  );
+
+export const deduplicateClauses = (clauses: Clause[]): Clause[] => {
+  const kept: { clause: Clause; normalized: string }[] = [];
+
+  clauses.forEach(clause => {
+    const normalized = normalizeClauseText(clause.text);
+    const duplicateIndex = kept.findIndex(existing => isSameClauseText(existing.normalized, normalized));
+
+    if (duplicateIndex === -1) {
+      kept.push({ clause, normalized });
+      return;
+    }
+
+    const existing = kept[duplicateIndex];
+    if (RISK_ORDER[clause.riskLevel] > RISK_ORDER[existing.clause.riskLevel] ||
+        (clause.riskLevel === existing.clause.riskLevel && normalized.length > existing.normalized.length)) {
+      kept[duplicateIndex] = { clause, normalized };
+    }
+  });
+
+  return kept.map(item => item.clause);
+};
+
+type KeyTermText = 'effectiveDate' | 'expiryDate' | 'renewalTerms' | 'noticePeriod' | 'governingLaw' | 'venue';
+
+// Single-value facts come from the first chunk that states them (usually the
+// opening pages); parties and payments are combined across chunks.
+export const mergeKeyTerms = (terms: (KeyTerms | undefined)[]): KeyTerms | undefined => {
+  const present = terms.filter((item): item is KeyTerms => item !== undefined);
+  if (present.length === 0) return undefined;
+
+  const first = (key: KeyTermText) => present.map(item => item[key]).find(Boolean);
+
+  const parties = present.flatMap(item => item.parties)
+    .filter((party, index, all) => all.findIndex(other => other.name.toLowerCase() === party.name.toLowerCase()) === index);
+
+  const payments = present.flatMap(item => item.payments)
+    .filter((payment, index, all) => all.findIndex(other =>
+      other.amount === payment.amount && other.description.toLowerCase() === payment.description.toLowerCase()
+    ) === index);
+
+  return {
+    parties,
+    effectiveDate: first('effectiveDate'),
+    expiryDate: first('expiryDate'),
+    renewalTerms: first('renewalTerms'),
+    noticePeriod: first('noticePeriod'),
+    payments,
+    governingLaw: first('governingLaw'),
+    venue: first('venue'),
+  };
+};
+
+// Chunk clause ids are renumbered on merge, so each obligation's clause is
+// looked up again by its text (which may have been deduplicated into another
+// chunk's clause).
+const createClauseIdResolver = (clauses: Clause[]) => {
+  const mergedTexts = clauses.map(clause => ({ id: clause.id, normalized: normalizeClauseText(clause.text) }));
+
+  return (chunk: ContractAnalysis, clauseId?: string): string | undefined => {
+    const source = clauseId && chunk.clauses.find(clause => clause.id === clauseId);
+    if (!source) return undefined;
+    const normalized = normalizeClauseText(source.text);
+    return mergedTexts.find(merged => isSameClauseText(merged.normalized, normalized))?.id;
+  };
+};
+
+const mergeObligations = (chunks: ContractAnalysis[], clauses: Clause[]): Obligation[] => {
+  const resolveClauseId = createClauseIdResolver(clauses);
+
+  return chunks
+    .flatMap(chunk => (chunk.obligations || []).map(obligation => ({
+      ...obligation,
+      clauseId: resolveClauseId(chunk, obligation.clauseId),
+    })))
+    .filter((obligation, index, all) => all.findIndex(other =>
+      other.dueDate === obligation.dueDate && other.description.toLowerCase() === obligation.description.toLowerCase()
+    ) === index)
+    .map((obligation, index) => ({ ...obligation, id: `obligation-${index + 1}` }));
+};
+
+// Each chunk only sees its own pages, so a protection counts as present when
+// any chunk found it
+const mergeProtections = (chunks: ContractAnalysis[], clauses: Clause[]): ProtectionCheck[] => {
+  const resolveClauseId = createClauseIdResolver(clauses);
+  const merged = new Map<string, ProtectionCheck>();
+
+  chunks.forEach(chunk => (chunk.protections || []).forEach(check => {
+    const existing = merged.get(check.protectionId);
+    if (existing?.present) return;
+    if (!existing || check.present) {
+      merged.set(check.protectionId, { ...check, clauseId: resolveClauseId(chunk, check.clauseId) });
+    }
+  }));
+
+  return Array.from(merged.values());
+};
+
+// The same rule broken by the same clause is reported once
+const mergePlaybookViolations = (chunks: ContractAnalysis[], clauses: Clause[]): PlaybookViolation[] | undefined => {
+  if (chunks.every(chunk => !chunk.playbookViolations)) return undefined;
+
+  const resolveClauseId = createClauseIdResolver(clauses);
+  const merged = new Map<string, PlaybookViolation>();
+
+  chunks.forEach(chunk => (chunk.playbookViolations || []).forEach(violation => {
+    const clauseId = resolveClauseId(chunk, violation.clauseId);
+    const key = `${violation.ruleId}|${clauseId || ''}`;
+    if (!merged.has(key)) merged.set(key, { ...violation, clauseId });
+  }));
+
+  return Array.from(merged.values());
+};
+
+// Overall risk follows the riskiest clause; the model's score follows the riskiest chunk
+export const mergeChunkAnalyses = (chunks: ContractAnalysis[]): ContractAnalysis => {
+  const clauses = deduplicateClauses(chunks.flatMap(chunk => chunk.clauses || []))
+    .map((clause, index) => ({ ...clause, id: `clause-${index + 1}` }));
+
+  const overallRisk = getHighestRiskLevel(clauses) || RiskLevel.LOW;
+
+  const scores = chunks.map(chunk => chunk.modelRiskScore).filter((score): score is number => typeof score === 'number');
+
+  return {
+    summary: chunks.map(chunk => chunk.summary).filter(Boolean).join('\n\n'),
+    overallRisk,
+    modelRiskScore: scores.length > 0 ? Math.max(...scores) : undefined,
+    clauses,
+    fullText: chunks.map(chunk => chunk.fullText || '').filter(Boolean).join('\n\n'),
+    keyTerms: mergeKeyTerms(chunks.map(chunk => chunk.keyTerms)),
+    obligations: mergeObligations(chunks, clauses),
+    protections: mergeProtections(chunks, clauses),
+    playbookViolations: mergePlaybookViolations(chunks, clauses),
+  };
+};
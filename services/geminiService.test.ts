@@ -0,0 +1,70 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ChatMessage, Contract, RiskLevel } from "../types";
+import { setAIProvider } from "./aiProvider";
+import { analyzeContract, compareContracts, toChatHistory } from "./geminiService";
+import { computeRiskScore } from "./riskScore";
+import { MOCK_ANALYSIS, createMockProvider } from "./providers/mockProvider";
+
+const message = (role: ChatMessage['role'], text: string, status?: ChatMessage['status']): ChatMessage =>
+  ({ role, text, timestamp: 0, status });
+
+describe('with the mock provider', () => {
+  beforeAll(() => setAIProvider(createMockProvider()));
+  afterAll(() => setAIProvider(null));
+
+  it('analyzes a document and computes the risk score locally', async () => {
+    const analysis = await analyzeContract('aW1hZ2U=', 'image/png', undefined, 'en', [
+      { id: 'rule-1', name: 'No unlimited liability', description: 'Liability must be capped.', severity: RiskLevel.HIGH },
+    ]);
+
+    expect(analysis.contractType).toBe('services');
+    expect(analysis.outputLanguage).toBe('en');
+    expect(analysis.clauses).toHaveLength(MOCK_ANALYSIS.clauses.length);
+    expect(analysis.modelRiskScore).toBe(MOCK_ANALYSIS.riskScore);
+    expect(analysis.riskScore).toBe(computeRiskScore(MOCK_ANALYSIS.clauses).score);
+    expect(analysis.playbookViolations).toMatchObject([{ ruleId: 'rule-1', clauseId: 'clause-4', ruleName: 'No unlimited liability' }]);
+  });
+
+  it('compares contracts and keeps scores only for the compared ones', async () => {
+    const contracts: Contract[] = ['a', 'b'].map(id => ({
+      id,
+      userId: 'user-1',
+      fileName: `${id}.pdf`,
+      uploadDate: 0,
+      status: 'analyzed',
+      analysis: MOCK_ANALYSIS,
+    }));
+
+    const result = await compareContracts(contracts, 'en');
+
+    expect(result.recommendedId).toBe('a');
+    expect(result.criterionScores.map(entry => entry.contractId)).toEqual(['a', 'b']);
+  });
+});
+
+describe('toChatHistory', () => {
+  it('keeps completed turns', () => {
+    const messages = [message('user', 'Hi'), message('model', 'Hello')];
+    expect(toChatHistory(messages)).toEqual(messages);
+  });
+
+  it('drops a failed reply together with its question', () => {
+    expect(toChatHistory([
+      message('user', 'First'),
+      message('model', 'Answer'),
+      message('user', 'Second'),
+      message('model', '', 'error'),
+      message('user', 'Third'),
+      message('model', 'Answer three'),
+    ]).map(item => item.text)).toEqual(['First', 'Answer', 'Third', 'Answer three']);
+  });
+
+  it('drops a trailing question and repeated questions without a reply', () => {
+    expect(toChatHistory([
+      message('user', 'Lost'),
+      message('user', 'Asked again'),
+      message('model', 'Answer'),
+      message('user', 'Pending'),
+    ]).map(item => item.text)).toEqual(['Asked again', 'Answer']);
+  });
+});
@@ -1,9 +1,23 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { ContractAnalysis, RiskLevel, ChatMessage, Contract, ComparisonResult } from "../types";
-
-// Note: In a real production app, this key should be proxied through a backend.
-// For this demo, we assume process.env.API_KEY is available or injected.
-const API_KEY = process.env.API_KEY || '';
+import { Type, Schema } from "@google/genai";
+import { ContractAnalysis, ChatMessage, Contract, ComparisonResult, ContractType, ClauseRedline, PlaybookRule } from "../types";
+import { AIContent, AIRequest, getAIProvider, userText } from "./aiProvider";
+import { ContractClassification, ValidationResult, validateClauseRedline, validateComparisonResult, validateContractAnalysis, validateContractClassification } from "./responseValidation";
+import { MalformedResponseError, classifyAIError, waitBeforeRetry, withRetry } from "./aiErrors";
+import { CHUNK_PAGE_THRESHOLD, PageChunk, extractPdfPages, loadPdf, mergeChunkAnalyses, planPageChunks } from "./documentChunking";
+import { apiClient, isProxyEnabled } from "./apiClient";
+import { anchorClauses } from "./clauseAnchoring";
+import { CONTRACT_TEMPLATES, CONTRACT_TYPES, getProtectionChecklist, getRiskCriteria } from "./contractTemplates";
+import { getLanguageName, getOutputLanguagePreference, resolveOutputLanguage } from "./languages";
+import { getActivePlaybookRules } from "./playbook";
+import { applyRiskScore } from "./riskScore";
+import { COMPARISON_CRITERIA, MAX_CRITERION_SCORE } from "./comparisonMatrix";
+
+// Calls go to the provider returned by getAIProvider(): Gemini, an
+// OpenAI-compatible endpoint or the offline mock. The one chosen under My
+// Profile → AI Provider wins, falling back to process.env.AI_PROVIDER (Gemini
+// when unset). With AI_PROXY=true every call below goes through the backend in
+// server/ instead, which runs this same module with the API key kept
+// server-side and its provider fixed by its own environment.
 
 // Schema definition for the expected output
 const analysisSchema: Schema = {
@@ -50,8 +64,127 @@ const analysisSchema: Schema = {
       type: Type.STRING,
       description: "The full raw text transcribed from the document (OCR).",
     },
+    keyTerms: {
+      type: Type.OBJECT,
+      description: "Key facts stated in the contract. Use an empty string or empty list for anything the document does not state.",
+      properties: {
+        parties: {
+          type: Type.ARRAY,
+          description: "Every party to the contract.",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              name: { type: Type.STRING, description: "The party's name as written in the document." },
+              role: { type: Type.STRING, description: "The party's role (e.g., 'Landlord', 'Tenant', 'Service Provider', 'Client')." },
+            },
+            required: ["name", "role"],
+          },
+        },
+        effectiveDate: { type: Type.STRING, description: "When the contract starts. YYYY-MM-DD if an exact date is given, otherwise as written." },
+        expiryDate: { type: Type.STRING, description: "When the contract ends. YYYY-MM-DD if an exact date is given, otherwise as written." },
+        renewalTerms: { type: Type.STRING, description: "How and when the contract renews, in one short sentence." },
+        noticePeriod: { type: Type.STRING, description: "Notice required to terminate or prevent renewal (e.g., '90 days before the end of the term')." },
+        payments: {
+          type: Type.ARRAY,
+          description: "Amounts the user must pay (fees, rent, deposits, late charges).",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              description: { type: Type.STRING, description: "What the payment is for and how often." },
+              amount: { type: Type.NUMBER, description: "The amount as a plain number, if stated." },
+              currency: { type: Type.STRING, description: "ISO 4217 currency code (e.g., 'USD', 'EUR', 'INR'), if known." },
+            },
+            required: ["description"],
+          },
+        },
+        governingLaw: { type: Type.STRING, description: "The jurisdiction whose law governs the contract." },
+        venue: { type: Type.STRING, description: "Courts, arbitration forum or location for resolving disputes." },
+      },
+      required: ["parties", "payments"],
+    },
+    obligations: {
+      type: Type.ARRAY,
+      description: "Obligations and deadlines created by the contract (renewal notice cut-offs, payment due dates, termination windows).",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          description: { type: Type.STRING, description: "What must be done, in plain English (e.g., 'Send written notice to stop the automatic renewal')." },
+          category: {
+            type: Type.STRING,
+            enum: ["renewal-notice", "payment", "termination", "other"],
+            description: "The kind of obligation.",
+          },
+          dueDate: { type: Type.STRING, description: "The date (YYYY-MM-DD) by which it must be done, or of its first occurrence if it repeats. Empty if it can't be determined." },
+          recurrence: {
+            type: Type.STRING,
+            enum: ["none", "weekly", "monthly", "quarterly", "yearly"],
+            description: "How often the obligation repeats.",
+          },
+          party: { type: Type.STRING, description: "The party that has to act." },
+          clauseId: { type: Type.STRING, description: "The id of the clause in 'clauses' that creates this obligation, if any." },
+        },
+        required: ["description", "category", "recurrence"],
+      },
+    },
+    protections: {
+      type: Type.ARRAY,
+      description: "One entry per item of the expected-protections checklist given in the instructions.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          protectionId: { type: Type.STRING, description: "The checklist item's id." },
+          present: { type: Type.BOOLEAN, description: "Whether the document provides this protection." },
+          clauseId: { type: Type.STRING, description: "The id of the clause in 'clauses' that provides it, if present." },
+        },
+        required: ["protectionId", "present"],
+      },
+    },
+    playbookViolations: {
+      type: Type.ARRAY,
+      description: "One entry per clause that breaks one of the user's playbook rules given in the instructions.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          ruleId: { type: Type.STRING, description: "The id of the rule that is broken." },
+          clauseId: { type: Type.STRING, description: "The id of the clause in 'clauses' that breaks it." },
+          explanation: { type: Type.STRING, description: "How the clause breaks the rule, in one or two sentences." },
+        },
+        required: ["ruleId", "explanation"],
+      },
+    },
+  },
+  required: ["summary", "overallRisk", "riskScore", "clauses", "fullText", "keyTerms", "obligations", "protections"],
+};
+
+const classificationSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    contractType: {
+      type: Type.STRING,
+      enum: CONTRACT_TYPES,
+      description: "The kind of document: nda, lease, employment, saas (SaaS or terms of service), loan, services (freelance or service agreements) or other.",
+    },
+    language: {
+      type: Type.STRING,
+      description: "The ISO 639-1 code of the language the document is written in (e.g. 'en', 'es', 'hi').",
+    },
   },
-  required: ["summary", "overallRisk", "riskScore", "clauses", "fullText"],
+  required: ["contractType", "language"],
+};
+
+const redlineSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    suggestedText: {
+      type: Type.STRING,
+      description: "The complete replacement clause, written as contract language that could be pasted into the document.",
+    },
+    rationale: {
+      type: Type.STRING,
+      description: "Why the new wording is fairer and what it changes, in plain English for a non-expert.",
+    },
+  },
+  required: ["suggestedText", "rationale"],
 };
 
 const comparisonSchema: Schema = {
@@ -70,41 +203,66 @@ const comparisonSchema: Schema = {
       items: { type: Type.STRING },
       description: "A list of bullet points highlighting the main differences (e.g., 'Contract A has a non-compete, Contract B does not').",
     },
+    criterionScores: {
+      type: Type.ARRAY,
+      description: "One entry per contract, scoring it on each comparison criterion.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          contractId: { type: Type.STRING, description: "The ID of the contract being scored." },
+          scores: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                criterion: { type: Type.STRING, enum: COMPARISON_CRITERIA.map(criterion => criterion.id) },
+                score: { type: Type.NUMBER, description: `0 (very unfavorable to the user) to ${MAX_CRITERION_SCORE} (very favorable).` },
+                note: { type: Type.STRING, description: "One sentence on what drives this score." },
+              },
+              required: ["criterion", "score", "note"],
+            },
+          },
+        },
+        required: ["contractId", "scores"],
+      },
+    },
   },
-  required: ["recommendedId", "reasoning", "keyDifferences"],
+  required: ["recommendedId", "reasoning", "keyDifferences", "criterionScores"],
 };
 
-// Helper to handle API errors consistently
-const handleGenAIError = (error: any): never => {
+// Helper to handle API errors consistently: logs and rethrows as a typed AIServiceError
+const handleGenAIError = (error: unknown): never => {
   console.error("GenAI Error:", error);
-  let errorMessage = "An unexpected error occurred during processing.";
-
-  if (error.message) {
-    const msg = error.message.toLowerCase();
-    if (msg.includes('429') || msg.includes('quota') || msg.includes('resource exhausted')) {
-      errorMessage = "AI usage limit exceeded. Please try again in a few moments.";
-    } else if (msg.includes('403') || msg.includes('key') || msg.includes('permission')) {
-      errorMessage = "Authentication failed. Please check the system configuration.";
-    } else if (msg.includes('413') || msg.includes('too large')) {
-      errorMessage = "The document is too large for the AI to process.";
-    } else if (msg.includes('503') || msg.includes('overloaded') || msg.includes('unavailable')) {
-      errorMessage = "AI service is temporarily unavailable. Please retry.";
-    } else if (msg.includes('safety') || msg.includes('blocked')) {
-      errorMessage = "The document was flagged by safety settings and could not be analyzed.";
-    } else if (msg.includes('json') || msg.includes('parse')) {
-      errorMessage = "Received an invalid response format from AI. Please retry.";
-    } else {
-      errorMessage = `Processing failed: ${error.message}`;
+  throw classifyAIError(error);
+};
+
+// All one-shot calls go through here so transient failures are retried with backoff
+const generateWithRetry = (request: AIRequest): Promise<string> =>
+  withRetry(() => getAIProvider().generate(request));
+
+// Streams with the same retry policy, but only until the first chunk arrives -
+// a partially delivered answer is never replayed.
+async function* streamWithRetry(request: AIRequest, signal?: AbortSignal): AsyncGenerator<string> {
+  let receivedText = false;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      for await (const delta of getAIProvider().generateStream(request, signal)) {
+        receivedText = true;
+        yield delta;
+      }
+      return;
+    } catch (error) {
+      const classified = classifyAIError(error);
+      if (receivedText || !(await waitBeforeRetry(classified, attempt, { signal }))) throw classified;
     }
   }
-  
-  throw new Error(errorMessage);
-};
+}
 
 // Helper to clean and parse JSON that might be wrapped in markdown
 const parseJSONResponse = <T>(text: string | undefined): T => {
   if (!text) {
-    throw new Error("Empty response from AI service.");
+    throw new MalformedResponseError("Empty response from AI service.");
   }
 
   // Remove Markdown code block syntax if present (e.g. ```json ... ```)
@@ -117,35 +275,87 @@ const parseJSONResponse = <T>(text: string | undefined): T => {
     return JSON.parse(cleanText) as T;
   } catch (e) {
     console.error("Failed to parse JSON:", cleanText);
-    throw new Error("Failed to parse AI response. The model output was not valid JSON.");
+    throw new MalformedResponseError("Failed to parse AI response. The model output was not valid JSON.");
   }
 };
 
-export const analyzeContract = async (
-  base64Data: string,
-  mimeType: string
-): Promise<ContractAnalysis> => {
-  if (!API_KEY) {
-    throw new Error("API Key is missing. Please set process.env.API_KEY.");
-  }
+// Parses and validates a structured response. If the output can't be repaired
+// locally, the model is asked once more with the validation errors attached.
+const generateValidated = async <T>(
+  request: AIRequest,
+  validate: (raw: unknown) => ValidationResult<T>
+): Promise<T> => {
+  const attempt = (text: string): ValidationResult<T> => {
+    try {
+      return validate(parseJSONResponse<unknown>(text));
+    } catch (e: any) {
+      return { errors: [e.message] };
+    }
+  };
 
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
+  const firstText = await generateWithRetry(request);
+  const first = attempt(firstText);
+  if (first.value) return first.value;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-lite",
-      contents: [
-        {
-          role: "user",
-          parts: [
-            {
-              inlineData: {
-                mimeType: mimeType,
-                data: base64Data,
-              },
-            },
-            {
-              text: `You are an expert legal aide for non-lawyers. Analyze this document.
+  console.warn("AI response failed validation, requesting a corrected response:", first.errors);
+
+  const retryText = await generateWithRetry({
+    ...request,
+    contents: [
+      ...request.contents,
+      { role: 'model', parts: [{ text: firstText || '(empty response)' }] },
+      userText(`Your previous response did not match the required format:
+        ${first.errors.map(error => `- ${error}`).join('\n        ')}
+        
+        Return the complete, corrected JSON object only.`),
+    ],
+  });
+  const retry = attempt(retryText);
+  if (retry.value) return retry.value;
+
+  console.error("AI response failed validation after retry:", retry.errors);
+  throw new MalformedResponseError(`Received an invalid response format from AI (${retry.errors[0]}). Please retry.`);
+};
+
+// Bump whenever ANALYSIS_INSTRUCTIONS or analysisSchema change, so cached
+// analyses produced by the old prompt are not reused
+export const ANALYSIS_PROMPT_VERSION = 'analysis-v7';
+
+// Appended to prompts so explanations come back in the user's language
+const languageInstruction = (outputLanguage: string): string =>
+  `Write your response in ${getLanguageName(outputLanguage)}.`;
+
+// Identifies the model behind new analyses. Behind the proxy the server picks
+// the model, so the client can only tell that the proxy was used.
+export const getAnalysisModelId = (): string => {
+  if (isProxyEnabled()) return 'proxy';
+  const provider = getAIProvider();
+  return `${provider.name}:${provider.getModelName('fast')}`;
+};
+
+const formatCriteria = (criteria: string[]): string =>
+  criteria.map(item => `- ${item}`).join('\n                 ');
+
+// Instructions shared by whole-document and per-chunk analysis requests, with
+// the risk criteria of the detected contract type
+const buildAnalysisInstructions = (
+  contractType: ContractType,
+  outputLanguage: string,
+  documentLanguage: string | undefined,
+  playbookRules: PlaybookRule[]
+): string => {
+  const template = CONTRACT_TEMPLATES[contractType];
+  const criteria = getRiskCriteria(contractType);
+  const checklist = getProtectionChecklist(contractType);
+  const outputLanguageName = getLanguageName(outputLanguage);
+
+  return `You are an expert legal aide for non-lawyers. Analyze this document.
+              This document has been classified as: ${template.label}. ${template.focus}
+              ${documentLanguage ? `The document is written in ${getLanguageName(documentLanguage)}.` : ''}
+
+              LANGUAGE: Write the 'summary', every clause 'explanation' and 'reason', the key-term and obligation
+              descriptions in ${outputLanguageName}. Keep 'fullText' and each clause 'text' exactly as written in the
+              document, in its original language - never translate them.
               
               Task 1: Optical Character Recognition (OCR)
               Extract and transcribe the full text of the document into the 'fullText' field. Be as accurate as possible.
@@ -156,26 +366,19 @@ export const analyzeContract = async (
               IF THE DOCUMENT IS NOT A LEGAL CONTRACT (e.g., a receipt, a random image, a simple letter, or text without legal obligations):
               - Set 'overallRisk' to "Low".
               - Set 'riskScore' to 0.
-              - In the 'summary', clearly state: "This document does not appear to contain any legal terms or binding obligations."
+              - In the 'summary', clearly state (in ${outputLanguageName}): "This document does not appear to contain any legal terms or binding obligations."
               - Return an empty list for 'clauses' or a single clause stating it is safe.
               
               IF IT IS A CONTRACT, strictly evaluate risk levels based on the following criteria:
               
               1. HIGH RISK (Red):
-                 - Unlimited liability.
-                 - Unilateral termination without cause.
-                 - Waiver of rights (jury trial, class action).
-                 - Automatic renewal with difficult cancellation.
+                 ${formatCriteria(criteria.high)}
               
               2. MEDIUM RISK (Amber):
-                 - Ambiguous terms.
-                 - Unbalanced indemnification.
-                 - Long notice periods.
+                 ${formatCriteria(criteria.medium)}
               
               3. LOW RISK (Green):
-                 - Standard boilerplate.
-                 - Mutual obligations.
-                 - Clear pricing.
+                 ${formatCriteria(criteria.low)}
 
               Identify key clauses. For each clause:
               1. **Simple English**: Explain the clause in plain, simple English suitable for a 6th grader.
@@ -183,20 +386,191 @@ export const analyzeContract = async (
               3. **No Statutes**: Do NOT mention specific section numbers of any external law, statute, or act (e.g., do not say "Under UCC 2-207" or "Section 10 of Contract Act"). If you must refer to legal concepts, use "general contract law principles".
               4. **Disclaimer**: Implicitly suggest in the explanation that for specific legal interpretations, one should consult a lawyer.
 
-              Return the result in the specified JSON format.`,
+              Task 3: Key Terms
+              Fill 'keyTerms' with the facts stated in the document: the parties and their roles, the effective and expiry dates,
+              renewal terms, notice periods, payment amounts with their currency, and the governing law and dispute venue.
+              Only report what the document actually says; leave a field empty rather than guessing.
+
+              Task 4: Obligations & Deadlines
+              List in 'obligations' what each party must do and by when: renewal notice cut-offs, payment due dates,
+              termination windows and other deadlines. Work out concrete dates where the document allows it
+              (e.g. a 90-day non-renewal notice on a one-year term starting 2025-01-01 is due by 2025-10-03).
+              Link each obligation to the clause it comes from via 'clauseId'.
+
+              Task 5: Expected Protections
+              Check whether the document provides each of these protections for the reader. Add one entry per item
+              to 'protections' with its id, whether it is present, and the 'clauseId' of the clause providing it.
+              If the clause providing it is not in 'clauses' yet, add it there (usually as Low risk).
+                 ${checklist.map(item => `- ${item.id}: ${item.description}`).join('\n                 ')}
+              ${playbookRules.length > 0 ? `
+              Task 6: Playbook Rules
+              The reader's organisation has its own red lines, listed below with their id and severity. For every clause
+              that breaks one of them, add an entry to 'playbookViolations' with the rule's id, the 'clauseId' and a short
+              explanation of how the clause breaks the rule. Leave 'playbookViolations' empty when no rule is broken.
+                 ${playbookRules.map(rule => `- ${rule.id} (${rule.severity}): ${rule.name}${rule.description ? ` - ${rule.description}` : ''}`).join('\n                 ')}
+              ` : ''}
+              Return the result in the specified JSON format.`;
+};
+
+export interface AnalysisProgress {
+  stage: 'analyzing' | 'merging';
+  completed: number; // Chunks finished so far
+  total: number; // Total chunks (1 for documents analyzed in a single request)
+}
+
+// Long documents are classified from their first chunk of pages, which holds
+// the title and recitals
+const classifyContract = async (base64Data: string, mimeType: string, firstChunk?: PageChunk): Promise<ContractClassification> => {
+  const scopeNote = firstChunk ? `These are the first ${firstChunk.endPage} pages of a longer document. ` : '';
+
+  try {
+    return await generateValidated({
+      task: 'classification',
+      tier: 'fast',
+      contents: [
+        {
+          role: "user",
+          parts: [
+            { inlineData: { mimeType, data: base64Data } },
+            {
+              text: `${scopeNote}Classify this document by its type: a non-disclosure agreement (nda), a residential or commercial lease (lease),
+              an employment contract or offer (employment), SaaS terms or terms of service (saas), a loan or credit agreement (loan),
+              a freelance or services agreement (services), or anything else (other).
+              Also detect the language the document is written in. Return the result in the specified JSON format.`,
             },
           ],
         },
       ],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: analysisSchema,
-        temperature: 0.2,
+      responseSchema: classificationSchema,
+      temperature: 0,
+    }, validateContractClassification);
+  } catch (error) {
+    // The generic template still gives a usable analysis
+    console.warn("Failed to classify the document, using the generic template", error);
+    return { contractType: 'other' };
+  }
+};
+
+// Runs the analysis prompt over the whole document, or over one chunk whose
+// pages have already been extracted into `base64Data`
+const requestAnalysis = async (
+  base64Data: string,
+  mimeType: string,
+  classification: ContractClassification,
+  outputLanguage: string,
+  playbookRules: PlaybookRule[],
+  chunk?: PageChunk,
+  pageCount?: number
+): Promise<ContractAnalysis> => {
+  const scopeNote = chunk ? `IMPORTANT: This document has ${pageCount} pages and is being processed in parts.
+              You are given pages ${chunk.startPage} to ${chunk.endPage}. Transcribe them into 'fullText', report the
+              clauses that appear on them, and summarize only these pages.
+
+              ` : '';
+
+  return generateValidated({
+    task: 'analysis',
+    tier: 'fast',
+    contents: [
+      {
+        role: "user",
+        parts: [
+          {
+            inlineData: {
+              mimeType: mimeType,
+              data: base64Data,
+            },
+          },
+          {
+            text: scopeNote + buildAnalysisInstructions(classification.contractType, outputLanguage, classification.language, playbookRules),
+          },
+        ],
       },
-    });
+    ],
+    responseSchema: analysisSchema,
+    temperature: 0.2,
+  }, raw => validateContractAnalysis(raw, playbookRules));
+};
 
-    return parseJSONResponse<ContractAnalysis>(response.text);
+// Combines the per-chunk summaries into one summary for the whole document
+const summarizeChunks = async (chunks: ContractAnalysis[], outputLanguage: string): Promise<string> => {
+  const partSummaries = chunks.map((chunk, index) => `PART ${index + 1}: ${chunk.summary}`).join('\n\n');
+
+  const responseText = await generateWithRetry({
+    task: 'summary',
+    tier: 'fast',
+    contents: [userText(`
+        The following are summaries of consecutive parts of a single legal contract.
+        
+        ${partSummaries}
+        
+        Write ONE plain-English summary of the whole contract for a non-expert, in a single paragraph.
+        Do not mention that the document was split into parts. Do NOT cite external law sections.
+        ${languageInstruction(outputLanguage)}
+      `)],
+    temperature: 0.2,
+  });
+
+  return responseText.trim();
+};
+
+// The document is classified first so the analysis can use the risk criteria
+// of its type and write in the right language. `outputLanguagePreference` is a
+// language code or 'document' (defaults to the user's setting), and clauses are
+// checked against the user's playbook rules. Short documents are then analyzed
+// in a single request. Long PDFs are split into smaller PDFs of a few pages
+// each that are analyzed one by one and merged (map-reduce), so no request
+// carries the whole file and output isn't truncated on long leases and MSAs.
+// Clauses come back anchored to their position in fullText, and the risk score
+// is computed locally from them.
+export const analyzeContract = async (
+  base64Data: string,
+  mimeType: string,
+  onProgress?: (progress: AnalysisProgress) => void,
+  outputLanguagePreference: string = getOutputLanguagePreference(),
+  playbookRules: PlaybookRule[] = getActivePlaybookRules()
+): Promise<ContractAnalysis> => {
+  try {
+    if (isProxyEnabled()) return await apiClient.analyzeContract(base64Data, mimeType, onProgress, outputLanguagePreference, playbookRules);
+
+    const pdf = mimeType === 'application/pdf' ? await loadPdf(base64Data) : null;
+    const pageCount = pdf ? pdf.getPageCount() : 1;
+    const chunks = pdf && pageCount > CHUNK_PAGE_THRESHOLD ? planPageChunks(pageCount) : [];
+    const firstChunkData = pdf && chunks.length > 0 ? await extractPdfPages(pdf, chunks[0]) : base64Data;
+
+    onProgress?.({ stage: 'analyzing', completed: 0, total: Math.max(chunks.length, 1) });
+    const classification = await classifyContract(firstChunkData, mimeType, chunks[0]);
+    const outputLanguage = resolveOutputLanguage(outputLanguagePreference, classification.language);
+    const details = {
+      contractType: classification.contractType,
+      documentLanguage: classification.language,
+      outputLanguage,
+    };
+
+    if (!pdf || chunks.length === 0) {
+      return applyRiskScore(anchorClauses({ ...(await requestAnalysis(base64Data, mimeType, classification, outputLanguage, playbookRules)), ...details }));
+    }
+
+    const chunkResults: ContractAnalysis[] = [];
+
+    // Sequential on purpose: parallel chunk requests quickly hit rate limits
+    for (const chunk of chunks) {
+      onProgress?.({ stage: 'analyzing', completed: chunk.index, total: chunks.length });
+      const chunkData = chunk.index === 0 ? firstChunkData : await extractPdfPages(pdf, chunk);
+      chunkResults.push(await requestAnalysis(chunkData, mimeType, classification, outputLanguage, playbookRules, chunk, pageCount));
+    }
+
+    onProgress?.({ stage: 'merging', completed: chunks.length, total: chunks.length });
+    const merged = mergeChunkAnalyses(chunkResults);
+
+    try {
+      merged.summary = await summarizeChunks(chunkResults, outputLanguage) || merged.summary;
+    } catch (summaryError) {
+      // The concatenated part summaries are still usable
+      console.warn("Failed to combine chunk summaries", summaryError);
+    }
 
+    return applyRiskScore(anchorClauses({ ...merged, ...details }));
   } catch (error) {
     handleGenAIError(error);
   }
@@ -204,53 +578,114 @@ export const analyzeContract = async (
 
 export const askClauseQuestion = async (
   clauseText: string,
-  question: string
+  question: string,
+  outputLanguage: string = resolveOutputLanguage()
 ): Promise<string> => {
-  if (!API_KEY) return "API Key missing.";
-
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
-
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-lite",
-      contents: `
+    if (isProxyEnabled()) return await apiClient.askClauseQuestion(clauseText, question, outputLanguage);
+
+    const responseText = await generateWithRetry({
+      task: 'clause-question',
+      tier: 'fast',
+      contents: [userText(`
         Context: The user is asking about a specific legal clause.
         Clause: "${clauseText}"
         
         User Question: "${question}"
         
         Answer the question simply and clearly for a layperson. Do NOT cite specific external law sections. Keep it brief.
-      `,
+        ${languageInstruction(outputLanguage)}
+      `)],
     });
 
-    return response.text || "Could not generate an answer.";
+    return responseText || "Could not generate an answer.";
   } catch (error) {
-    console.error("Error asking question:", error);
-    // Return a soft error for chat interactions instead of throwing
-    return "Sorry, I couldn't answer that right now due to a connection issue.";
+    handleGenAIError(error);
   }
 };
 
-export const sendChatMessage = async (
+// Proposes fairer replacement wording the reader can ask for in negotiation
+export const suggestClauseRedline = async (
+  clauseText: string,
+  riskReason: string,
+  contractType?: ContractType,
+  outputLanguage: string = resolveOutputLanguage()
+): Promise<ClauseRedline> => {
+  try {
+    if (isProxyEnabled()) return await apiClient.suggestClauseRedline(clauseText, riskReason, contractType, outputLanguage);
+
+    const typeNote = contractType && contractType !== 'other'
+      ? `The clause is from a ${CONTRACT_TEMPLATES[contractType].label} contract. ${CONTRACT_TEMPLATES[contractType].focus}`
+      : '';
+
+    const redline = await generateValidated({
+      task: 'redline',
+      tier: 'fast',
+      contents: [userText(`
+        You are helping a non-lawyer negotiate a contract. ${typeNote}
+        Clause: "${clauseText}"
+        Identified risk: "${riskReason}"
+
+        Rewrite the clause so it is fair and balanced for the reader while staying realistic for the other side to accept.
+        Keep the original wording wherever it is already fine, so the changes are easy to spot, and keep the same defined terms.
+        Write 'suggestedText' in the same language as the clause. Explain the changes in 'rationale', written in ${getLanguageName(outputLanguage)}.
+        Do NOT cite specific external law sections.
+        Return the result in the specified JSON format.
+      `)],
+      responseSchema: redlineSchema,
+      temperature: 0.3,
+    }, validateClauseRedline);
+
+    return { ...redline, createdAt: Date.now() };
+  } catch (error) {
+    handleGenAIError(error);
+  }
+};
+
+// Prior turns to send with a chat message. Failed replies and empty
+// placeholders are left out, as providers reject turns without text and one
+// failed reply would otherwise break every later message in the chat. The
+// questions they answered go too, so user and model turns keep alternating.
+export const toChatHistory = (messages: ChatMessage[]): ChatMessage[] => {
+  const history: ChatMessage[] = [];
+  messages.forEach(msg => {
+    const unanswered = history.length > 0 && history[history.length - 1].role === 'user';
+    if (msg.role === 'user') {
+      if (unanswered) history.pop();
+      history.push(msg);
+    } else if (msg.status !== 'error' && msg.text.trim() !== '') {
+      history.push(msg);
+    } else if (unanswered) {
+      history.pop();
+    }
+  });
+  if (history.length > 0 && history[history.length - 1].role === 'user') history.pop();
+  return history;
+};
+
+// Streams the assistant reply as text deltas. Stops quietly when `signal` is
+// aborted; on failure it throws an AIServiceError after yielding whatever text
+// arrived so far.
+export async function* streamChatMessage(
   history: ChatMessage[],
   newMessage: string,
-  contractContext: string = ''
-): Promise<string> => {
-  if (!API_KEY) return "API Key missing.";
-
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
+  contractContext: string = '',
+  signal?: AbortSignal,
+  outputLanguage: string = resolveOutputLanguage()
+): AsyncGenerator<string> {
+  if (isProxyEnabled()) {
+    yield* apiClient.streamChatMessage(history, newMessage, contractContext, signal, outputLanguage);
+    return;
+  }
 
   // Format history for the API
-  const contents = history.map(msg => ({
+  const contents: AIContent[] = history.map(msg => ({
     role: msg.role,
     parts: [{ text: msg.text }]
   }));
 
   // Add the new message
-  contents.push({
-    role: 'user',
-    parts: [{ text: newMessage }]
-  });
+  contents.push(userText(newMessage));
 
   const systemInstruction = `
     You are LegalLens AI, a helpful legal assistant specialized in contract analysis.
@@ -270,49 +705,49 @@ export const sendChatMessage = async (
     - Answer general legal questions or guide the user on how to use the app.
     - Remind the user they can upload a contract for specific analysis.
     `}
+
+    LANGUAGE: Reply in ${getLanguageName(outputLanguage)} unless the user writes to you in another language.
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash", 
+    yield* streamWithRetry({
+      task: 'chat',
+      tier: 'chat',
       contents: contents,
-      config: {
-        systemInstruction: systemInstruction,
-        temperature: 0.3,
-      },
-    });
-
-    return response.text || "I couldn't generate a response.";
+      systemInstruction: systemInstruction,
+      temperature: 0.3,
+    }, signal);
   } catch (error) {
     console.error("Error in chat:", error);
-    return "Sorry, I'm having trouble connecting right now. Please try again.";
+    throw classifyAIError(error);
   }
-};
+}
 
 export const compareContracts = async (
-  contracts: Contract[]
+  contracts: Contract[],
+  outputLanguage: string = resolveOutputLanguage()
 ): Promise<ComparisonResult> => {
-  if (!API_KEY) throw new Error("API Key missing");
-
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-  // Dynamically build context for all contracts
-  const contractsContext = contracts.map((c) => {
-      const summary = JSON.stringify({
-          id: c.id,
-          name: c.fileName,
-          riskScore: c.analysis?.riskScore,
-          overallRisk: c.analysis?.overallRisk,
-          summary: c.analysis?.summary,
-          keyClauses: c.analysis?.clauses.map(clause => ({ risk: clause.riskLevel, explanation: clause.explanation }))
-      });
-      return `DOCUMENT NAME: "${c.fileName}"\nDATA: ${summary}`;
-  }).join('\n\n----------------\n\n');
-
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-lite",
-      contents: `
+    if (isProxyEnabled()) return await apiClient.compareContracts(contracts, outputLanguage);
+
+    // Dynamically build context for all contracts
+    const contractsContext = contracts.map((c) => {
+        const summary = JSON.stringify({
+            id: c.id,
+            name: c.fileName,
+            riskScore: c.analysis?.riskScore,
+            overallRisk: c.analysis?.overallRisk,
+            summary: c.analysis?.summary,
+            keyTerms: c.analysis?.keyTerms,
+            keyClauses: c.analysis?.clauses.map(clause => ({ risk: clause.riskLevel, explanation: clause.explanation }))
+        });
+        return `DOCUMENT NAME: "${c.fileName}"\nDATA: ${summary}`;
+    }).join('\n\n----------------\n\n');
+
+    return await generateValidated({
+      task: 'comparison',
+      tier: 'fast',
+      contents: [userText(`
         Compare these ${contracts.length} contracts based on the provided analysis data.
         
         ${contractsContext}
@@ -321,30 +756,33 @@ export const compareContracts = async (
         1. Determine which contract is safest/best for the user.
         2. Provide a short reasoning paragraph.
         3. List key differences.
+        4. Score every contract from 0 to ${MAX_CRITERION_SCORE} on each of these criteria, where ${MAX_CRITERION_SCORE} is most favorable to the user, with a one-sentence note:
+        ${COMPARISON_CRITERIA.map(criterion => `- ${criterion.id}: ${criterion.description}`).join('\n        ')}
+           Score contracts against each other, so the better contract on a criterion scores higher. Leave out a criterion only if the data says nothing about it.
         
+        Write 'reasoning', 'keyDifferences' and the notes in ${getLanguageName(outputLanguage)}.
         Return JSON matching the schema.
-      `,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: comparisonSchema,
-      },
-    });
-
-    return parseJSONResponse<ComparisonResult>(response.text);
+      `)],
+      responseSchema: comparisonSchema,
+    }, (raw) => validateComparisonResult(raw, contracts.map(c => c.id)));
   } catch (error) {
     handleGenAIError(error);
   }
 };
 
-export const queryComparisonDifference = async (
+// Streaming counterpart of the comparison chat, same contract as streamChatMessage
+export async function* streamComparisonDifference(
   history: ChatMessage[],
   newMessage: string,
   contracts: Contract[],
-  focusedDifference: string
-): Promise<string> => {
-  if (!API_KEY) return "API Key missing.";
-
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
+  focusedDifference: string,
+  signal?: AbortSignal,
+  outputLanguage: string = resolveOutputLanguage()
+): AsyncGenerator<string> {
+  if (isProxyEnabled()) {
+    yield* apiClient.streamComparisonDifference(history, newMessage, contracts, focusedDifference, signal, outputLanguage);
+    return;
+  }
 
   // Construct a condensed context of all involved contracts
   const contractsContext = contracts.map((c) => {
@@ -355,16 +793,13 @@ export const queryComparisonDifference = async (
   }).join('\n\n');
 
   // Format history for the API
-  const contents = history.map(msg => ({
+  const contents: AIContent[] = history.map(msg => ({
     role: msg.role,
     parts: [{ text: msg.text }]
   }));
 
   // Add the new message
-  contents.push({
-    role: 'user',
-    parts: [{ text: newMessage }]
-  });
+  contents.push(userText(newMessage));
 
   const systemInstruction = `
     You are an expert legal aide assisting a user who is comparing multiple contracts.
@@ -378,20 +813,18 @@ export const queryComparisonDifference = async (
     INSTRUCTIONS:
     - Explain simply how this difference manifests.
     - Do NOT cite external law sections.
+    - ${languageInstruction(outputLanguage)}
     `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
+    yield* streamWithRetry({
+      task: 'comparison-chat',
+      tier: 'chat',
       contents: contents,
-      config: {
-        systemInstruction: systemInstruction,
-      },
-    });
-
-    return response.text || "I couldn't generate a response.";
+      systemInstruction: systemInstruction,
+    }, signal);
   } catch (error) {
     console.error("Error in comparison chat:", error);
-    return "Sorry, I'm having trouble connecting right now. Please try again.";
+    throw classifyAIError(error);
   }
-};
\ No newline at end of file
+}
\ No newline at end of file
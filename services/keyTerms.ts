@@ -0,0 +1,51 @@
+import { KeyTerms, PaymentTerm } from "../types";
+
+// Display helpers shared by the key-terms panel and the PDF report
+
+export type KeyTermId = 'parties' | 'effectiveDate' | 'expiryDate' | 'renewalTerms' | 'noticePeriod' | 'payments' | 'governingLaw' | 'venue';
+
+export interface KeyTermRow {
+  id: KeyTermId;
+  label: string;
+  value: string; // Empty when the contract doesn't state it
+  items?: string[]; // The individual entries of list-valued terms
+}
+
+// YYYY-MM-DD dates are shown in the user's locale; other wording is kept as written
+export const formatTermDate = (value?: string): string => {
+  if (!value) return '';
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return value;
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? value : date.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+};
+
+// Currency codes rather than symbols, so the PDF's ASCII-only fonts can render them
+export const formatPayment = (payment: PaymentTerm): string => {
+  if (payment.amount === undefined) return payment.description;
+
+  let amount: string;
+  try {
+    amount = payment.currency
+      ? new Intl.NumberFormat(undefined, { style: 'currency', currency: payment.currency, currencyDisplay: 'code' }).format(payment.amount)
+      : payment.amount.toLocaleString();
+  } catch (e) {
+    // Not a valid ISO currency code
+    amount = `${payment.amount.toLocaleString()} ${payment.currency}`;
+  }
+  return `${payment.description}: ${amount.replace(/[\u00a0\u202f]/g, ' ')}`;
+};
+
+const listRow = (id: KeyTermId, label: string, items: string[]): KeyTermRow => ({ id, label, value: items.join('; '), items });
+
+export const describeKeyTerms = (keyTerms: KeyTerms): KeyTermRow[] => [
+  listRow('parties', 'Parties', keyTerms.parties.map(party => `${party.name} (${party.role})`)),
+  { id: 'effectiveDate', label: 'Effective Date', value: formatTermDate(keyTerms.effectiveDate) },
+  { id: 'expiryDate', label: 'Expiry Date', value: formatTermDate(keyTerms.expiryDate) },
+  { id: 'renewalTerms', label: 'Renewal', value: keyTerms.renewalTerms || '' },
+  { id: 'noticePeriod', label: 'Notice Period', value: keyTerms.noticePeriod || '' },
+  listRow('payments', 'Payments', keyTerms.payments.map(formatPayment)),
+  { id: 'governingLaw', label: 'Governing Law', value: keyTerms.governingLaw || '' },
+  { id: 'venue', label: 'Dispute Venue', value: keyTerms.venue || '' },
+];
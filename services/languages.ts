@@ -0,0 +1,74 @@
+import { storageService } from "./storageService";
+
+// Languages the analysis can be written in. Codes are ISO 639-1. Every script
+// used here has a font in the PDF report (see pdfFonts.ts); text in any other
+// script would be dropped from it, so only these are used for output.
+
+export interface LanguageOption {
+  code: string;
+  name: string; // English name, used in prompts
+  nativeName: string;
+}
+
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano' },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands' },
+  { code: 'pl', name: 'Polish', nativeName: 'Polski' },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский' },
+  { code: 'bn', name: 'Bengali', nativeName: 'বাংলা' },
+  { code: 'mr', name: 'Marathi', nativeName: 'मराठी' },
+  { code: 'ta', name: 'Tamil', nativeName: 'தமிழ்' },
+  { code: 'te', name: 'Telugu', nativeName: 'తెలుగు' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية' },
+];
+
+// Languages that are detected and named but never used for output, as the PDF
+// report has no font for their scripts
+const UNSUPPORTED_OUTPUT_LANGUAGES: LanguageOption[] = [
+  { code: 'zh', name: 'Chinese', nativeName: '中文' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語' },
+  { code: 'ko', name: 'Korean', nativeName: '한국어' },
+];
+
+export const DEFAULT_OUTPUT_LANGUAGE = 'en';
+
+// Output language setting meaning "whatever language the contract is in"
+export const DOCUMENT_LANGUAGE = 'document';
+
+// Accepts "es", "ES", "es-MX", "Spanish" or "Español"
+export const normalizeLanguageCode = (value: unknown): string | undefined => {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const text = value.trim().toLowerCase();
+  const code = text.split(/[-_]/)[0];
+
+  const match = [...LANGUAGES, ...UNSUPPORTED_OUTPUT_LANGUAGES].find(language =>
+    language.code === code || language.name.toLowerCase() === text || language.nativeName.toLowerCase() === text
+  );
+  if (match) return match.code;
+  // Unlisted languages are kept when they at least look like a code
+  return /^[a-z]{2,3}$/.test(code) ? code : undefined;
+};
+
+export const getLanguageName = (code?: string): string =>
+  [...LANGUAGES, ...UNSUPPORTED_OUTPUT_LANGUAGES].find(language => language.code === code)?.name || code || LANGUAGES[0].name;
+
+// The user's setting: a language code or DOCUMENT_LANGUAGE
+export const getOutputLanguagePreference = (): string =>
+  storageService.getSettings().outputLanguage || DEFAULT_OUTPUT_LANGUAGE;
+
+// Contracts in an unlisted language (e.g. Hebrew or Thai) are explained in
+// English rather than in a script the report can't show
+export const resolveOutputLanguage = (preference: string = getOutputLanguagePreference(), documentLanguage?: string): string => {
+  const code = preference === DOCUMENT_LANGUAGE ? documentLanguage : normalizeLanguageCode(preference);
+  return code && LANGUAGES.some(language => language.code === code) ? code : DEFAULT_OUTPUT_LANGUAGE;
+};
+
+// Used by the server for preferences sent by the client
+export const parseOutputLanguagePreference = (value: unknown): string | undefined =>
+  value === DOCUMENT_LANGUAGE ? DOCUMENT_LANGUAGE : normalizeLanguageCode(value);
@@ -0,0 +1,114 @@
+import { jsPDF } from "jspdf";
+
+// jsPDF's built-in fonts only cover Latin-1, so reports in other scripts are
+// written with Noto fonts fetched on demand and embedded in the document.
+// jsPDF doesn't shape complex scripts (Indic conjuncts render as separate
+// glyphs) and can't embed the CFF-based CJK fonts, which are left out; CJK
+// languages are therefore not offered as output languages (see languages.ts).
+
+export interface PdfFont {
+  family: string;
+  file: string;
+  pattern: RegExp; // Characters this font is used for
+}
+
+const FONT_BASE_URL = 'https://cdn.jsdelivr.net/gh/notofonts/notofonts.github.io/fonts';
+
+// Helvetica is used for Latin-1 and the fonts below for everything they cover
+export const BASE_FONT = 'helvetica';
+
+const PDF_FONTS: PdfFont[] = [
+  { family: 'NotoSans', file: 'NotoSans/hinted/ttf/NotoSans-Regular.ttf', pattern: /[\u0100-\u024F\u0370-\u03FF\u0400-\u04FF\u2000-\u206F\u20A0-\u20CF]/ },
+  { family: 'NotoSansDevanagari', file: 'NotoSansDevanagari/hinted/ttf/NotoSansDevanagari-Regular.ttf', pattern: /[\u0900-\u097F]/ },
+  { family: 'NotoSansBengali', file: 'NotoSansBengali/hinted/ttf/NotoSansBengali-Regular.ttf', pattern: /[\u0980-\u09FF]/ },
+  { family: 'NotoSansTamil', file: 'NotoSansTamil/hinted/ttf/NotoSansTamil-Regular.ttf', pattern: /[\u0B80-\u0BFF]/ },
+  { family: 'NotoSansTelugu', file: 'NotoSansTelugu/hinted/ttf/NotoSansTelugu-Regular.ttf', pattern: /[\u0C00-\u0C7F]/ },
+  { family: 'NotoSansArabic', file: 'NotoSansArabic/hinted/ttf/NotoSansArabic-Regular.ttf', pattern: /[\u0600-\u06FF\u0750-\u077F]/ },
+];
+
+// Font files as base64, shared by every report generated in this session
+const fontData = new Map<string, Promise<string | null>>();
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const loadFontData = (font: PdfFont): Promise<string | null> => {
+  let pending = fontData.get(font.family);
+  if (!pending) {
+    pending = fetch(`${FONT_BASE_URL}/${font.file}`)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.arrayBuffer();
+      })
+      .then(arrayBufferToBase64)
+      .catch(e => {
+        console.warn(`Failed to load PDF font ${font.family}`, e);
+        fontData.delete(font.family); // Retry on the next report
+        return null;
+      });
+    fontData.set(font.family, pending);
+  }
+  return pending;
+};
+
+// Embeds the fonts needed for the given text and returns the ones that loaded.
+// Text in scripts whose font failed to load falls back to the base font.
+export const embedPdfFonts = async (doc: jsPDF, text: string): Promise<PdfFont[]> => {
+  const needed = PDF_FONTS.filter(font => font.pattern.test(text));
+  const loaded = await Promise.all(needed.map(async font => ({ font, data: await loadFontData(font) })));
+
+  return loaded
+    .filter((entry): entry is { font: PdfFont; data: string } => entry.data !== null)
+    .map(({ font, data }) => {
+      const fileName = font.file.split('/').pop()!;
+      doc.addFileToVFS(fileName, data);
+      // Registered for bold too, so headings don't fall back to a missing style
+      doc.addFont(fileName, font.family, 'normal');
+      doc.addFont(fileName, font.family, 'bold');
+      return font;
+    });
+};
+
+// The jsPDF built-in font used for Latin-1 text in a block, e.g. courier for
+// the OCR text or italic helvetica for quotes
+export interface BaseFont {
+  family?: string; // Defaults to BASE_FONT
+  italic?: boolean;
+}
+
+export interface FontRun {
+  text: string;
+  family: string;
+}
+
+const NEUTRAL_CHAR = /[\s\d!-/:-@[-`{-~]/;
+const BASE_FONT_CHAR = /[\x00-\xFF]/;
+
+// Splits a line into runs that each use one font. Spaces, digits and ASCII
+// punctuation stay with the surrounding run; characters no embedded font
+// covers are dropped so jsPDF doesn't print garbage for them.
+export const splitFontRuns = (line: string, fonts: PdfFont[], baseFamily: string = BASE_FONT): FontRun[] => {
+  const runs: FontRun[] = [];
+  for (const char of line) {
+    let family: string | undefined;
+    if (NEUTRAL_CHAR.test(char) && runs.length > 0) {
+      family = runs[runs.length - 1].family;
+    } else if (BASE_FONT_CHAR.test(char)) {
+      family = baseFamily;
+    } else {
+      family = fonts.find(font => font.pattern.test(char))?.family;
+    }
+    if (!family) continue;
+
+    const last = runs[runs.length - 1];
+    if (last && last.family === family) last.text += char;
+    else runs.push({ text: char, family });
+  }
+  return runs;
+};
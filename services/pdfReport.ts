@@ -0,0 +1,68 @@
+import { jsPDF } from "jspdf";
+import { BASE_FONT, BaseFont, PdfFont, splitFontRuns } from "./pdfFonts";
+
+// Text layout shared by the analysis and comparison reports: wraps text to the
+// page width, adds pages as needed and draws each line run by run so every
+// script uses its embedded font.
+
+export type PdfColor = [number, number, number];
+
+export interface PdfTextWriter {
+  y: number; // Baseline of the next line, in mm from the top of the page
+  readonly margin: number;
+  readonly maxLineWidth: number;
+  addText: (text: string, fontSize: number, isBold?: boolean, color?: PdfColor, baseFont?: BaseFont) => void;
+  // Starts a new page when less than `height` mm is left on this one
+  ensureSpace: (height: number) => void;
+  newPage: () => void;
+}
+
+export const createPdfTextWriter = (doc: jsPDF, fonts: PdfFont[], margin: number = 20): PdfTextWriter => {
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  const writer: PdfTextWriter = {
+    y: margin,
+    margin,
+    maxLineWidth: doc.internal.pageSize.getWidth() - (margin * 2),
+
+    // `baseFont` is used for Latin-1 text; the embedded script fonts have no
+    // italic, so only the base font slants
+    addText: (text, fontSize, isBold = false, color = [60, 60, 60], baseFont = {}) => {
+      const baseFamily = baseFont.family || BASE_FONT;
+      const style = isBold ? "bold" : "normal";
+      const styleFor = (family: string) => family === baseFamily && baseFont.italic ? (isBold ? "bolditalic" : "italic") : style;
+      doc.setFontSize(fontSize);
+      doc.setTextColor(color[0], color[1], color[2]);
+
+      // Wrap with the script font when there is one, as its glyphs are the widest
+      const wrapFont = splitFontRuns(text, fonts, baseFamily).find(run => run.family !== baseFamily)?.family || baseFamily;
+      doc.setFont(wrapFont, styleFor(wrapFont));
+      const lines = doc.splitTextToSize(text, writer.maxLineWidth);
+      const lineHeight = fontSize * 0.45; // mm approx
+
+      lines.forEach((line: string) => {
+        writer.ensureSpace(lineHeight);
+        // Each line is drawn run by run, switching fonts between scripts
+        let x = margin;
+        splitFontRuns(line, fonts, baseFamily).forEach(run => {
+          doc.setFont(run.family, styleFor(run.family));
+          doc.text(run.text, x, writer.y);
+          x += doc.getTextWidth(run.text);
+        });
+        writer.y += lineHeight + 1.5; // line spacing
+      });
+      writer.y += 2; // Paragraph spacing
+    },
+
+    ensureSpace: (height) => {
+      if (writer.y + height > pageHeight - margin) writer.newPage();
+    },
+
+    newPage: () => {
+      doc.addPage();
+      writer.y = margin;
+    },
+  };
+
+  return writer;
+};
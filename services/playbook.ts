@@ -0,0 +1,50 @@
+import { PlaybookRule, RiskLevel } from "../types";
+import { storageService } from "./storageService";
+import { normalizeRiskLevel } from "./responseValidation";
+
+// User-defined red lines ("no non-compete over 12 months") that every
+// analysis is checked against, on top of the contract type's criteria.
+
+// Keeps the analysis prompt to a reasonable size
+export const MAX_PLAYBOOK_RULES = 25;
+const MAX_RULE_NAME_LENGTH = 80;
+const MAX_RULE_DESCRIPTION_LENGTH = 500;
+
+export const createPlaybookRuleId = (): string => `rule-${Math.random().toString(36).substring(2, 10)}`;
+
+// Rules of the signed-in user, used when analyses don't pass their own
+export const getActivePlaybookRules = (): PlaybookRule[] => {
+  const user = storageService.getCurrentUser();
+  return user ? storageService.getPlaybookRules(user.id) : [];
+};
+
+// Used by the server for rules sent by the client. Invalid entries are dropped.
+export const parsePlaybookRules = (value: unknown): PlaybookRule[] =>
+  (Array.isArray(value) ? value : [])
+    .filter((raw): raw is Record<string, unknown> => typeof raw === 'object' && raw !== null)
+    .map((raw): PlaybookRule | null => {
+      const id = typeof raw.id === 'string' ? raw.id.trim() : '';
+      const name = typeof raw.name === 'string' ? raw.name.trim().slice(0, MAX_RULE_NAME_LENGTH) : '';
+      if (!id || !name) return null;
+
+      return {
+        id,
+        name,
+        description: typeof raw.description === 'string' ? raw.description.trim().slice(0, MAX_RULE_DESCRIPTION_LENGTH) : '',
+        severity: normalizeRiskLevel(raw.severity) || RiskLevel.MEDIUM,
+      };
+    })
+    .filter((rule): rule is PlaybookRule => rule !== null)
+    .slice(0, MAX_PLAYBOOK_RULES);
+
+// Short hash of the rules, so cached analyses are only reused for the same playbook
+export const getPlaybookFingerprint = (rules: PlaybookRule[]): string => {
+  if (rules.length === 0) return 'none';
+
+  const text = JSON.stringify(rules.map(rule => [rule.id, rule.name, rule.description, rule.severity]));
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16);
+};
@@ -0,0 +1,82 @@
+import { GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import type { AIProvider, AIRequest, ModelTier } from "../aiProvider";
+import { SafetyBlockedError } from "../aiErrors";
+
+const GEMINI_MODELS: Record<ModelTier, string> = {
+  fast: "gemini-2.5-flash-lite",
+  chat: "gemini-2.5-flash",
+};
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+// Blocked prompts/responses come back as empty text rather than an HTTP error
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new SafetyBlockedError(response.promptFeedback?.blockReasonMessage || finishReason);
+  }
+};
+
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  let client: GoogleGenAI | null = null;
+
+  const getClient = () => {
+    if (!apiKey) {
+      throw new Error("API Key is missing. Please set process.env.API_KEY.");
+    }
+    if (!client) {
+      client = new GoogleGenAI({ apiKey });
+    }
+    return client;
+  };
+
+  const buildConfig = (request: AIRequest) => ({
+    systemInstruction: request.systemInstruction,
+    temperature: request.temperature,
+    ...(request.responseSchema && {
+      responseMimeType: "application/json",
+      responseSchema: request.responseSchema,
+    }),
+  });
+
+  return {
+    name: 'gemini',
+
+    getModelName: (tier) => GEMINI_MODELS[tier],
+
+    generate: async (request: AIRequest) => {
+      const ai = getClient();
+
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODELS[request.tier],
+        contents: request.contents,
+        config: buildConfig(request),
+      });
+
+      assertNotBlocked(response);
+      return response.text || '';
+    },
+
+    generateStream: async function* (request: AIRequest, signal?: AbortSignal) {
+      const ai = getClient();
+
+      try {
+        const stream = await ai.models.generateContentStream({
+          model: GEMINI_MODELS[request.tier],
+          contents: request.contents,
+          config: { ...buildConfig(request), abortSignal: signal },
+        });
+
+        for await (const chunk of stream) {
+          if (signal?.aborted) return;
+          assertNotBlocked(chunk);
+          if (chunk.text) yield chunk.text;
+        }
+      } catch (error) {
+        // The SDK rejects with an AbortError once the signal fires
+        if (signal?.aborted) return;
+        throw error;
+      }
+    },
+  };
+};
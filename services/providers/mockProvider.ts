@@ -0,0 +1,247 @@
+import { ContractAnalysis, ComparisonCriterion, ComparisonResult, RiskLevel } from "../../types";
+import type { AIProvider, AIRequest } from "../aiProvider";
+
+// Offline provider that returns deterministic, schema-valid fixtures.
+// Lets the UI be developed and exercised without network access or an API key.
+
+const MOCK_LATENCY_MS = 400;
+const MOCK_STREAM_CHUNK_DELAY_MS = 40;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const MOCK_FULL_TEXT = `SERVICE AGREEMENT
+
+This Service Agreement is made effective as of January 1, 2025 between Brightline Software LLC ("Provider") and Jordan Lee ("Client").
+
+1. Term. This Agreement commences on the Effective Date and shall automatically renew for successive one (1) year terms unless either party gives written notice of non-renewal at least ninety (90) days before the end of the then-current term.
+
+2. Payment. Client shall pay all invoices within thirty (30) days of receipt. Late payments accrue interest at 1.5% per month.
+
+3. Termination. Provider may terminate this Agreement at any time, for any reason or no reason, upon written notice to Client.
+
+4. Liability. Client shall be liable for any and all losses, damages and expenses arising out of or relating to this Agreement, without limitation.
+
+5. Dispute Resolution. Client waives any right to a jury trial and agrees not to participate in any class action against Provider.
+
+6. Confidentiality. Each party shall keep the other party's Confidential Information strictly confidential and use it solely to perform this Agreement.
+
+7. Fees. Client shall pay Provider a monthly service fee of USD 1,200.
+
+8. Governing Law. This Agreement is governed by the laws of the State of Delaware. Any dispute shall be resolved exclusively in the state courts located in Wilmington, Delaware.`;
+
+export const MOCK_ANALYSIS: ContractAnalysis = {
+  summary: "This is a service agreement that renews automatically every year unless you cancel 90 days in advance. The provider can end the contract whenever it wants, while you carry unlimited liability and give up your right to a jury trial or class action. Payment terms and confidentiality are fairly standard. For specific legal interpretations, consult a lawyer.",
+  overallRisk: RiskLevel.HIGH,
+  riskScore: 78,
+  clauses: [
+    {
+      id: "clause-1",
+      text: "This Agreement commences on the Effective Date and shall automatically renew for successive one (1) year terms unless either party gives written notice of non-renewal at least ninety (90) days before the end of the then-current term.",
+      explanation: "The contract keeps renewing every year unless you cancel at least 90 days before it ends.",
+      riskLevel: RiskLevel.HIGH,
+      riskyKeywords: ["automatically renew", "ninety (90) days"],
+      reason: "Renewal Risk: Automatic renewal with a long cancellation window makes it easy to get locked in for another year.",
+    },
+    {
+      id: "clause-2",
+      text: "Client shall pay all invoices within thirty (30) days of receipt. Late payments accrue interest at 1.5% per month.",
+      explanation: "You must pay bills within 30 days, and late payments cost extra interest.",
+      riskLevel: RiskLevel.LOW,
+      riskyKeywords: ["1.5% per month"],
+      reason: "Payment Risk: Standard payment terms with clear pricing, though the late interest adds up over time.",
+    },
+    {
+      id: "clause-3",
+      text: "Provider may terminate this Agreement at any time, for any reason or no reason, upon written notice to Client.",
+      explanation: "The provider can end the contract whenever it wants, without giving a reason.",
+      riskLevel: RiskLevel.HIGH,
+      riskyKeywords: ["at any time", "for any reason or no reason"],
+      reason: "Termination Risk: Only the provider can cancel without cause, so you could lose the service unexpectedly.",
+    },
+    {
+      id: "clause-4",
+      text: "Client shall be liable for any and all losses, damages and expenses arising out of or relating to this Agreement, without limitation.",
+      explanation: "You are responsible for every loss connected to this contract, with no upper limit.",
+      riskLevel: RiskLevel.HIGH,
+      riskyKeywords: ["any and all losses", "without limitation"],
+      reason: "Liability Risk: Unlimited liability means a single problem could cost far more than the contract is worth.",
+    },
+    {
+      id: "clause-5",
+      text: "Client waives any right to a jury trial and agrees not to participate in any class action against Provider.",
+      explanation: "You give up your right to a jury and cannot join group lawsuits against the provider.",
+      riskLevel: RiskLevel.HIGH,
+      riskyKeywords: ["waives any right to a jury trial", "class action"],
+      reason: "Dispute Risk: Waiving jury trials and class actions limits how you can enforce your rights.",
+    },
+    {
+      id: "clause-6",
+      text: "Each party shall keep the other party's Confidential Information strictly confidential and use it solely to perform this Agreement.",
+      explanation: "Both sides must keep each other's private information secret.",
+      riskLevel: RiskLevel.LOW,
+      riskyKeywords: [],
+      reason: "Data Privacy Risk: Mutual confidentiality is a standard, balanced obligation.",
+    },
+  ],
+  fullText: MOCK_FULL_TEXT,
+  keyTerms: {
+    parties: [
+      { name: "Brightline Software LLC", role: "Service Provider" },
+      { name: "Jordan Lee", role: "Client" },
+    ],
+    effectiveDate: "2025-01-01",
+    expiryDate: "One year after the Effective Date, unless renewed",
+    renewalTerms: "Renews automatically for successive one-year terms.",
+    noticePeriod: "90 days' written notice before the end of the current term to stop renewal",
+    payments: [
+      { description: "Monthly service fee", amount: 1200, currency: "USD" },
+      { description: "Late payment interest of 1.5% per month on overdue invoices" },
+    ],
+    governingLaw: "State of Delaware",
+    venue: "State courts in Wilmington, Delaware",
+  },
+  obligations: [
+    {
+      id: "obligation-1",
+      description: "Send written notice of non-renewal to stop the automatic renewal",
+      category: "renewal-notice",
+      dueDate: "2025-10-03",
+      recurrence: "yearly",
+      party: "Jordan Lee",
+      clauseId: "clause-1",
+    },
+    {
+      id: "obligation-2",
+      description: "Pay the monthly service fee of USD 1,200",
+      category: "payment",
+      dueDate: "2025-01-31",
+      recurrence: "monthly",
+      party: "Jordan Lee",
+      clauseId: "clause-2",
+    },
+    {
+      id: "obligation-3",
+      description: "Pay each invoice within 30 days of receipt",
+      category: "payment",
+      recurrence: "none",
+      party: "Jordan Lee",
+      clauseId: "clause-2",
+    },
+  ],
+  protections: [
+    { protectionId: "liability-cap", present: false },
+    { protectionId: "termination-right", present: false },
+    { protectionId: "dispute-resolution", present: true, clauseId: "clause-5" },
+    { protectionId: "defined-scope", present: false },
+    { protectionId: "payment-schedule", present: true, clauseId: "clause-2" },
+    { protectionId: "late-payment-remedy", present: true, clauseId: "clause-2" },
+    { protectionId: "kill-fee", present: false },
+    { protectionId: "ip-on-payment", present: false },
+  ],
+};
+
+const MOCK_COMBINED_SUMMARY = "This long agreement renews automatically, lets the provider terminate at will and leaves you with unlimited liability. (Mock summary - no AI model was called.)";
+
+const MOCK_CLAUSE_ANSWER = "In simple terms, this clause sets out what each side must do and what happens if they don't. (Mock response - no AI model was called.)";
+
+const MOCK_REDLINE = {
+  suggestedText: "Either party may terminate this Agreement for convenience upon thirty (30) days' written notice to the other party. Fees paid for services not yet delivered will be refunded.",
+  rationale: "Gives both sides the same right to leave, adds a notice period so you have time to find a replacement, and refunds prepaid fees. (Mock suggestion - no AI model was called.)",
+};
+
+const MOCK_CHAT_REPLY = "I'm running in offline mock mode, so this is a canned answer. With a real AI provider configured I would answer your question about the contract here.";
+
+const MOCK_DIFFERENCE_REPLY = "This difference matters because it changes who carries the risk if something goes wrong. (Mock response - no AI model was called.)";
+
+// The comparison prompt embeds each contract as JSON; reuse the ids so the
+// fixture points at real contracts.
+const getPromptText = (request: AIRequest): string => request.contents
+  .flatMap(content => content.parts.map(part => part.text || ''))
+  .join('\n');
+
+// Reports the first playbook rule in the prompt as broken by the liability clause
+const buildAnalysisFixture = (request: AIRequest): ContractAnalysis => {
+  const match = getPromptText(request).match(/Playbook Rules[\s\S]*?\n\s*- (\S+) \((?:High|Medium|Low)\)/);
+  if (!match) return MOCK_ANALYSIS;
+
+  return {
+    ...MOCK_ANALYSIS,
+    playbookViolations: [{
+      ruleId: match[1],
+      ruleName: '',
+      severity: RiskLevel.HIGH,
+      clauseId: 'clause-4',
+      explanation: "The client's liability has no cap, which this rule does not allow. (Mock violation - no AI model was called.)",
+    }],
+  };
+};
+
+// Scores vary by contract and criterion so re-weighting visibly changes the ranking
+const MOCK_CRITERION_SCORES: [ComparisonCriterion, number][] = [['cost', 7], ['termination', 4], ['liability', 6], ['renewal', 3], ['privacy', 8]];
+
+const buildComparisonFixture = (request: AIRequest): ComparisonResult => {
+  const promptText = getPromptText(request);
+  const contractIds = [...promptText.matchAll(/"id":"([^"]+)"/g)].map(match => match[1]);
+
+  return {
+    recommendedId: contractIds[0] || '',
+    reasoning: "This contract has fewer high-risk clauses and more balanced termination rights. (Mock comparison - no AI model was called.)",
+    keyDifferences: [
+      "One contract allows the provider to terminate without cause, the other requires notice for both sides.",
+      "Liability is capped in one contract but unlimited in the other.",
+      "Only one contract renews automatically.",
+    ],
+    criterionScores: contractIds.map((contractId, index) => ({
+      contractId,
+      scores: MOCK_CRITERION_SCORES.map(([criterion, base], criterionIndex) => ({
+        criterion,
+        score: (base + index * (criterionIndex + 2)) % 11,
+        note: "Mock score - no AI model was called.",
+      })),
+    })),
+  };
+};
+
+const buildFixture = (request: AIRequest): string => {
+  switch (request.task) {
+    case 'classification':
+      return JSON.stringify({ contractType: 'services', language: 'en' });
+    case 'analysis':
+      return JSON.stringify(buildAnalysisFixture(request));
+    case 'summary':
+      return MOCK_COMBINED_SUMMARY;
+    case 'comparison':
+      return JSON.stringify(buildComparisonFixture(request));
+    case 'clause-question':
+      return MOCK_CLAUSE_ANSWER;
+    case 'redline':
+      return JSON.stringify(MOCK_REDLINE);
+    case 'comparison-chat':
+      return MOCK_DIFFERENCE_REPLY;
+    case 'chat':
+    default:
+      return MOCK_CHAT_REPLY;
+  }
+};
+
+export const createMockProvider = (): AIProvider => ({
+  name: 'mock',
+
+  getModelName: (tier) => `mock-${tier}`,
+
+  generate: async (request: AIRequest) => {
+    await delay(MOCK_LATENCY_MS);
+    return buildFixture(request);
+  },
+
+  // Replays the fixture word by word so streaming UI can be exercised offline
+  generateStream: async function* (request: AIRequest, signal?: AbortSignal) {
+    await delay(MOCK_LATENCY_MS);
+
+    for (const word of buildFixture(request).split(/(?<=\s)/)) {
+      if (signal?.aborted) return;
+      yield word;
+      await delay(MOCK_STREAM_CHUNK_DELAY_MS);
+    }
+  },
+});
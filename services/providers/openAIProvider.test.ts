@@ -0,0 +1,146 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { Type } from "@google/genai";
+import { userText } from "../aiProvider";
+import { AuthError, RateLimitError, SafetyBlockedError } from "../aiErrors";
+import { UnsupportedAttachmentError, createOpenAIProvider, toJSONSchema } from "./openAIProvider";
+
+// Stub chat-completions server: records each request and answers with `reply`
+let server: Server;
+let baseUrl: string;
+let requests: { headers: IncomingMessage['headers']; body: any }[];
+let reply: (body: any, res: ServerResponse) => void;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendEvents = (res: ServerResponse, events: unknown[]) => {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  events.forEach(event => res.write(`data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`));
+  res.end();
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      const body = JSON.parse(data);
+      requests.push({ headers: req.headers, body });
+      reply(body, res);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  requests = [];
+  reply = (_body, res) => sendJson(res, 200, { choices: [{ message: { content: 'Hello' }, finish_reason: 'stop' }] });
+});
+
+const collect = async (stream: AsyncGenerator<string>) => {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+};
+
+describe('createOpenAIProvider', () => {
+  it('posts chat completions with the schema in the system prompt', async () => {
+    const provider = createOpenAIProvider({ baseUrl, model: 'local-model', apiKey: 'secret' });
+
+    const text = await provider.generate({
+      task: 'redline',
+      tier: 'fast',
+      contents: [userText('Rewrite this clause.')],
+      systemInstruction: 'Be fair.',
+      responseSchema: { type: Type.OBJECT, properties: { suggestedText: { type: Type.STRING } }, required: ['suggestedText'] },
+      temperature: 0.3,
+    });
+
+    expect(text).toBe('Hello');
+    const [{ headers, body }] = requests;
+    expect(headers.authorization).toBe('Bearer secret');
+    expect(body).toMatchObject({
+      model: 'local-model',
+      temperature: 0.3,
+      stream: false,
+      response_format: { type: 'json_object' },
+      messages: [{ role: 'system' }, { role: 'user', content: 'Rewrite this clause.' }],
+    });
+    expect(body.messages[0].content).toContain('Be fair.');
+    expect(body.messages[0].content).toContain('{"type":"object","required":["suggestedText"],"properties":{"suggestedText":{"type":"string"}}}');
+  });
+
+  it('sends images as data URLs', async () => {
+    const provider = createOpenAIProvider({ baseUrl, model: 'local-model' });
+
+    await provider.generate({
+      task: 'analysis',
+      tier: 'fast',
+      contents: [{ role: 'user', parts: [{ inlineData: { mimeType: 'image/png', data: 'aW1hZ2U=' } }, { text: 'Analyze.' }] }],
+    });
+
+    expect(requests[0].headers.authorization).toBeUndefined();
+    expect(requests[0].body.messages).toEqual([{
+      role: 'user',
+      content: [
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,aW1hZ2U=' } },
+        { type: 'text', text: 'Analyze.' },
+      ],
+    }]);
+  });
+
+  it('rejects PDFs before sending anything', async () => {
+    const provider = createOpenAIProvider({ baseUrl, model: 'local-model' });
+
+    await expect(provider.generate({
+      task: 'analysis',
+      tier: 'fast',
+      contents: [{ role: 'user', parts: [{ inlineData: { mimeType: 'application/pdf', data: 'JVBERi0=' } }] }],
+    })).rejects.toBeInstanceOf(UnsupportedAttachmentError);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('maps error statuses and content filtering to AI errors', async () => {
+    const provider = createOpenAIProvider({ baseUrl, model: 'local-model' });
+    const request = { task: 'chat' as const, tier: 'chat' as const, contents: [userText('Hi')] };
+
+    reply = (_body, res) => sendJson(res, 429, { error: 'Too many requests' });
+    await expect(provider.generate(request)).rejects.toBeInstanceOf(RateLimitError);
+
+    reply = (_body, res) => sendJson(res, 401, { error: 'Bad key' });
+    await expect(provider.generate(request)).rejects.toBeInstanceOf(AuthError);
+
+    reply = (_body, res) => sendJson(res, 200, { choices: [{ message: { content: '' }, finish_reason: 'content_filter' }] });
+    await expect(provider.generate(request)).rejects.toBeInstanceOf(SafetyBlockedError);
+  });
+
+  it('streams the content deltas until [DONE]', async () => {
+    const provider = createOpenAIProvider({ baseUrl, model: 'local-model' });
+    reply = (_body, res) => sendEvents(res, [
+      { choices: [{ delta: { role: 'assistant' } }] },
+      { choices: [{ delta: { content: 'Hel' } }] },
+      { choices: [{ delta: { content: 'lo' } }] },
+      '[DONE]',
+      { choices: [{ delta: { content: ' ignored' } }] },
+    ]);
+
+    const chunks = await collect(provider.generateStream({ task: 'chat', tier: 'chat', contents: [userText('Hi')] }));
+
+    expect(chunks).toEqual(['Hel', 'lo']);
+    expect(requests[0].body.stream).toBe(true);
+  });
+});
+
+describe('toJSONSchema', () => {
+  it('lower-cases the type names recursively', () => {
+    expect(toJSONSchema({ type: Type.ARRAY, items: { type: Type.STRING, enum: ['Low', 'High'] } }))
+      .toEqual({ type: 'array', items: { type: 'string', enum: ['Low', 'High'] } });
+  });
+});
@@ -0,0 +1,184 @@
+import type { Schema } from "@google/genai";
+import type { AIContent, AIPart, AIProvider, AIRequest } from "../aiProvider";
+import { AIServiceError, SafetyBlockedError, createErrorFromStatus } from "../aiErrors";
+
+// Provider for any OpenAI-compatible chat-completions endpoint
+// (llama.cpp server, vLLM, Ollama, LM Studio, ...). Structured output is
+// requested through JSON mode with the schema spelled out in the system prompt.
+// Only images are sent as attachments: these servers don't accept PDF file
+// parts, so PDF uploads fail before any request is made.
+
+export interface OpenAIProviderConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | OpenAIContentPart[];
+}
+
+// Gemini schemas use upper-case type names ("OBJECT"); JSON Schema wants lower-case.
+export const toJSONSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.required) result.required = schema.required;
+  if (schema.items) result.items = toJSONSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJSONSchema(value)])
+    );
+  }
+
+  return result;
+};
+
+export class UnsupportedAttachmentError extends AIServiceError {
+  constructor(mimeType: string) {
+    super(
+      'unknown',
+      `The OpenAI-compatible endpoint can't read ${mimeType === 'application/pdf' ? 'PDF files' : `${mimeType} files`}. ` +
+        "Upload the contract as an image (PNG, JPG or WebP), or switch to Gemini under My Profile → AI Provider.",
+      false
+    );
+    this.name = 'UnsupportedAttachmentError';
+  }
+}
+
+const toContentPart = (part: AIPart): OpenAIContentPart => {
+  if (part.inlineData) {
+    if (!part.inlineData.mimeType.startsWith('image/')) throw new UnsupportedAttachmentError(part.inlineData.mimeType);
+    return { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } };
+  }
+  return { type: 'text', text: part.text || '' };
+};
+
+const toMessage = (content: AIContent): OpenAIMessage => {
+  const role = content.role === 'model' ? 'assistant' : 'user';
+
+  // Plain text turns are sent as strings, which every compatible server accepts
+  if (content.parts.every(part => !part.inlineData)) {
+    return { role, content: content.parts.map(part => part.text || '').join('\n') };
+  }
+  return { role, content: content.parts.map(toContentPart) };
+};
+
+const buildSystemPrompt = (request: AIRequest): string | undefined => {
+  const sections: string[] = [];
+
+  if (request.systemInstruction) sections.push(request.systemInstruction.trim());
+
+  if (request.responseSchema) {
+    sections.push(
+      `Respond ONLY with a single JSON object, without markdown fences or commentary, that conforms to this JSON Schema:\n${JSON.stringify(toJSONSchema(request.responseSchema))}`
+    );
+  }
+
+  return sections.length > 0 ? sections.join('\n\n') : undefined;
+};
+
+export const createOpenAIProvider = (config: OpenAIProviderConfig): AIProvider => {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const postCompletion = async (request: AIRequest, stream: boolean, signal?: AbortSignal) => {
+    if (!config.baseUrl) {
+      throw new Error("No base URL configured for the OpenAI-compatible provider.");
+    }
+
+    const messages: OpenAIMessage[] = [];
+    const systemPrompt = buildSystemPrompt(request);
+    if (systemPrompt) messages.push({ role: 'system', content: systemPrompt });
+    messages.push(...request.contents.map(toMessage));
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages,
+        temperature: request.temperature,
+        stream,
+        ...(request.responseSchema && { response_format: { type: 'json_object' } }),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      const message = `OpenAI-compatible endpoint returned ${response.status}: ${body || response.statusText}`;
+      throw createErrorFromStatus(response.status, message) || new Error(message);
+    }
+
+    return response;
+  };
+
+  return {
+    name: 'openai',
+
+    // Self-hosted servers usually serve a single model, so both tiers share it
+    getModelName: () => config.model,
+
+    generate: async (request: AIRequest) => {
+      const response = await postCompletion(request, false);
+      const data = await response.json();
+      const choice = data?.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') throw new SafetyBlockedError();
+      return choice?.message?.content || '';
+    },
+
+    // Parses the server-sent events stream ("data: {...}" lines ending with "data: [DONE]")
+    generateStream: async function* (request: AIRequest, signal?: AbortSignal) {
+      let response: Response;
+      try {
+        response = await postCompletion(request, true, signal);
+      } catch (error) {
+        if (signal?.aborted) return;
+        throw error;
+      }
+      if (!response.body) return;
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+
+          for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) continue;
+
+            const payload = trimmed.slice(5).trim();
+            if (payload === '[DONE]') return;
+
+            const choice = JSON.parse(payload)?.choices?.[0];
+            if (choice?.finish_reason === 'content_filter') throw new SafetyBlockedError();
+            if (choice?.delta?.content) yield choice.delta.content;
+          }
+        }
+      } catch (error) {
+        if (signal?.aborted) return;
+        throw error;
+      } finally {
+        reader.releaseLock();
+      }
+    },
+  };
+};
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { RiskLevel } from "../types";
+import {
+  normalizeCriterionScores,
+  normalizeRiskLevel,
+  normalizeRiskScore,
+  validateClauseRedline,
+  validateComparisonResult,
+  validateContractAnalysis,
+  validateContractClassification,
+} from "./responseValidation";
+
+describe('normalizeRiskLevel', () => {
+  it('accepts enum spellings and common synonyms', () => {
+    expect(normalizeRiskLevel('HIGH')).toBe(RiskLevel.HIGH);
+    expect(normalizeRiskLevel('Moderate risk')).toBe(RiskLevel.MEDIUM);
+    expect(normalizeRiskLevel('very low')).toBe(RiskLevel.LOW);
+    expect(normalizeRiskLevel('Severe')).toBe(RiskLevel.HIGH);
+  });
+
+  it('rejects anything else', () => {
+    expect(normalizeRiskLevel('unclear')).toBeNull();
+    expect(normalizeRiskLevel(3)).toBeNull();
+  });
+});
+
+describe('normalizeRiskScore', () => {
+  it('clamps, rounds and parses numeric strings', () => {
+    expect(normalizeRiskScore(72.6)).toBe(73);
+    expect(normalizeRiskScore('72/100')).toBe(72);
+    expect(normalizeRiskScore(140)).toBe(100);
+    expect(normalizeRiskScore(-5)).toBe(0);
+    expect(normalizeRiskScore('high')).toBeUndefined();
+  });
+});
+
+describe('validateContractAnalysis', () => {
+  it('repairs risk levels and assigns missing and duplicate clause ids', () => {
+    const { value, errors } = validateContractAnalysis({
+      summary: 'A lease.',
+      overallRisk: 'Critical',
+      riskScore: '64',
+      clauses: [
+        { id: 'c1', text: 'Rent is due monthly.', riskLevel: 'low' },
+        { id: 'c1', text: 'The landlord may enter at any time.', riskLevel: 'High Risk' },
+        { text: 'The deposit is not refundable.', riskLevel: 'medium', riskyKeywords: ['not refundable', 3] },
+      ],
+    });
+    expect(errors).toEqual([]);
+    expect(value?.overallRisk).toBe(RiskLevel.HIGH);
+    expect(value?.modelRiskScore).toBe(64);
+    expect(value?.clauses.map(clause => [clause.id, clause.riskLevel])).toEqual([
+      ['c1', RiskLevel.LOW],
+      ['clause-2', RiskLevel.HIGH],
+      ['clause-3', RiskLevel.MEDIUM],
+    ]);
+    expect(value?.clauses[2].riskyKeywords).toEqual(['not refundable']);
+  });
+
+  it('falls back to the riskiest clause for an unknown overall rating', () => {
+    const { value } = validateContractAnalysis({
+      summary: 'A lease.',
+      overallRisk: 'unclear',
+      clauses: [{ text: 'Rent is due monthly.', riskLevel: 'medium' }],
+    });
+    expect(value?.overallRisk).toBe(RiskLevel.MEDIUM);
+  });
+
+  it('reports hard errors and returns no value', () => {
+    const { value, errors } = validateContractAnalysis({
+      summary: ' ',
+      clauses: [{ text: 'Rent is due monthly.', riskLevel: 'purple' }],
+    });
+    expect(value).toBeUndefined();
+    expect(errors).toEqual([
+      'summary must be a non-empty string.',
+      'clauses[0].riskLevel must be one of "Low", "Medium" or "High" (got "purple").',
+    ]);
+  });
+
+  it('rejects non-object responses', () => {
+    expect(validateContractAnalysis([]).errors).toEqual(['The response must be a JSON object.']);
+  });
+});
+
+describe('validateContractClassification', () => {
+  it('maps contract names to types and drops unknown languages', () => {
+    expect(validateContractClassification({ contractType: 'Non-Disclosure Agreement', language: 'klingon' }))
+      .toEqual({ errors: [], value: { contractType: 'nda', language: undefined } });
+  });
+
+  it('rejects an unrecognised contract type', () => {
+    expect(validateContractClassification({ contractType: 'poem' }).value).toBeUndefined();
+  });
+});
+
+describe('validateClauseRedline', () => {
+  it('trims the suggestion and rationale', () => {
+    expect(validateClauseRedline({ suggestedText: ' New wording. ', rationale: ' Fairer. ' }).value)
+      .toEqual({ suggestedText: 'New wording.', rationale: 'Fairer.' });
+  });
+
+  it('requires both fields', () => {
+    expect(validateClauseRedline({ suggestedText: 'New wording.' }).errors).toEqual(['rationale must be a non-empty string.']);
+  });
+});
+
+describe('normalizeCriterionScores', () => {
+  it('clamps scores and drops unknown contracts, criteria and repeats', () => {
+    expect(normalizeCriterionScores([
+      {
+        contractId: 'a',
+        scores: [
+          { criterion: 'cost', score: 12, note: 'Cheap.' },
+          { criterion: 'cost', score: 1 },
+          { criterion: 'vibes', score: 5 },
+          { criterion: 'privacy', score: '6.44' },
+        ],
+      },
+      { contractId: 'a', scores: [{ criterion: 'renewal', score: 3 }] },
+      { contractId: 'unknown', scores: [{ criterion: 'cost', score: 3 }] },
+    ], ['a', 'b'])).toEqual([
+      {
+        contractId: 'a',
+        scores: [
+          { criterion: 'cost', score: 10, note: 'Cheap.' },
+          { criterion: 'privacy', score: 6.4, note: '' },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('validateComparisonResult', () => {
+  it('requires the recommendation to name a compared contract', () => {
+    expect(validateComparisonResult({ recommendedId: 'c', reasoning: 'Cheaper.' }, ['a', 'b']).errors)
+      .toEqual(['recommendedId must be one of "a", "b" (got "c").']);
+  });
+
+  it('defaults missing lists', () => {
+    expect(validateComparisonResult({ recommendedId: 'a', reasoning: 'Cheaper.' }, ['a', 'b']).value)
+      .toMatchObject({ recommendedId: 'a', keyDifferences: [], criterionScores: [] });
+  });
+});
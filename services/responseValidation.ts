@@ -0,0 +1,398 @@
+import { Clause, ClauseRedline, ComparisonResult, ContractAnalysis, ContractCriterionScores, CriterionScore, ContractParty, ContractType, KeyTerms, Obligation, ObligationCategory, PaymentTerm, PlaybookRule, PlaybookViolation, ProtectionCheck, Recurrence, RiskLevel, getHighestRiskLevel } from "../types";
+import { normalizeLanguageCode } from "./languages";
+import { MAX_CRITERION_SCORE, isComparisonCriterion } from "./comparisonMatrix";
+
+// Runtime validation for AI responses. Validators repair what can be repaired
+// safely (enum spelling, out-of-range scores, missing ids) and report hard
+// errors for anything that would leave the UI without usable data.
+
+export interface ValidationResult<T> {
+  value?: T; // Present only when there are no hard errors
+  errors: string[];
+}
+
+const RISK_LEVEL_ALIASES: Record<string, RiskLevel> = {
+  low: RiskLevel.LOW,
+  minimal: RiskLevel.LOW,
+  minor: RiskLevel.LOW,
+  none: RiskLevel.LOW,
+  safe: RiskLevel.LOW,
+  green: RiskLevel.LOW,
+  medium: RiskLevel.MEDIUM,
+  moderate: RiskLevel.MEDIUM,
+  amber: RiskLevel.MEDIUM,
+  yellow: RiskLevel.MEDIUM,
+  high: RiskLevel.HIGH,
+  severe: RiskLevel.HIGH,
+  critical: RiskLevel.HIGH,
+  major: RiskLevel.HIGH,
+  extreme: RiskLevel.HIGH,
+  red: RiskLevel.HIGH,
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Accepts "HIGH", "High Risk", "very high", "Severe" etc.
+export const normalizeRiskLevel = (value: unknown): RiskLevel | null => {
+  if (typeof value !== 'string') return null;
+
+  const words = value.toLowerCase().replace(/risk/g, '').replace(/[^a-z\s]/g, ' ').split(/\s+/).filter(Boolean);
+  for (let i = words.length - 1; i >= 0; i--) {
+    const level = RISK_LEVEL_ALIASES[words[i]];
+    if (level) return level;
+  }
+  return null;
+};
+
+// Clamps to 0-100 and rounds. Numeric strings ("72", "72/100") are accepted.
+export const normalizeRiskScore = (value: unknown): number | undefined => {
+  const numeric = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+  if (!Number.isFinite(numeric)) return undefined;
+  return Math.min(100, Math.max(0, Math.round(numeric)));
+};
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+// Placeholders models use instead of leaving a field empty
+const EMPTY_VALUE = /^(n\/?a|none|null|unknown|not (stated|specified|mentioned|provided))\.?$/i;
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() && !EMPTY_VALUE.test(value.trim()) ? value.trim() : undefined;
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '₹': 'INR' };
+
+// Accepts 1200, "1,200.50", "$1,200"
+const parseAmount = (value: unknown): number | undefined => {
+  const numeric = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value.replace(/[^0-9.-]/g, '')) : NaN;
+  return Number.isFinite(numeric) ? numeric : undefined;
+};
+
+const normalizeCurrency = (value: unknown): string | undefined => {
+  const currency = optionalString(value);
+  if (!currency) return undefined;
+  return CURRENCY_SYMBOLS[currency] || currency.toUpperCase();
+};
+
+// Key terms are best effort: malformed entries are dropped instead of failing the whole analysis
+export const normalizeKeyTerms = (value: unknown): KeyTerms | undefined => {
+  if (!isObject(value)) return undefined;
+
+  const parties = (Array.isArray(value.parties) ? value.parties : [])
+    .filter(isObject)
+    .map((party): ContractParty => ({ name: optionalString(party.name) || '', role: optionalString(party.role) || 'Party' }))
+    .filter(party => party.name);
+
+  const payments = (Array.isArray(value.payments) ? value.payments : [])
+    .filter(isObject)
+    .map((payment): PaymentTerm => ({
+      description: optionalString(payment.description) || 'Payment',
+      amount: parseAmount(payment.amount),
+      currency: normalizeCurrency(payment.currency),
+    }))
+    .filter(payment => payment.amount !== undefined || payment.description !== 'Payment');
+
+  return {
+    parties,
+    effectiveDate: optionalString(value.effectiveDate),
+    expiryDate: optionalString(value.expiryDate),
+    renewalTerms: optionalString(value.renewalTerms),
+    noticePeriod: optionalString(value.noticePeriod),
+    payments,
+    governingLaw: optionalString(value.governingLaw),
+    venue: optionalString(value.venue),
+  };
+};
+
+const OBLIGATION_CATEGORIES: ObligationCategory[] = ['renewal-notice', 'payment', 'termination', 'other'];
+const RECURRENCES: Recurrence[] = ['none', 'weekly', 'monthly', 'quarterly', 'yearly'];
+
+// Only real calendar dates in YYYY-MM-DD form; "within 30 days" etc. can't be scheduled
+export const normalizeDueDate = (value: unknown): string | undefined => {
+  const text = optionalString(value);
+  const match = text && /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (!match) return undefined;
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? text : undefined;
+};
+
+const pickOption = <T extends string>(value: unknown, options: T[], fallback: T): T => {
+  const text = typeof value === 'string' ? value.trim().toLowerCase().replace(/[\s_]+/g, '-') : '';
+  return options.find(option => option === text) || fallback;
+};
+
+// Obligations are best effort like key terms. References to unknown clauses are dropped.
+export const normalizeObligations = (value: unknown, clauseIds: string[]): Obligation[] =>
+  (Array.isArray(value) ? value : [])
+    .filter(isObject)
+    .map((raw): Obligation | null => {
+      const description = optionalString(raw.description);
+      if (!description) return null;
+
+      const clauseId = optionalString(raw.clauseId);
+      return {
+        id: '',
+        description,
+        category: pickOption(raw.category, OBLIGATION_CATEGORIES, 'other'),
+        dueDate: normalizeDueDate(raw.dueDate),
+        recurrence: pickOption(raw.recurrence, RECURRENCES, 'none'),
+        party: optionalString(raw.party),
+        clauseId: clauseId && clauseIds.includes(clauseId) ? clauseId : undefined,
+      };
+    })
+    .filter((obligation): obligation is Obligation => obligation !== null)
+    .map((obligation, index) => ({ ...obligation, id: `obligation-${index + 1}` }));
+
+const normalizeBoolean = (value: unknown): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value !== 'string') return null;
+  const text = value.trim().toLowerCase();
+  if (['true', 'yes', 'present'].includes(text)) return true;
+  if (['false', 'no', 'absent', 'missing'].includes(text)) return false;
+  return null;
+};
+
+// Entries with an unclear answer are dropped, which shows them as not evaluated
+export const normalizeProtectionChecks = (value: unknown, clauseIds: string[]): ProtectionCheck[] =>
+  (Array.isArray(value) ? value : [])
+    .filter(isObject)
+    .map((raw): ProtectionCheck | null => {
+      const protectionId = optionalString(raw.protectionId);
+      const present = normalizeBoolean(raw.present);
+      if (!protectionId || present === null) return null;
+
+      const clauseId = optionalString(raw.clauseId);
+      return {
+        protectionId,
+        present,
+        clauseId: present && clauseId && clauseIds.includes(clauseId) ? clauseId : undefined,
+      };
+    })
+    .filter((check): check is ProtectionCheck => check !== null);
+
+// Violations of rules that weren't checked are dropped. Returns undefined when
+// there were no rules, so "nothing violated" can be told apart from "not checked".
+export const normalizePlaybookViolations = (value: unknown, clauseIds: string[], rules: PlaybookRule[]): PlaybookViolation[] | undefined => {
+  if (rules.length === 0) return undefined;
+
+  return (Array.isArray(value) ? value : [])
+    .filter(isObject)
+    .map((raw): PlaybookViolation | null => {
+      const rule = rules.find(item => item.id === optionalString(raw.ruleId));
+      if (!rule) return null;
+
+      const clauseId = optionalString(raw.clauseId);
+      return {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        severity: rule.severity,
+        explanation: optionalString(raw.explanation) || '',
+        clauseId: clauseId && clauseIds.includes(clauseId) ? clauseId : undefined,
+      };
+    })
+    .filter((violation): violation is PlaybookViolation => violation !== null);
+};
+
+const validateClause = (raw: unknown, index: number, errors: string[]): Clause | null => {
+  const label = `clauses[${index}]`;
+  if (!isObject(raw)) {
+    errors.push(`${label} must be an object.`);
+    return null;
+  }
+
+  if (typeof raw.text !== 'string' || !raw.text.trim()) {
+    errors.push(`${label}.text must be a non-empty string.`);
+    return null;
+  }
+
+  const riskLevel = normalizeRiskLevel(raw.riskLevel);
+  if (!riskLevel) {
+    errors.push(`${label}.riskLevel must be one of "Low", "Medium" or "High" (got ${JSON.stringify(raw.riskLevel)}).`);
+    return null;
+  }
+
+  return {
+    ...(raw as Partial<Clause>),
+    id: typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : '',
+    text: raw.text,
+    explanation: typeof raw.explanation === 'string' ? raw.explanation : '',
+    riskLevel,
+    riskyKeywords: toStringArray(raw.riskyKeywords),
+    reason: typeof raw.reason === 'string' ? raw.reason : '',
+  };
+};
+
+// Missing and duplicate ids are replaced with clause-N
+const assignClauseIds = (clauses: Clause[]): Clause[] => {
+  const seen = new Set<string>();
+  return clauses.map((clause, index) => {
+    let id = clause.id;
+    if (!id || seen.has(id)) {
+      id = `clause-${index + 1}`;
+      while (seen.has(id)) id = `${id}-${index + 1}`;
+    }
+    seen.add(id);
+    return { ...clause, id };
+  });
+};
+
+export const validateContractAnalysis = (raw: unknown, playbookRules: PlaybookRule[] = []): ValidationResult<ContractAnalysis> => {
+  const errors: string[] = [];
+
+  if (!isObject(raw)) {
+    return { errors: ["The response must be a JSON object."] };
+  }
+
+  if (typeof raw.summary !== 'string' || !raw.summary.trim()) {
+    errors.push("summary must be a non-empty string.");
+  }
+
+  if (!Array.isArray(raw.clauses)) {
+    errors.push("clauses must be an array (use [] when there are no clauses).");
+  }
+
+  const clauses = Array.isArray(raw.clauses)
+    ? raw.clauses.map((clause, index) => validateClause(clause, index, errors)).filter((c): c is Clause => c !== null)
+    : [];
+
+  if (errors.length > 0) return { errors };
+
+  // An unrecognised overall rating falls back to the riskiest clause
+  const overallRisk = normalizeRiskLevel(raw.overallRisk) || getHighestRiskLevel(clauses) || RiskLevel.LOW;
+
+  const identifiedClauses = assignClauseIds(clauses);
+
+  return {
+    errors,
+    value: {
+      ...(raw as Partial<ContractAnalysis>),
+      summary: raw.summary as string,
+      overallRisk,
+      riskScore: normalizeRiskScore(raw.riskScore),
+      modelRiskScore: normalizeRiskScore(raw.riskScore),
+      clauses: identifiedClauses,
+      fullText: typeof raw.fullText === 'string' ? raw.fullText : undefined,
+      keyTerms: normalizeKeyTerms(raw.keyTerms),
+      obligations: normalizeObligations(raw.obligations, identifiedClauses.map(clause => clause.id)),
+      protections: normalizeProtectionChecks(raw.protections, identifiedClauses.map(clause => clause.id)),
+      playbookViolations: normalizePlaybookViolations(raw.playbookViolations, identifiedClauses.map(clause => clause.id), playbookRules),
+    },
+  };
+};
+
+// Checked in order, so e.g. "employment services agreement" is employment
+const CONTRACT_TYPE_ALIASES: [RegExp, ContractType][] = [
+  [/\b(nda|non[- ]?disclosure|confidentiality)\b/, 'nda'],
+  [/\b(lease|rental|tenancy|landlord)\b/, 'lease'],
+  [/\b(employment|employee|job offer|offer letter)\b/, 'employment'],
+  [/\b(saas|software as a service|terms of (service|use)|tos|subscription)\b/, 'saas'],
+  [/\b(loan|credit|promissory|mortgage|financing)\b/, 'loan'],
+  [/\b(services?|freelance|contractor|consulting|statement of work)\b/, 'services'],
+  [/\bother\b/, 'other'],
+];
+
+// Accepts the enum values as well as names like "Non-Disclosure Agreement"
+export const normalizeContractType = (value: unknown): ContractType | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim().toLowerCase().replace(/[_/]+/g, ' ');
+  return CONTRACT_TYPE_ALIASES.find(([pattern]) => pattern.test(text))?.[1] || null;
+};
+
+export interface ContractClassification {
+  contractType: ContractType;
+  language?: string; // ISO 639-1 code
+}
+
+// An unrecognised language is dropped rather than failing the classification
+export const validateContractClassification = (raw: unknown): ValidationResult<ContractClassification> => {
+  if (!isObject(raw)) {
+    return { errors: ["The response must be a JSON object."] };
+  }
+
+  const contractType = normalizeContractType(raw.contractType);
+  if (!contractType) {
+    return { errors: [`contractType must be one of "nda", "lease", "employment", "saas", "loan", "services" or "other" (got ${JSON.stringify(raw.contractType)}).`] };
+  }
+  return { errors: [], value: { contractType, language: normalizeLanguageCode(raw.language) } };
+};
+
+export const validateClauseRedline = (raw: unknown): ValidationResult<Omit<ClauseRedline, 'createdAt'>> => {
+  if (!isObject(raw)) {
+    return { errors: ["The response must be a JSON object."] };
+  }
+
+  const errors: string[] = [];
+  if (typeof raw.suggestedText !== 'string' || !raw.suggestedText.trim()) {
+    errors.push("suggestedText must be a non-empty string.");
+  }
+  if (typeof raw.rationale !== 'string' || !raw.rationale.trim()) {
+    errors.push("rationale must be a non-empty string.");
+  }
+  if (errors.length > 0) return { errors };
+
+  return {
+    errors,
+    value: { suggestedText: (raw.suggestedText as string).trim(), rationale: (raw.rationale as string).trim() },
+  };
+};
+
+// Scores are clamped to 0-10. Unknown contracts and criteria, and repeats, are dropped.
+export const normalizeCriterionScores = (value: unknown, contractIds: string[]): ContractCriterionScores[] => {
+  const seen = new Set<string>();
+  return (Array.isArray(value) ? value : [])
+    .filter(isObject)
+    .map((raw): ContractCriterionScores | null => {
+      const contractId = optionalString(raw.contractId);
+      if (!contractId || seen.has(contractId) || (contractIds.length > 0 && !contractIds.includes(contractId))) return null;
+      seen.add(contractId);
+
+      const scores: CriterionScore[] = [];
+      (Array.isArray(raw.scores) ? raw.scores : []).filter(isObject).forEach(score => {
+        const numeric = typeof score.score === 'number' ? score.score : typeof score.score === 'string' ? parseFloat(score.score) : NaN;
+        if (!isComparisonCriterion(score.criterion) || !Number.isFinite(numeric)) return;
+        if (scores.some(existing => existing.criterion === score.criterion)) return;
+        scores.push({
+          criterion: score.criterion,
+          score: Math.min(MAX_CRITERION_SCORE, Math.max(0, Math.round(numeric * 10) / 10)),
+          note: optionalString(score.note) || '',
+        });
+      });
+      return { contractId, scores };
+    })
+    .filter((entry): entry is ContractCriterionScores => entry !== null);
+};
+
+// `contractIds` lets the validator reject a recommendation that names no known contract
+export const validateComparisonResult = (raw: unknown, contractIds: string[] = []): ValidationResult<ComparisonResult> => {
+  const errors: string[] = [];
+
+  if (!isObject(raw)) {
+    return { errors: ["The response must be a JSON object."] };
+  }
+
+  if (typeof raw.recommendedId !== 'string' || !raw.recommendedId.trim()) {
+    errors.push("recommendedId must be a non-empty string.");
+  } else if (contractIds.length > 0 && !contractIds.includes(raw.recommendedId)) {
+    errors.push(`recommendedId must be one of ${contractIds.map(id => `"${id}"`).join(', ')} (got "${raw.recommendedId}").`);
+  }
+
+  if (typeof raw.reasoning !== 'string' || !raw.reasoning.trim()) {
+    errors.push("reasoning must be a non-empty string.");
+  }
+
+  if (errors.length > 0) return { errors };
+
+  return {
+    errors,
+    value: {
+      ...(raw as Partial<ComparisonResult>),
+      recommendedId: raw.recommendedId as string,
+      reasoning: raw.reasoning as string,
+      keyDifferences: toStringArray(raw.keyDifferences),
+      criterionScores: normalizeCriterionScores(raw.criterionScores, contractIds),
+    },
+  };
+};
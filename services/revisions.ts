@@ -0,0 +1,46 @@
+import { Contract } from "../types";
+import { storageService } from "./storageService";
+import { AnalysisDiff, diffAnalyses } from "./analysisVersions";
+import { DiffPart, diffWords } from "./textDiff";
+
+// Revised drafts of a contract (e.g. a counterparty's markup) are uploaded as
+// new contracts linked to the draft they revise, forming a chain of rounds.
+
+export interface DraftComparison {
+  previous: Contract;
+  textDiff: DiffPart[] | null; // Null when either draft has no transcribed text
+  changes: AnalysisDiff | null; // Null when either draft hasn't been analyzed
+}
+
+// Drafts that can be picked as the previous round of a new upload
+export const getRevisionCandidates = (userId: string): Contract[] =>
+  storageService.getContracts(userId).filter(contract => contract.status === 'analyzed');
+
+// Earlier rounds, oldest first, ending with the contract itself. Stops at
+// missing or already visited drafts so a broken link can't loop.
+export const getDraftChain = (contract: Contract): Contract[] => {
+  const chain = [contract];
+  const seen = new Set([contract.id]);
+  let current = contract;
+  while (current.revisionOf && !seen.has(current.revisionOf)) {
+    const previous = storageService.getContractById(current.revisionOf);
+    if (!previous) break;
+    chain.unshift(previous);
+    seen.add(previous.id);
+    current = previous;
+  }
+  return chain;
+};
+
+export const compareWithPreviousDraft = (contract: Contract): DraftComparison | null => {
+  const previous = contract.revisionOf ? storageService.getContractById(contract.revisionOf) : undefined;
+  if (!previous) return null;
+
+  const before = previous.analysis;
+  const after = contract.analysis;
+  return {
+    previous,
+    textDiff: before?.fullText && after?.fullText ? diffWords(before.fullText, after.fullText) : null,
+    changes: before && after ? diffAnalyses(before, after) : null,
+  };
+};
@@ -0,0 +1,202 @@
+import { Clause, ContractAnalysis, RiskLevel, RISK_ORDER } from "../types";
+
+// Deterministic pattern scanner for the risk criteria spelled out in the
+// analysis prompt. It runs locally over the document text and is used to
+// cross-check the model, which occasionally under-reports risky clauses.
+
+export type RiskCategory = 'Liability' | 'Termination' | 'Dispute' | 'Renewal' | 'Notice' | 'Indemnification' | 'Discretion';
+
+interface RiskPattern {
+  id: string;
+  category: RiskCategory;
+  riskLevel: RiskLevel;
+  description: string;
+  pattern: RegExp; // Must be global
+  // Extra check on the sentence around the match, e.g. to skip mutual terms
+  accept?: (sentence: string, match: RegExpMatchArray) => boolean;
+}
+
+export interface ScanFinding {
+  patternId: string;
+  category: RiskCategory;
+  riskLevel: RiskLevel;
+  description: string;
+  start: number; // Offsets into the scanned text
+  end: number;
+  matchedText: string;
+  sentence: string; // Surrounding sentence, for display
+}
+
+export interface RiskDiscrepancy {
+  // underrated: the AI rated a clause Low but it contains a High-risk pattern
+  // missed: the scanner found a risk in the document that no clause covers
+  kind: 'underrated' | 'missed';
+  finding: ScanFinding;
+  clauseId?: string; // Set for 'underrated'
+}
+
+const MUTUAL_TERMS = /\b(either party|each party|both parties|mutual(ly)?|the parties)\b/i;
+
+const NUMBER_WORDS: Record<string, number> = {
+  'thirty': 30,
+  'forty five': 45,
+  'sixty': 60,
+  'ninety': 90,
+  'one hundred twenty': 120,
+  'one hundred eighty': 180,
+};
+
+// "90", "ninety", "Forty-Five", "one hundred and twenty" ...
+const parseDayCount = (value: string): number => {
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  return NUMBER_WORDS[value.toLowerCase().replace(/-/g, ' ').replace(/ and /, ' ')] || 0;
+};
+
+// Notice periods at or above this many days are flagged
+export const LONG_NOTICE_DAYS = 60;
+
+const RISK_PATTERNS: RiskPattern[] = [
+  {
+    id: 'unlimited-liability',
+    category: 'Liability',
+    riskLevel: RiskLevel.HIGH,
+    description: "Unlimited liability",
+    pattern: /\b(unlimited liability|liable for (any and all|all) (losses|damages|claims|liabilities)|without (any )?limitation (of|on|as to) (liability|amount)|no (cap|limit(ation)?) (on|to) (its |the |their )?liability)\b/gi,
+  },
+  {
+    id: 'unilateral-termination',
+    category: 'Termination',
+    riskLevel: RiskLevel.HIGH,
+    description: "One side may terminate without cause",
+    pattern: /\bmay terminate\b[^.;]{0,60}?\b(at any time|for any reason|for convenience|without cause|with or without cause|in its sole discretion)\b/gi,
+    accept: (sentence) => !MUTUAL_TERMS.test(sentence),
+  },
+  {
+    id: 'termination-no-reason',
+    category: 'Termination',
+    riskLevel: RiskLevel.HIGH,
+    description: "Termination for any reason or no reason",
+    pattern: /\bfor any reason or (for )?no reason\b/gi,
+    accept: (sentence) => !MUTUAL_TERMS.test(sentence),
+  },
+  {
+    id: 'jury-waiver',
+    category: 'Dispute',
+    riskLevel: RiskLevel.HIGH,
+    description: "Waiver of the right to a jury trial",
+    pattern: /\b(waive[sd]?\b[^.;]{0,60}?\bjury|jury trial waiver|waiver of (any |the )?(right to (a )?)?(trial by )?jury)\b/gi,
+  },
+  {
+    id: 'class-action-waiver',
+    category: 'Dispute',
+    riskLevel: RiskLevel.HIGH,
+    description: "Waiver of class or collective actions",
+    pattern: /\b((waive[sd]?|not (to )?(participate|join|bring|commence)|no)\b[^.;]{0,80}?\bclass[- ]action|class[- ]action waiver)\b/gi,
+  },
+  {
+    id: 'auto-renewal',
+    category: 'Renewal',
+    riskLevel: RiskLevel.MEDIUM,
+    description: "Automatic renewal",
+    pattern: /\b(automatic(ally)?[- ]renew(s|ed|al)?|auto[- ]?renew(s|ed|al)?|evergreen)\b/gi,
+  },
+  {
+    id: 'long-notice-period',
+    category: 'Notice',
+    riskLevel: RiskLevel.MEDIUM,
+    description: `Notice period of ${LONG_NOTICE_DAYS} days or more`,
+    pattern: /\b(\d{2,3}|thirty|forty[- ]five|sixty|ninety|one hundred (and )?(twenty|eighty))(\s*\(\d{1,3}\))?\s*(calendar |business )?days\b/gi,
+    accept: (sentence, match) => parseDayCount(match[1]) >= LONG_NOTICE_DAYS && /\bnotice\b/i.test(sentence),
+  },
+  {
+    id: 'one-sided-indemnity',
+    category: 'Indemnification',
+    riskLevel: RiskLevel.MEDIUM,
+    description: "One-sided indemnification",
+    pattern: /\b(shall|will|agrees? to) (defend, )?indemnify\b/gi,
+    accept: (sentence) => !MUTUAL_TERMS.test(sentence),
+  },
+  {
+    id: 'sole-discretion',
+    category: 'Discretion',
+    riskLevel: RiskLevel.MEDIUM,
+    description: "Decision left to one party's sole discretion",
+    pattern: /\b(sole|absolute|sole and absolute) discretion\b/gi,
+    accept: (sentence) => !MUTUAL_TERMS.test(sentence),
+  },
+];
+
+// Sentence (bounded by . ; or a blank line) containing the given range
+const sentenceAround = (text: string, start: number, end: number): { start: number; end: number } => {
+  let from = start;
+  while (from > 0 && start - from < 300 && !/[.;]/.test(text[from - 1]) && text.slice(from - 2, from) !== '\n\n') from--;
+  let to = end;
+  while (to < text.length && to - end < 300 && !/[.;]/.test(text[to])) to++;
+  return { start: from, end: Math.min(text.length, to + 1) };
+};
+
+const overlaps = (a: { start: number; end: number }, b: { start: number; end: number }) =>
+  a.start < b.end && b.start < a.end;
+
+// Findings are ordered by position. Overlapping findings in the same category
+// are collapsed into the riskier one.
+export const scanForRisks = (text: string): ScanFinding[] => {
+  if (!text) return [];
+
+  const findings: ScanFinding[] = [];
+  RISK_PATTERNS.forEach(riskPattern => {
+    for (const match of text.matchAll(riskPattern.pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      const bounds = sentenceAround(text, start, end);
+      const sentence = text.slice(bounds.start, bounds.end).trim();
+      if (riskPattern.accept && !riskPattern.accept(sentence, match)) continue;
+
+      findings.push({
+        patternId: riskPattern.id,
+        category: riskPattern.category,
+        riskLevel: riskPattern.riskLevel,
+        description: riskPattern.description,
+        start,
+        end,
+        matchedText: match[0],
+        sentence,
+      });
+    }
+  });
+
+  const kept: ScanFinding[] = [];
+  findings
+    .sort((a, b) => RISK_ORDER[b.riskLevel] - RISK_ORDER[a.riskLevel] || a.start - b.start)
+    .forEach(finding => {
+      if (!kept.some(other => other.category === finding.category && overlaps(other, finding))) kept.push(finding);
+    });
+
+  return kept.sort((a, b) => a.start - b.start);
+};
+
+const findUnderrating = (clause: Clause, clauseFindings: ScanFinding[]): RiskDiscrepancy | null => {
+  if (clause.riskLevel !== RiskLevel.LOW) return null;
+  const highFinding = clauseFindings.find(finding => finding.riskLevel === RiskLevel.HIGH);
+  return highFinding ? { kind: 'underrated', finding: highFinding, clauseId: clause.id } : null;
+};
+
+// Compares the AI's clauses with the scanner's findings. A document finding
+// counts as covered when a clause's anchor overlaps it or the clause's own
+// text triggers the same pattern.
+export const crossCheckAnalysis = (analysis: ContractAnalysis): RiskDiscrepancy[] => {
+  const clauseFindings = new Map(analysis.clauses.map(clause => [clause.id, scanForRisks(clause.text)]));
+
+  const underrated = analysis.clauses
+    .map(clause => findUnderrating(clause, clauseFindings.get(clause.id) || []))
+    .filter((discrepancy): discrepancy is RiskDiscrepancy => discrepancy !== null);
+
+  const missed = scanForRisks(analysis.fullText || '')
+    .filter(finding => !analysis.clauses.some(clause =>
+      (clause.anchor && overlaps(clause.anchor, finding)) ||
+      (clauseFindings.get(clause.id) || []).some(other => other.patternId === finding.patternId && other.matchedText === finding.matchedText)
+    ))
+    .map((finding): RiskDiscrepancy => ({ kind: 'missed', finding }));
+
+  return [...underrated, ...missed];
+};
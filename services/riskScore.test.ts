@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { Clause, RiskLevel } from "../types";
+import { MAX_RISK_SCORE, SCORE_BANDS, applyRiskScore, computeRiskScore, getClauseRiskCategory } from "./riskScore";
+
+const clause = (id: string, riskLevel: RiskLevel, reason = 'General Risk: Something to note.'): Clause => ({
+  id,
+  text: `Text of ${id}`,
+  explanation: '',
+  riskLevel,
+  riskyKeywords: [],
+  reason,
+});
+
+const inBand = (score: number, level: RiskLevel) =>
+  score >= SCORE_BANDS[level].min && score <= SCORE_BANDS[level].max;
+
+describe('getClauseRiskCategory', () => {
+  it('uses the risk type the reason starts with', () => {
+    expect(getClauseRiskCategory(clause('c1', RiskLevel.HIGH, 'Termination Risk: The landlord may pay liability costs.')))
+      .toMatchObject({ category: 'Termination', weight: 1.2 });
+  });
+
+  it('falls back to General when nothing matches', () => {
+    expect(getClauseRiskCategory(clause('c1', RiskLevel.LOW, 'Odd wording.'))).toMatchObject({ category: 'General', weight: 1 });
+  });
+});
+
+describe('computeRiskScore', () => {
+  it('scores an empty clause list as zero and Low', () => {
+    expect(computeRiskScore([])).toMatchObject({ score: 0, overallRisk: RiskLevel.LOW, contributions: [] });
+  });
+
+  it('orders contributions riskiest first with decaying weight', () => {
+    const { contributions } = computeRiskScore([
+      clause('low', RiskLevel.LOW),
+      clause('high', RiskLevel.HIGH, 'Liability Risk: Unlimited.'),
+      clause('medium', RiskLevel.MEDIUM),
+    ]);
+    expect(contributions.map(item => item.clauseId)).toEqual(['high', 'medium', 'low']);
+    expect(contributions.map(item => item.countFactor)).toEqual([1, 0.2, 0.04]);
+    expect(contributions[0].points).toBe(91);
+  });
+
+  it('sums the contributions into the score', () => {
+    const breakdown = computeRiskScore([clause('a', RiskLevel.MEDIUM), clause('b', RiskLevel.LOW)]);
+    expect(breakdown.uncappedTotal).toBe(42);
+    expect(breakdown.score).toBe(42);
+  });
+
+  it('caps the score at 100 but keeps the uncapped total', () => {
+    const clauses = Array.from({ length: 5 }, (_, index) => clause(`c${index}`, RiskLevel.HIGH, 'Liability Risk: Unlimited.'));
+    const breakdown = computeRiskScore(clauses);
+    expect(breakdown.score).toBe(MAX_RISK_SCORE);
+    expect(breakdown.uncappedTotal).toBeGreaterThan(MAX_RISK_SCORE);
+  });
+
+  it('keeps the score in the band of the riskiest clause', () => {
+    const cases: Clause[][] = [
+      [clause('a', RiskLevel.HIGH)],
+      [clause('a', RiskLevel.MEDIUM)],
+      Array.from({ length: 20 }, (_, index) => clause(`m${index}`, RiskLevel.MEDIUM, 'Liability Risk: Broad.')),
+      Array.from({ length: 20 }, (_, index) => clause(`l${index}`, RiskLevel.LOW, 'Liability Risk: Broad.')),
+      [clause('a', RiskLevel.HIGH), ...Array.from({ length: 10 }, (_, index) => clause(`l${index}`, RiskLevel.LOW))],
+    ];
+    cases.forEach(clauses => {
+      const { score, overallRisk } = computeRiskScore(clauses);
+      expect(inBand(score, overallRisk)).toBe(true);
+    });
+  });
+
+  it('gives more points for more clauses of the same level', () => {
+    const one = computeRiskScore([clause('a', RiskLevel.MEDIUM)]).score;
+    const two = computeRiskScore([clause('a', RiskLevel.MEDIUM), clause('b', RiskLevel.MEDIUM)]).score;
+    expect(two).toBeGreaterThan(one);
+  });
+});
+
+describe('applyRiskScore', () => {
+  it('replaces the model score and overall risk', () => {
+    const analysis = applyRiskScore({
+      summary: 'Summary',
+      overallRisk: RiskLevel.HIGH,
+      riskScore: 95,
+      modelRiskScore: 95,
+      clauses: [clause('a', RiskLevel.LOW)],
+    });
+    expect(analysis).toMatchObject({ riskScore: 10, overallRisk: RiskLevel.LOW, modelRiskScore: 95 });
+  });
+});
@@ -0,0 +1,115 @@
+import { Clause, ContractAnalysis, RiskLevel, getHighestRiskLevel } from "../types";
+
+// Deterministic 0-100 risk score computed from the clause list, so the same
+// clauses always give the same score and every point can be traced back to a
+// clause. The model's own score is kept as `modelRiskScore` for reference.
+//
+// Each clause contributes
+//   points = LEVEL_POINTS[riskLevel] x category weight x COUNT_DECAY^rank
+// where rank is the clause's position (0 = riskiest) when clauses are sorted by
+// their level and category points. The decay gives diminishing returns, so
+// many small risks don't outweigh a few serious ones. The score is the sum of
+// all contributions, capped at 100.
+//
+// The points are tuned so the sum always lands in the band of the riskiest
+// clause (see SCORE_BANDS) and the score agrees with the overall risk: the top
+// clause alone reaches its band's floor, and with the steep decay any number
+// of lesser clauses adds at most a quarter more (40 x 1.3 x 1.25 = 65 for
+// Medium, 10 x 1.3 x 1.25 = 16.25 for Low).
+
+export const LEVEL_POINTS: Record<RiskLevel, number> = {
+  [RiskLevel.HIGH]: 70,
+  [RiskLevel.MEDIUM]: 40,
+  [RiskLevel.LOW]: 10,
+};
+
+export const COUNT_DECAY = 0.2;
+
+export const MAX_RISK_SCORE = 100;
+
+// Inclusive score range for each overall risk level
+export const SCORE_BANDS: Record<RiskLevel, { min: number; max: number }> = {
+  [RiskLevel.LOW]: { min: 0, max: 39 },
+  [RiskLevel.MEDIUM]: { min: 40, max: 69 },
+  [RiskLevel.HIGH]: { min: 70, max: MAX_RISK_SCORE },
+};
+
+interface RiskCategoryWeight {
+  category: string;
+  weight: number;
+  pattern: RegExp; // Matched against the risk type the 'reason' starts with
+}
+
+// Risks that can cost more than the contract is worth weigh the most
+export const RISK_CATEGORY_WEIGHTS: RiskCategoryWeight[] = [
+  { category: 'Liability', weight: 1.3, pattern: /liabilit|indemn/i },
+  { category: 'Termination', weight: 1.2, pattern: /terminat|cancel/i },
+  { category: 'Payment', weight: 1.1, pattern: /payment|financial|fee|price|cost/i },
+  { category: 'Dispute', weight: 1.1, pattern: /dispute|arbitrat|jurisdiction|litigation/i },
+  { category: 'Data Privacy', weight: 1.1, pattern: /privacy|data|confidential/i },
+  { category: 'Renewal', weight: 1.0, pattern: /renew/i },
+];
+
+const GENERAL_CATEGORY = { category: 'General', weight: 1.0 };
+
+export interface ScoreContribution {
+  clauseId: string;
+  riskLevel: RiskLevel;
+  category: string;
+  basePoints: number;
+  categoryWeight: number;
+  countFactor: number;
+  points: number; // Rounded to one decimal
+}
+
+export interface RiskScoreBreakdown {
+  score: number;
+  overallRisk: RiskLevel; // Level of the riskiest clause; the score lies in its band
+  uncappedTotal: number;
+  contributions: ScoreContribution[]; // Riskiest first
+}
+
+// The prompt asks for reasons like "Termination Risk: ...". The prefix is used
+// when present, otherwise the whole reason is searched.
+export const getClauseRiskCategory = (clause: Clause): { category: string; weight: number } => {
+  const prefix = /^\s*([^:.]{1,40}?)\s+risk\b/i.exec(clause.reason)?.[1] || clause.reason;
+  return RISK_CATEGORY_WEIGHTS.find(item => item.pattern.test(prefix)) || GENERAL_CATEGORY;
+};
+
+const roundPoints = (value: number) => Math.round(value * 10) / 10;
+
+export const computeRiskScore = (clauses: Clause[]): RiskScoreBreakdown => {
+  const weighted = clauses
+    .map(clause => {
+      const { category, weight } = getClauseRiskCategory(clause);
+      return { clause, category, weight, raw: LEVEL_POINTS[clause.riskLevel] * weight };
+    })
+    .sort((a, b) => b.raw - a.raw);
+
+  const contributions = weighted.map(({ clause, category, weight, raw }, rank): ScoreContribution => {
+    const countFactor = Math.pow(COUNT_DECAY, rank);
+    return {
+      clauseId: clause.id,
+      riskLevel: clause.riskLevel,
+      category,
+      basePoints: LEVEL_POINTS[clause.riskLevel],
+      categoryWeight: weight,
+      countFactor: Math.round(countFactor * 100) / 100,
+      points: roundPoints(raw * countFactor),
+    };
+  });
+
+  const uncappedTotal = roundPoints(contributions.reduce((sum, item) => sum + item.points, 0));
+  return {
+    score: Math.min(MAX_RISK_SCORE, Math.round(uncappedTotal)),
+    overallRisk: getHighestRiskLevel(clauses) || RiskLevel.LOW,
+    uncappedTotal,
+    contributions,
+  };
+};
+
+// Replaces the model's score and overall risk with the computed ones
+export const applyRiskScore = (analysis: ContractAnalysis): ContractAnalysis => {
+  const { score, overallRisk } = computeRiskScore(analysis.clauses);
+  return { ...analysis, riskScore: score, overallRisk };
+};
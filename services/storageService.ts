@@ -1,15 +1,41 @@
-import { Contract, User, RecentAnalysis } from '../types';
+import { Contract, User, RecentAnalysis, AppSettings, AnalysisCacheEntry, PlaybookRule, CriterionWeights, SavedComparison } from '../types';
+import { applyRiskScore, computeRiskScore } from './riskScore';
 
 const STORAGE_KEYS = {
   USERS: 'legallens_users',
   CONTRACTS: 'legallens_contracts',
   CURRENT_USER: 'legallens_current_user',
   RECENT_ANALYSES: 'legallens_recent_analyses',
+  SETTINGS: 'legallens_settings',
+  ANALYSIS_CACHE: 'legallens_analysis_cache',
+  PLAYBOOKS: 'legallens_playbooks',
+  CRITERION_WEIGHTS: 'legallens_criterion_weights',
+  COMPARISONS: 'legallens_comparisons',
+};
+
+// Oldest cached analyses are dropped beyond this
+const MAX_CACHED_ANALYSES = 20;
+
+// Per user; the oldest comparisons are dropped beyond this
+const MAX_SAVED_COMPARISONS = 20;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  openAIBaseUrl: 'http://localhost:8080/v1',
+  openAIModel: 'local-model',
 };
 
 // Helper to simulate network delay
 const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
+// Risk scores are computed locally from the clauses (see riskScore.ts).
+// Analyses saved with the model's score, or with older point values, are
+// brought up to date as they're read, so every view shows the same score.
+const withComputedRisk = (contract: Contract): Contract => ({
+  ...contract,
+  analysis: contract.analysis && applyRiskScore(contract.analysis),
+  analysisHistory: contract.analysisHistory?.map(version => ({ ...version, analysis: applyRiskScore(version.analysis) })),
+});
+
 export const storageService = {
   getUsers: (): User[] => {
     try {
@@ -60,7 +86,10 @@ export const storageService = {
     try {
       const allContracts = JSON.parse(localStorage.getItem(STORAGE_KEYS.CONTRACTS) || '[]');
       // Ensure we match case-insensitively if needed, but IDs should be normalized by Auth
-      return allContracts.filter((c: Contract) => c.userId === userId).sort((a: Contract, b: Contract) => b.uploadDate - a.uploadDate);
+      return allContracts
+        .filter((c: Contract) => c.userId === userId)
+        .sort((a: Contract, b: Contract) => b.uploadDate - a.uploadDate)
+        .map(withComputedRisk);
     } catch (e) {
       console.error("Failed to get contracts", e);
       // If parsing fails (e.g. corruption), try to recover by returning empty array to avoid app crash
@@ -116,7 +145,8 @@ export const storageService = {
   getContractById: (id: string): Contract | undefined => {
     try {
       const allContracts = JSON.parse(localStorage.getItem(STORAGE_KEYS.CONTRACTS) || '[]');
-      return allContracts.find((c: Contract) => c.id === id);
+      const contract = allContracts.find((c: Contract) => c.id === id);
+      return contract && withComputedRisk(contract);
     } catch (e) {
       return undefined;
     }
@@ -126,8 +156,11 @@ export const storageService = {
 
   getRecentAnalyses: (): RecentAnalysis[] => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEYS.RECENT_ANALYSES);
-      return stored ? JSON.parse(stored) : [];
+      const stored: RecentAnalysis[] = JSON.parse(localStorage.getItem(STORAGE_KEYS.RECENT_ANALYSES) || '[]');
+      return stored.map(recent => {
+        const { score, overallRisk } = computeRiskScore(recent.clauses || []);
+        return { ...recent, riskScore: score, riskSummary: overallRisk };
+      });
     } catch (e) {
       console.error("Failed to get recent analyses", e);
       return [];
@@ -158,5 +191,134 @@ export const storageService = {
     } catch (e) {
       console.error("Failed to clear recent analyses", e);
     }
+  },
+
+  // --- Analysis Cache Methods ---
+
+  getCachedAnalysis: (key: string): AnalysisCacheEntry | undefined => {
+    try {
+      const entries: AnalysisCacheEntry[] = JSON.parse(localStorage.getItem(STORAGE_KEYS.ANALYSIS_CACHE) || '[]');
+      const entry = entries.find(item => item.key === key);
+      return entry && { ...entry, analysis: applyRiskScore(entry.analysis) };
+    } catch (e) {
+      return undefined;
+    }
+  },
+
+  saveCachedAnalysis: (entry: AnalysisCacheEntry) => {
+    try {
+      const entries: AnalysisCacheEntry[] = JSON.parse(localStorage.getItem(STORAGE_KEYS.ANALYSIS_CACHE) || '[]');
+      let next = [entry, ...entries.filter(item => item.key !== entry.key)].slice(0, MAX_CACHED_ANALYSES);
+
+      // The cache is a nice-to-have, so shrink it rather than fail when storage is full
+      while (next.length > 0) {
+        try {
+          localStorage.setItem(STORAGE_KEYS.ANALYSIS_CACHE, JSON.stringify(next));
+          return;
+        } catch (e) {
+          next = next.slice(0, -1);
+        }
+      }
+      localStorage.removeItem(STORAGE_KEYS.ANALYSIS_CACHE);
+    } catch (e) {
+      console.error("Failed to cache analysis", e);
+    }
+  },
+
+  // --- Comparison Methods ---
+
+  // Newest first
+  getComparisons: (userId: string): SavedComparison[] => {
+    try {
+      const comparisons: SavedComparison[] = JSON.parse(localStorage.getItem(STORAGE_KEYS.COMPARISONS) || '[]');
+      return comparisons.filter(comparison => comparison.userId === userId);
+    } catch (e) {
+      console.error("Failed to load comparisons", e);
+      return [];
+    }
+  },
+
+  // Adds or updates a comparison, moving it to the front
+  saveComparison: (comparison: SavedComparison) => {
+    try {
+      const comparisons: SavedComparison[] = JSON.parse(localStorage.getItem(STORAGE_KEYS.COMPARISONS) || '[]');
+      const others = comparisons.filter(item => item.id !== comparison.id);
+      const own = [comparison, ...others.filter(item => item.userId === comparison.userId)].slice(0, MAX_SAVED_COMPARISONS);
+      const next = [...own, ...others.filter(item => item.userId !== comparison.userId)];
+      localStorage.setItem(STORAGE_KEYS.COMPARISONS, JSON.stringify(next));
+    } catch (e) {
+      console.error("Failed to save comparison", e);
+    }
+  },
+
+  deleteComparison: (id: string) => {
+    try {
+      const comparisons: SavedComparison[] = JSON.parse(localStorage.getItem(STORAGE_KEYS.COMPARISONS) || '[]');
+      localStorage.setItem(STORAGE_KEYS.COMPARISONS, JSON.stringify(comparisons.filter(item => item.id !== id)));
+    } catch (e) {
+      console.error("Failed to delete comparison", e);
+    }
+  },
+
+  // --- Playbook Methods ---
+
+  // Rules are stored per user, keyed by user id
+  getPlaybookRules: (userId: string): PlaybookRule[] => {
+    try {
+      const playbooks: Record<string, PlaybookRule[]> = JSON.parse(localStorage.getItem(STORAGE_KEYS.PLAYBOOKS) || '{}');
+      return playbooks[userId] || [];
+    } catch (e) {
+      console.error("Failed to load playbook rules", e);
+      return [];
+    }
+  },
+
+  savePlaybookRules: (userId: string, rules: PlaybookRule[]) => {
+    try {
+      const playbooks: Record<string, PlaybookRule[]> = JSON.parse(localStorage.getItem(STORAGE_KEYS.PLAYBOOKS) || '{}');
+      playbooks[userId] = rules;
+      localStorage.setItem(STORAGE_KEYS.PLAYBOOKS, JSON.stringify(playbooks));
+    } catch (e) {
+      console.error("Failed to save playbook rules", e);
+    }
+  },
+
+  getCriterionWeights: (userId: string): Partial<CriterionWeights> => {
+    try {
+      const weights: Record<string, Partial<CriterionWeights>> = JSON.parse(localStorage.getItem(STORAGE_KEYS.CRITERION_WEIGHTS) || '{}');
+      return weights[userId] || {};
+    } catch (e) {
+      console.error("Failed to load criterion weights", e);
+      return {};
+    }
+  },
+
+  saveCriterionWeights: (userId: string, criterionWeights: CriterionWeights) => {
+    try {
+      const weights: Record<string, CriterionWeights> = JSON.parse(localStorage.getItem(STORAGE_KEYS.CRITERION_WEIGHTS) || '{}');
+      weights[userId] = criterionWeights;
+      localStorage.setItem(STORAGE_KEYS.CRITERION_WEIGHTS, JSON.stringify(weights));
+    } catch (e) {
+      console.error("Failed to save criterion weights", e);
+    }
+  },
+
+  // --- Settings Methods ---
+
+  getSettings: (): AppSettings => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.SETTINGS);
+      return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+    } catch (e) {
+      return DEFAULT_SETTINGS;
+    }
+  },
+
+  saveSettings: (settings: AppSettings) => {
+    try {
+      localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
+    } catch (e) {
+      console.error("Failed to save settings", e);
+    }
   }
-};
\ No newline at end of file
+};
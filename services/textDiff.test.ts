@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { DiffPart, collapseUnchanged, countChangedWords, diffTokens, diffWords } from "./textDiff";
+
+const join = (parts: DiffPart[], skip: DiffPart['op']) =>
+  parts.filter(part => part.op !== skip).map(part => part.text).join('');
+
+describe('diffWords', () => {
+  it('returns a single equal part for identical text', () => {
+    expect(diffWords('Same text.', 'Same text.')).toEqual([{ op: 'equal', text: 'Same text.' }]);
+  });
+
+  it('marks a replaced word as removed then added', () => {
+    expect(diffWords('Pay within 30 days.', 'Pay within 60 days.')).toEqual([
+      { op: 'equal', text: 'Pay within ' },
+      { op: 'removed', text: '30' },
+      { op: 'added', text: '60' },
+      { op: 'equal', text: ' days.' },
+    ]);
+  });
+
+  it('joins back into the original and revised text', () => {
+    const before = 'The Provider may terminate this Agreement at any time, for any reason.';
+    const after = 'Either party may terminate this Agreement with 30 days written notice.';
+    const parts = diffWords(before, after);
+    expect(join(parts, 'added')).toBe(before);
+    expect(join(parts, 'removed')).toBe(after);
+  });
+
+  it('merges whitespace between two changes into a phrase', () => {
+    const parts = diffWords('one two three', 'one four five');
+    expect(parts).toEqual([
+      { op: 'equal', text: 'one ' },
+      { op: 'removed', text: 'two three' },
+      { op: 'added', text: 'four five' },
+    ]);
+  });
+
+  it('handles text added to an empty document', () => {
+    expect(diffWords('', 'New clause')).toEqual([{ op: 'added', text: 'New clause' }]);
+  });
+});
+
+describe('diffTokens', () => {
+  it('falls back to a full rewrite beyond the edit limit', () => {
+    const before = Array.from({ length: 3000 }, (_, index) => `a${index}`);
+    const after = Array.from({ length: 3000 }, (_, index) => `b${index}`);
+    expect(diffTokens(before, after)).toEqual([
+      { op: 'removed', text: before.join('') },
+      { op: 'added', text: after.join('') },
+    ]);
+  });
+});
+
+describe('collapseUnchanged', () => {
+  it('shortens long unchanged stretches between changes', () => {
+    const long = 'x'.repeat(500);
+    const collapsed = collapseUnchanged([
+      { op: 'added', text: 'new' },
+      { op: 'equal', text: long },
+      { op: 'removed', text: 'old' },
+    ], 10);
+    expect(collapsed[1].text).toBe(`${'x'.repeat(10)} [...] ${'x'.repeat(10)}`);
+  });
+
+  it('drops the outer context of leading and trailing stretches', () => {
+    const long = 'y'.repeat(500);
+    const collapsed = collapseUnchanged([{ op: 'equal', text: long }, { op: 'added', text: 'new' }], 10);
+    expect(collapsed[0].text).toBe(`[...] ${'y'.repeat(10)}`);
+  });
+
+  it('leaves short stretches alone', () => {
+    const parts: DiffPart[] = [{ op: 'equal', text: 'short' }];
+    expect(collapseUnchanged(parts, 10)).toEqual(parts);
+  });
+});
+
+describe('countChangedWords', () => {
+  it('counts words, not whitespace or punctuation', () => {
+    expect(countChangedWords(diffWords('Pay within 30 days.', 'Pay, at the latest, within 60 days.')))
+      .toEqual({ added: 4, removed: 1 });
+  });
+});
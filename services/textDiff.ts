@@ -0,0 +1,152 @@
+// Word-level diff (Myers' O(ND) algorithm) for showing suggested wording and
+// document revisions as redlines. Whitespace is kept as separate tokens so the
+// parts join back into the exact original and revised text.
+
+export type DiffOp = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+  op: DiffOp;
+  text: string;
+}
+
+const tokenize = (text: string): string[] => text.match(/\s+|[\p{L}\p{N}'’-]+|[^\s\p{L}\p{N}]/gu) || [];
+
+// Merges neighbouring parts with the same op, and whitespace-only equal parts
+// between two changes into the changes so redlines read as phrases
+const compact = (parts: DiffPart[]): DiffPart[] => {
+  const result: DiffPart[] = [];
+  parts.forEach((part, index) => {
+    const previous = result[result.length - 1];
+    const next = parts[index + 1];
+    if (part.op === 'equal' && !part.text.trim() && previous && previous.op !== 'equal' && next && next.op !== 'equal') {
+      result.push({ op: 'removed', text: part.text }, { op: 'added', text: part.text });
+      return;
+    }
+    if (previous && previous.op === part.op) previous.text += part.text;
+    else result.push({ ...part });
+  });
+
+  // Regroup so each run of changes reads removed-then-added
+  const grouped: DiffPart[] = [];
+  for (let i = 0; i < result.length; i++) {
+    if (result[i].op === 'equal') {
+      grouped.push(result[i]);
+      continue;
+    }
+    let removed = '';
+    let added = '';
+    while (i < result.length && result[i].op !== 'equal') {
+      if (result[i].op === 'removed') removed += result[i].text;
+      else added += result[i].text;
+      i++;
+    }
+    i--;
+    if (removed) grouped.push({ op: 'removed', text: removed });
+    if (added) grouped.push({ op: 'added', text: added });
+  }
+  return grouped;
+};
+
+// Beyond this many token edits the texts are treated as entirely rewritten,
+// which bounds memory (the trace grows with the square of the edit count)
+const MAX_EDIT_DISTANCE = 4000;
+
+export const diffTokens = (before: string[], after: string[]): DiffPart[] => {
+  // Common prefix and suffix are cheap to strip and usually most of the text
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < before.length - prefix && suffix < after.length - prefix &&
+         before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds the diagonals -d..d of v as they were before step d
+  const trace: Int32Array[] = [];
+
+  let found = n === 0 && m === 0;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const middle: DiffPart[] = [];
+  let x = n;
+  let y = m;
+  for (let d = found ? trace.length - 1 : -1; d >= 0; d--) {
+    if (d === 0) {
+      // The opening snake from (0, 0)
+      while (x > 0 && y > 0) {
+        middle.push({ op: 'equal', text: a[--x] });
+        y--;
+      }
+      break;
+    }
+
+    const snapshot = trace[d];
+    const at = (diagonal: number) => snapshot[diagonal + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      middle.push({ op: 'equal', text: a[--x] });
+      y--;
+    }
+    if (x === prevX) middle.push({ op: 'added', text: b[prevY] });
+    else middle.push({ op: 'removed', text: a[prevX] });
+    x = prevX;
+    y = prevY;
+  }
+  middle.reverse();
+
+  if (!found) {
+    middle.push(...a.map((text): DiffPart => ({ op: 'removed', text })), ...b.map((text): DiffPart => ({ op: 'added', text })));
+  }
+
+  return compact([
+    ...before.slice(0, prefix).map((text): DiffPart => ({ op: 'equal', text })),
+    ...middle,
+    ...before.slice(before.length - suffix).map((text): DiffPart => ({ op: 'equal', text })),
+  ]);
+};
+
+export const diffWords = (before: string, after: string): DiffPart[] => diffTokens(tokenize(before), tokenize(after));
+
+// Shortens long unchanged stretches to their first and last `context`
+// characters, for showing only the changes of a long document
+export const collapseUnchanged = (parts: DiffPart[], context = 150): DiffPart[] =>
+  parts.map((part, index): DiffPart => {
+    if (part.op !== 'equal' || part.text.length <= context * 2 + 20) return part;
+    const head = index > 0 ? part.text.slice(0, context) : '';
+    const tail = index < parts.length - 1 ? part.text.slice(-context) : '';
+    return { op: 'equal', text: [head, '[...]', tail].filter(Boolean).join(' ') };
+  });
+
+export const countChangedWords = (parts: DiffPart[]): { added: number; removed: number } => {
+  const count = (op: DiffOp) => parts
+    .filter(part => part.op === op)
+    .reduce((total, part) => total + (part.text.match(/[\p{L}\p{N}]+/gu) || []).length, 0);
+  return { added: count('added'), removed: count('removed') };
+};
@@ -10,12 +10,45 @@ export enum RiskLevel {
   HIGH = 'High',
 }
 
+// Severity rank of each level, for sorting and comparing
+export const RISK_ORDER: Record<RiskLevel, number> = {
+  [RiskLevel.LOW]: 0,
+  [RiskLevel.MEDIUM]: 1,
+  [RiskLevel.HIGH]: 2,
+};
+
+// The riskiest level among the items, or undefined when there are none
+export const getHighestRiskLevel = (items: { riskLevel: RiskLevel }[]): RiskLevel | undefined =>
+  items.reduce<RiskLevel | undefined>(
+    (worst, item) => worst === undefined || RISK_ORDER[item.riskLevel] > RISK_ORDER[worst] ? item.riskLevel : worst,
+    undefined
+  );
+
 export interface QAPair {
   question: string;
   answer: string;
   timestamp: number;
 }
 
+// Where a clause sits in ContractAnalysis.fullText
+export interface ClauseAnchor {
+  start: number; // Character offset, inclusive
+  end: number; // Character offset, exclusive
+  match: 'exact' | 'normalized' | 'fuzzy'; // normalized ignores case, spacing and punctuation
+  score: number; // Share of the clause's words found at this location (1 for exact/normalized)
+}
+
+// Whether a clause's quoted text appears in fullText: word for word (ignoring
+// spacing and punctuation), only approximately, or not at all
+export type ClauseVerification = 'verbatim' | 'approximate' | 'not-found';
+
+// Fairer replacement wording proposed for a clause
+export interface ClauseRedline {
+  suggestedText: string;
+  rationale: string;
+  createdAt: number;
+}
+
 export interface Clause {
   id: string;
   text: string;
@@ -24,14 +57,94 @@ export interface Clause {
   riskyKeywords: string[];
   reason: string;
   conversationHistory?: QAPair[];
+  anchor?: ClauseAnchor; // Missing when the clause couldn't be located in fullText
+  verification?: ClauseVerification; // Missing when there was no fullText to check against
+  redline?: ClauseRedline;
+}
+
+export interface ContractParty {
+  name: string;
+  role: string; // e.g. "Landlord", "Service Provider"
+}
+
+export interface PaymentTerm {
+  description: string; // e.g. "Monthly rent", "Late fee"
+  amount?: number;
+  currency?: string; // ISO 4217 code when known (e.g. "USD")
+}
+
+// Facts pulled out of the contract. Dates are YYYY-MM-DD when the document
+// states an exact date, otherwise the wording used in the document.
+export interface KeyTerms {
+  parties: ContractParty[];
+  effectiveDate?: string;
+  expiryDate?: string;
+  renewalTerms?: string;
+  noticePeriod?: string;
+  payments: PaymentTerm[];
+  governingLaw?: string;
+  venue?: string; // Courts or forum for disputes
+}
+
+export type ContractType = 'nda' | 'lease' | 'employment' | 'saas' | 'loan' | 'services' | 'other';
+
+export type ObligationCategory = 'renewal-notice' | 'payment' | 'termination' | 'other';
+
+export type Recurrence = 'none' | 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+// Something a party must do, optionally by a date
+export interface Obligation {
+  id: string;
+  description: string;
+  category: ObligationCategory;
+  dueDate?: string; // YYYY-MM-DD; the first occurrence for recurring obligations
+  recurrence: Recurrence;
+  party?: string; // Who has to act
+  clauseId?: string; // Clause the obligation comes from
+}
+
+// Whether an expected protection from the contract type's checklist is present
+export interface ProtectionCheck {
+  protectionId: string;
+  present: boolean;
+  clauseId?: string; // Clause providing it, when present
+}
+
+// A user's own red line, checked in every analysis they run
+export interface PlaybookRule {
+  id: string;
+  name: string;
+  description: string; // What the rule forbids, in the user's words
+  severity: RiskLevel;
+}
+
+// Name and severity are copied from the rule so later edits don't change past analyses
+export interface PlaybookViolation {
+  ruleId: string;
+  ruleName: string;
+  severity: RiskLevel;
+  explanation: string;
+  clauseId?: string; // Clause breaking the rule
 }
 
 export interface ContractAnalysis {
   summary: string;
   overallRisk: RiskLevel;
-  riskScore?: number; // 0-100 score
+  riskScore?: number; // 0-100, computed from the clauses (see services/riskScore.ts)
+  modelRiskScore?: number; // The model's own 0-100 estimate, kept for reference
   clauses: Clause[];
   fullText?: string; // OCR extracted text
+  keyTerms?: KeyTerms;
+  obligations?: Obligation[];
+  contractType?: ContractType;
+  protections?: ProtectionCheck[];
+  playbookViolations?: PlaybookViolation[]; // Missing when no playbook rules were checked
+  documentLanguage?: string; // Detected language of the contract (ISO 639-1)
+  outputLanguage?: string; // Language the explanations were written in
+  analyzedAt?: number; // When the model produced this analysis
+  model?: string; // Provider and model that produced it, e.g. "gemini:gemini-2.5-flash"
+  promptVersion?: string; // ANALYSIS_PROMPT_VERSION at the time
+  fromCache?: boolean; // Served from the content-hash cache instead of a new model call
 }
 
 export interface Contract {
@@ -43,6 +156,22 @@ export interface Contract {
   analysis?: ContractAnalysis;
   fileData?: string; // Base64 representation for demo purposes
   mimeType?: string;
+  contentHash?: string; // SHA-256 of the file bytes (hex)
+  analysisHistory?: AnalysisVersion[]; // Earlier analyses, newest first
+  revisionOf?: string; // Id of the previous draft when this is a revised draft of it
+}
+
+// An analysis replaced by a re-analysis, kept for comparison
+export interface AnalysisVersion {
+  id: string;
+  analysis: ContractAnalysis; // Stored without fullText to save space
+  archivedAt: number;
+}
+
+export interface AnalysisCacheEntry {
+  key: string; // Content hash + prompt version + model
+  analysis: ContractAnalysis;
+  cachedAt: number;
 }
 
 export interface RecentAnalysis {
@@ -63,14 +192,64 @@ export interface AuthState {
   isAuthenticated: boolean;
 }
 
+export type AIErrorKind =
+  | 'rate-limited'
+  | 'auth'
+  | 'payload-too-large'
+  | 'safety-blocked'
+  | 'malformed-response'
+  | 'network'
+  | 'unknown';
+
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: number;
+  status?: 'streaming' | 'stopped' | 'error'; // Unset once a reply completes normally
+  error?: string;
+  errorKind?: AIErrorKind;
+}
+
+export type AIProviderName = 'gemini' | 'openai' | 'mock';
+
+export interface AppSettings {
+  aiProvider?: AIProviderName; // Overrides the build-time AI_PROVIDER when set
+  openAIBaseUrl: string; // e.g. http://localhost:8080/v1
+  openAIModel: string;
+  openAIApiKey?: string; // Optional, many local servers don't need one
+  outputLanguage?: string; // Language code for explanations and chat, or 'document' to match the contract
+}
+
+export type ComparisonCriterion = 'cost' | 'termination' | 'liability' | 'renewal' | 'privacy';
+
+export interface CriterionScore {
+  criterion: ComparisonCriterion;
+  score: number; // 0-10, higher is more favorable to the user
+  note: string; // Why the contract got this score
+}
+
+export interface ContractCriterionScores {
+  contractId: string;
+  scores: CriterionScore[]; // Criteria the model couldn't judge are left out
 }
 
+// Weight per criterion, 0 (ignore) to MAX_CRITERION_WEIGHT
+export type CriterionWeights = Record<ComparisonCriterion, number>;
+
 export interface ComparisonResult {
   recommendedId: string;
   reasoning: string;
   keyDifferences: string[];
+  criterionScores: ContractCriterionScores[];
+}
+
+// A comparison kept so it can be reopened later without asking the AI again
+export interface SavedComparison {
+  id: string;
+  userId: string;
+  contractIds: string[];
+  contractNames: string[]; // File names at the time, so the entry stays readable if a contract is deleted
+  createdAt: number;
+  result: ComparisonResult;
+  differenceChats: Record<string, ChatMessage[]>; // Conversations about key differences, keyed by the difference
 }
\ No newline at end of file
@@ -4,15 +4,26 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With the proxy enabled, AI calls go through `npm run server` and the key is not bundled
+    const useProxy = env.AI_PROXY === 'true';
+    const apiKey = useProxy ? '' : env.GEMINI_API_KEY;
+    // xfwd passes the caller's address on, so the server can rate-limit each client (API_TRUST_PROXY)
+    const proxy = useProxy ? { '/api': { target: `http://localhost:${env.API_PORT || 8787}`, xfwd: true } } : undefined;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy,
+      },
+      preview: {
+        proxy,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_PROXY': JSON.stringify(env.AI_PROXY)
       },
       resolve: {
         alias: {